@@ -0,0 +1,16 @@
+﻿// <copyright file="FrozenGrowth.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller
+{
+    using Colossal.Serialization.Entities;
+    using Unity.Entities;
+
+    /// <summary>
+    /// A component that marks trees frozen with the Freeze Growth mode so that they keep NoTreeGrowth when tree growth is enabled.
+    /// </summary>
+    public struct FrozenGrowth : IComponentData, IQueryTypeParameter, IEmptySerializable
+    {
+    }
+}
@@ -0,0 +1,16 @@
+﻿// <copyright file="ResumedGrowth.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller
+{
+    using Colossal.Serialization.Entities;
+    using Unity.Entities;
+
+    /// <summary>
+    /// A component that marks trees resumed with the Resume Growth mode so that they do not get NoTreeGrowth when tree growth is disabled or during winter.
+    /// </summary>
+    public struct ResumedGrowth : IComponentData, IQueryTypeParameter, IEmptySerializable
+    {
+    }
+}
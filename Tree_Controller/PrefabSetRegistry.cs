@@ -0,0 +1,115 @@
+﻿// <copyright file="PrefabSetRegistry.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller
+{
+    using System.Collections.Generic;
+    using System.Linq;
+    using Game.Prefabs;
+    using Tree_Controller.Utils;
+
+    /// <summary>
+    /// Lets other mods and asset packs add prefab sets to the Sets section. Sets can be registered at any time, including before Tree Controller has loaded.
+    /// </summary>
+    /// <example>
+    /// Without a reference to Tree Controller a set can be registered with reflection:
+    /// <code>
+    /// Type.GetType("Tree_Controller.PrefabSetRegistry, Tree_Controller")?.GetMethod("RegisterPrefabSet", new[] { typeof(string), typeof(string), typeof(string), typeof(string), typeof(string[]) })?.Invoke(null, new object[] { "MyPack-pines", "MyPack.PINES", "MyPack.PINES_DESCRIPTION", "coui://mypack/pines.svg", new[] { "Pine01", "Pine02" } });
+    /// </code>
+    /// </example>
+    public static class PrefabSetRegistry
+    {
+        private const string ReservedPrefix = "YYTC-";
+        private static readonly List<RegisteredPrefabSet> RegisteredSets = new ();
+
+        /// <summary>
+        /// Gets a number that changes every time a set is registered or unregistered.
+        /// </summary>
+        public static int Version { get; private set; }
+
+        /// <summary>
+        /// Registers a prefab set or replaces a set previously registered with the same id.
+        /// </summary>
+        /// <param name="id">Unique id for the set. Ids starting with YYTC- are reserved for Tree Controller.</param>
+        /// <param name="name">Locale key or plain text for the name of the set.</param>
+        /// <param name="description">Locale key or plain text for the description of the set.</param>
+        /// <param name="icon">Icon path for the set's button.</param>
+        /// <param name="prefabIDs">Prefab IDs of the trees and plants in the set.</param>
+        /// <returns>True if the set was registered.</returns>
+        public static bool RegisterPrefabSet(string id, string name, string description, string icon, List<PrefabID> prefabIDs)
+        {
+            if (string.IsNullOrWhiteSpace(id) || id.StartsWith(ReservedPrefix) || prefabIDs == null || prefabIDs.Count == 0)
+            {
+                TreeControllerMod.Instance?.Logger.Warn($"{nameof(PrefabSetRegistry)}.{nameof(RegisterPrefabSet)} could not register set {id}. The id must not be empty or start with {ReservedPrefix} and the set must have prefabs.");
+                return false;
+            }
+
+            RegisteredSets.RemoveAll(set => set.ID == id);
+            RegisteredSets.Add(new RegisteredPrefabSet(id, string.IsNullOrWhiteSpace(name) ? id : name, description ?? string.Empty, icon ?? string.Empty, new List<PrefabID>(prefabIDs)));
+            Version++;
+            TreeControllerMod.Instance?.Logger.Info($"{nameof(PrefabSetRegistry)}.{nameof(RegisterPrefabSet)} registered set {id} with {prefabIDs.Count} prefabs.");
+            return true;
+        }
+
+        /// <summary>
+        /// Registers a prefab set or replaces a set previously registered with the same id. Uses only simple types so it can be called with reflection.
+        /// </summary>
+        /// <param name="id">Unique id for the set. Ids starting with YYTC- are reserved for Tree Controller.</param>
+        /// <param name="name">Locale key or plain text for the name of the set.</param>
+        /// <param name="description">Locale key or plain text for the description of the set.</param>
+        /// <param name="icon">Icon path for the set's button.</param>
+        /// <param name="prefabNames">Names of the trees and plants in the set. Names can be written as type:name for prefabs that are not StaticObjectPrefab.</param>
+        /// <returns>True if the set was registered.</returns>
+        public static bool RegisterPrefabSet(string id, string name, string description, string icon, string[] prefabNames)
+        {
+            List<PrefabID> prefabIDs = new List<PrefabID>();
+            foreach (string prefabName in prefabNames ?? new string[0])
+            {
+                if (PrefabIDUtils.TryParse(prefabName, out PrefabID prefabID))
+                {
+                    prefabIDs.Add(prefabID);
+                }
+            }
+
+            return RegisterPrefabSet(id, name, description, icon, prefabIDs);
+        }
+
+        /// <summary>
+        /// Removes a registered prefab set.
+        /// </summary>
+        /// <param name="id">Id the set was registered with.</param>
+        /// <returns>True if the set was removed.</returns>
+        public static bool UnregisterPrefabSet(string id)
+        {
+            if (RegisteredSets.RemoveAll(set => set.ID == id) == 0)
+            {
+                return false;
+            }
+
+            Version++;
+            return true;
+        }
+
+        /// <summary>
+        /// Gets the registered prefab sets in the order they were registered.
+        /// </summary>
+        /// <returns>List of registered prefab sets.</returns>
+        public static List<RegisteredPrefabSet> GetPrefabSets()
+        {
+            return RegisteredSets.ToList();
+        }
+
+        /// <summary>
+        /// Tries to get a registered prefab set.
+        /// </summary>
+        /// <param name="id">Id the set was registered with.</param>
+        /// <param name="prefabSet">The registered prefab set.</param>
+        /// <returns>True if the set is registered.</returns>
+        public static bool TryGetPrefabSet(string id, out RegisteredPrefabSet prefabSet)
+        {
+            prefabSet = RegisteredSets.FirstOrDefault(set => set.ID == id);
+            return prefabSet != null;
+        }
+    }
+}
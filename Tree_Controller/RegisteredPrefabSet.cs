@@ -0,0 +1,57 @@
+﻿// <copyright file="RegisteredPrefabSet.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller
+{
+    using System.Collections.Generic;
+    using Game.Prefabs;
+
+    /// <summary>
+    /// A prefab set registered by another mod or asset pack through <see cref="PrefabSetRegistry"/>.
+    /// </summary>
+    public class RegisteredPrefabSet
+    {
+        /// <summary>
+        /// Initializes a new instance of the <see cref="RegisteredPrefabSet"/> class.
+        /// </summary>
+        /// <param name="id">the id used when changing prefab set.</param>
+        /// <param name="name">locale key or plain text for the name of the set.</param>
+        /// <param name="description">locale key or plain text for the description of the set.</param>
+        /// <param name="icon">the icon path of the set.</param>
+        /// <param name="prefabIDs">list of prefab IDs for the set.</param>
+        public RegisteredPrefabSet(string id, string name, string description, string icon, List<PrefabID> prefabIDs)
+        {
+            ID = id;
+            Name = name;
+            Description = description;
+            Icon = icon;
+            PrefabIDs = prefabIDs;
+        }
+
+        /// <summary>
+        /// Gets the id used when changing prefab set.
+        /// </summary>
+        public string ID { get; }
+
+        /// <summary>
+        /// Gets the locale key or plain text for the name of the set.
+        /// </summary>
+        public string Name { get; }
+
+        /// <summary>
+        /// Gets the locale key or plain text for the description of the set.
+        /// </summary>
+        public string Description { get; }
+
+        /// <summary>
+        /// Gets the icon path of the set.
+        /// </summary>
+        public string Icon { get; }
+
+        /// <summary>
+        /// Gets the prefab IDs in the set.
+        /// </summary>
+        public List<PrefabID> PrefabIDs { get; }
+    }
+}
@@ -0,0 +1,163 @@
+﻿// <copyright file="CustomSetExport.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Settings
+{
+    using System;
+    using System.Collections.Generic;
+    using System.IO;
+    using System.Runtime.Serialization;
+    using System.Runtime.Serialization.Json;
+    using System.Text;
+    using Game.Prefabs;
+    using Tree_Controller.Utils;
+
+    /// <summary>
+    /// A class to use for JSON serialization and deserialization of a prefab set that is shared as a Base64 string.
+    /// </summary>
+    [DataContract]
+    public class CustomSetExport
+    {
+        /// <summary>
+        /// The current version of the export format.
+        /// </summary>
+        public const int CurrentVersion = 1;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="CustomSetExport"/> class.
+        /// </summary>
+        public CustomSetExport()
+        {
+        }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="CustomSetExport"/> class.
+        /// </summary>
+        /// <param name="name">the name of the set.</param>
+        /// <param name="prefabIDs">list of prefab IDs for the set.</param>
+        /// <param name="prefabWeights">optional list of weights aligned with the prefab IDs.</param>
+        public CustomSetExport(string name, List<PrefabID> prefabIDs, List<int> prefabWeights = null)
+        {
+            Version = CurrentVersion;
+            Name = name;
+            PrefabIDs = new string[prefabIDs.Count];
+            for (int i = 0; i < prefabIDs.Count; i++)
+            {
+                PrefabIDs[i] = prefabIDs[i].ToString();
+            }
+
+            if (prefabWeights != null && prefabWeights.Count == prefabIDs.Count)
+            {
+                PrefabWeights = prefabWeights.ToArray();
+            }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the version of the export format.
+        /// </summary>
+        [DataMember(Name = "v", Order = 0)]
+        public int Version { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the name of the set.
+        /// </summary>
+        [DataMember(Name = "n", Order = 1)]
+        public string Name { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the prefab IDs in the set written as type:name.
+        /// </summary>
+        [DataMember(Name = "p", Order = 2)]
+        public string[] PrefabIDs { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the weights of the prefabs in the set. Optional so that sets exported without weights can still be read.
+        /// </summary>
+        [DataMember(Name = "w", Order = 3, EmitDefaultValue = false)]
+        public int[] PrefabWeights { get; set; }
+
+        /// <summary>
+        /// Tries to read an exported set from a Base64 string or from plain JSON.
+        /// </summary>
+        /// <param name="text">The Base64 string or JSON.</param>
+        /// <param name="export">The exported set.</param>
+        /// <returns>True if the text could be read as an exported set.</returns>
+        public static bool TryParse(string text, out CustomSetExport export)
+        {
+            export = null;
+            if (string.IsNullOrWhiteSpace(text))
+            {
+                return false;
+            }
+
+            try
+            {
+                text = text.Trim();
+                string json = text.StartsWith("{") ? text : Encoding.UTF8.GetString(Convert.FromBase64String(text));
+                DataContractJsonSerializer serializer = new DataContractJsonSerializer(typeof(CustomSetExport));
+                using MemoryStream stream = new MemoryStream(Encoding.UTF8.GetBytes(json));
+                export = serializer.ReadObject(stream) as CustomSetExport;
+            }
+            catch (Exception)
+            {
+                return false;
+            }
+
+            return export != null && export.Version > 0 && export.Version <= CurrentVersion && export.PrefabIDs != null;
+        }
+
+        /// <summary>
+        /// Writes the set as a Base64 string of compact JSON.
+        /// </summary>
+        /// <returns>Base64 string.</returns>
+        public string ToBase64String()
+        {
+            DataContractJsonSerializer serializer = new DataContractJsonSerializer(typeof(CustomSetExport));
+            using MemoryStream stream = new MemoryStream();
+            serializer.WriteObject(stream, this);
+            return Convert.ToBase64String(stream.ToArray());
+        }
+
+        /// <summary>
+        /// Gets a list of prefab IDs from the array of prefab IDs written as type:name.
+        /// </summary>
+        /// <returns>List of prefab IDs.</returns>
+        public List<PrefabID> GetPrefabIDs()
+        {
+            List<PrefabID> prefabIDs = new List<PrefabID>();
+            foreach (string id in PrefabIDs)
+            {
+                if (PrefabIDUtils.TryParse(id, out PrefabID prefabID))
+                {
+                    prefabIDs.Add(prefabID);
+                }
+            }
+
+            return prefabIDs;
+        }
+
+        /// <summary>
+        /// Gets the weights aligned with <see cref="GetPrefabIDs"/>.
+        /// </summary>
+        /// <returns>Array of weights or null if the set was exported without weights.</returns>
+        public int[] GetPrefabWeights()
+        {
+            if (PrefabWeights == null || PrefabWeights.Length != PrefabIDs.Length)
+            {
+                return null;
+            }
+
+            List<int> prefabWeights = new List<int>();
+            for (int i = 0; i < PrefabIDs.Length; i++)
+            {
+                if (!string.IsNullOrWhiteSpace(PrefabIDs[i]))
+                {
+                    prefabWeights.Add(CustomSetRepository.ClampPrefabWeight(PrefabWeights[i]));
+                }
+            }
+
+            return prefabWeights.ToArray();
+        }
+    }
+}
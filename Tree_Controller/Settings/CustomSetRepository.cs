@@ -4,8 +4,11 @@
 
 namespace Tree_Controller.Settings
 {
+    using System;
     using System.Collections.Generic;
+    using System.Linq;
     using Game.Prefabs;
+    using Tree_Controller.Utils;
     using Unity.Entities;
 
     /// <summary>
@@ -13,7 +16,21 @@ namespace Tree_Controller.Settings
     /// </summary>
     public class CustomSetRepository
     {
+        /// <summary>
+        /// The weight used for prefabs that do not have a stored weight.
+        /// </summary>
+        public const int DefaultPrefabWeight = 50;
+
+        /// <summary>
+        /// The highest weight a prefab can have.
+        /// </summary>
+        public const int MaxPrefabWeight = 100;
+
+        private string m_ID;
+        private string m_Name;
+        private string m_Icon;
         private string[] m_PrefabNames;
+        private int[] m_PrefabWeights;
         private int m_Version;
 
         /// <summary>
@@ -52,7 +69,50 @@ namespace Tree_Controller.Settings
         }
 
         /// <summary>
-        /// Gets or sets a value indicating the names of the prefabs in the set.
+        /// Initializes a new instance of the <see cref="CustomSetRepository"/> class.
+        /// </summary>
+        /// <param name="id">the unique id of the custom set used by the UI.</param>
+        /// <param name="name">the user given name of the custom set.</param>
+        /// <param name="icon">an optional icon path for the custom set.</param>
+        /// <param name="customSet">list of prefab IDs for the custom set.</param>
+        public CustomSetRepository(string id, string name, string icon, List<PrefabID> customSet)
+        {
+            m_ID = id;
+            m_Name = name;
+            m_Icon = icon;
+            m_PrefabNames = ConvertToArray(customSet);
+            m_Version = 2;
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the unique id of the set.
+        /// </summary>
+        public string ID
+        {
+            get { return m_ID; }
+            set { m_ID = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the user given name of the set.
+        /// </summary>
+        public string Name
+        {
+            get { return m_Name; }
+            set { m_Name = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the icon path of the set. Empty if the set's number should be shown instead.
+        /// </summary>
+        public string Icon
+        {
+            get { return m_Icon; }
+            set { m_Icon = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the prefabs in the set written as type:name, or as only the name for a StaticObjectPrefab.
         /// </summary>
         public string[] PrefabNames
         {
@@ -60,6 +120,15 @@ namespace Tree_Controller.Settings
             set { m_PrefabNames = value; }
         }
 
+        /// <summary>
+        /// Gets or sets a value indicating the weights of the prefabs in the set. Aligned with <see cref="PrefabNames"/>. Null for sets saved before weights existed.
+        /// </summary>
+        public int[] PrefabWeights
+        {
+            get { return m_PrefabWeights; }
+            set { m_PrefabWeights = value; }
+        }
+
         /// <summary>
         /// Gets or sets a value indicating the names of the prefabs in the set.
         /// </summary>
@@ -69,23 +138,49 @@ namespace Tree_Controller.Settings
             set { m_Version = value; }
         }
 
+        /// <summary>
+        /// Clamps a weight from the slider, an import or the stored sets to 0 to <see cref="MaxPrefabWeight"/>.
+        /// </summary>
+        /// <param name="weight">The weight.</param>
+        /// <returns>The clamped weight.</returns>
+        public static int ClampPrefabWeight(int weight)
+        {
+            return Math.Max(0, Math.Min(MaxPrefabWeight, weight));
+        }
+
         /// <summary>
         /// Gets a list of PrefabBases from the array of prefab names.
         /// </summary>
         /// <returns>List of PrefabBases.</returns>
         public List<PrefabBase> GetPrefabBases()
+        {
+            return GetPrefabBases(out _);
+        }
+
+        /// <summary>
+        /// Gets a list of PrefabBases from the array of prefab names.
+        /// </summary>
+        /// <param name="unresolvedPrefabNames">Names of prefabs that are not currently loaded.</param>
+        /// <returns>List of PrefabBases.</returns>
+        public List<PrefabBase> GetPrefabBases(out List<string> unresolvedPrefabNames)
         {
             PrefabSystem prefabSystem = World.DefaultGameObjectInjectionWorld?.GetOrCreateSystemManaged<PrefabSystem>();
             List<PrefabBase> prefabs = new List<PrefabBase>();
+            unresolvedPrefabNames = new List<string>();
             foreach (string name in m_PrefabNames)
             {
-                PrefabID prefabID = new PrefabID("StaticObjectPrefab", name);
-                if (prefabSystem.TryGetPrefab(prefabID, out PrefabBase prefab))
+                if (!PrefabIDUtils.TryParse(name, out PrefabID prefabID))
+                {
+                    continue;
+                }
+
+                if (prefabSystem.TryGetPrefab(prefabID, out PrefabBase prefab) && prefab != null)
                 {
-                    if (prefab != null)
-                    {
-                        prefabs.Add(prefab);
-                    }
+                    prefabs.Add(prefab);
+                }
+                else
+                {
+                    unresolvedPrefabNames.Add(prefabID.GetName());
                 }
             }
 
@@ -101,13 +196,60 @@ namespace Tree_Controller.Settings
             List<PrefabID> prefabIDs = new List<PrefabID>();
             foreach (string name in m_PrefabNames)
             {
-                PrefabID prefabID = new PrefabID("StaticObjectPrefab", name);
-                prefabIDs.Add(prefabID);
+                if (PrefabIDUtils.TryParse(name, out PrefabID prefabID))
+                {
+                    prefabIDs.Add(prefabID);
+                }
             }
 
             return prefabIDs;
         }
 
+        /// <summary>
+        /// Gets the weight of a prefab in the set.
+        /// </summary>
+        /// <param name="prefabName">Name of the prefab.</param>
+        /// <returns>The stored weight or the default weight.</returns>
+        public int GetPrefabWeight(string prefabName)
+        {
+            int index = IndexOfPrefab(prefabName);
+            if (index < 0 || m_PrefabWeights == null || m_PrefabWeights.Length != m_PrefabNames.Length)
+            {
+                return DefaultPrefabWeight;
+            }
+
+            return ClampPrefabWeight(m_PrefabWeights[index]);
+        }
+
+        /// <summary>
+        /// Sets the weight of a prefab in the set.
+        /// </summary>
+        /// <param name="prefabName">Name of the prefab.</param>
+        /// <param name="weight">The new weight.</param>
+        /// <returns>True if the prefab is in the set.</returns>
+        public bool SetPrefabWeight(string prefabName, int weight)
+        {
+            int index = IndexOfPrefab(prefabName);
+            if (index < 0)
+            {
+                return false;
+            }
+
+            if (m_PrefabWeights == null || m_PrefabWeights.Length != m_PrefabNames.Length)
+            {
+                int[] prefabWeights = new int[m_PrefabNames.Length];
+                for (int i = 0; i < m_PrefabNames.Length; i++)
+                {
+                    prefabWeights[i] = DefaultPrefabWeight;
+                }
+
+                m_PrefabWeights = prefabWeights;
+            }
+
+            m_PrefabWeights[index] = ClampPrefabWeight(weight);
+            return true;
+        }
+
         /// <summary>
         /// Sets m_PrefabNames from a list of prefab IDs.
         /// </summary>
@@ -115,6 +257,46 @@ namespace Tree_Controller.Settings
         public void SetPrefabs(List<PrefabBase> prefabs)
         {
             m_PrefabNames = ConvertToArray(prefabs);
+            m_PrefabWeights = null;
+        }
+
+        /// <summary>
+        /// Sets m_PrefabNames and m_PrefabWeights from a list of prefabs and their weights.
+        /// </summary>
+        /// <param name="prefabs">List of prefabs for the custom set.</param>
+        /// <param name="weights">List of weights aligned with the prefabs.</param>
+        public void SetPrefabs(List<PrefabBase> prefabs, List<int> weights)
+        {
+            m_PrefabNames = ConvertToArray(prefabs);
+            m_PrefabWeights = weights.Count == prefabs.Count ? weights.Select(ClampPrefabWeight).ToArray() : null;
+        }
+
+        /// <summary>
+        /// Sets m_PrefabNames from a list of prefab IDs.
+        /// </summary>
+        /// <param name="prefabs">List of prefab IDs for the custom set.</param>
+        public void SetPrefabs(List<PrefabID> prefabs)
+        {
+            m_PrefabNames = ConvertToArray(prefabs);
+            m_PrefabWeights = null;
+        }
+
+        /// <summary>
+        /// Gets the index of a prefab in <see cref="PrefabNames"/> by name whether or not its type is stored.
+        /// </summary>
+        /// <param name="prefabName">Name of the prefab.</param>
+        /// <returns>The index or -1 if the prefab is not in the set.</returns>
+        private int IndexOfPrefab(string prefabName)
+        {
+            for (int i = 0; i < m_PrefabNames.Length; i++)
+            {
+                if (PrefabIDUtils.TryParse(m_PrefabNames[i], out PrefabID prefabID) && prefabID.GetName() == prefabName)
+                {
+                    return i;
+                }
+            }
+
+            return -1;
         }
 
         private string[] ConvertToArray(List<PrefabBase> list)
@@ -122,7 +304,7 @@ namespace Tree_Controller.Settings
             string[] array = new string[list.Count];
             for (int i = 0; i < list.Count; i++)
             {
-                array[i] = list[i].name;
+                array[i] = PrefabIDUtils.ToText(list[i].GetPrefabID());
             }
 
             return array;
@@ -133,7 +315,7 @@ namespace Tree_Controller.Settings
             string[] array = new string[list.Count];
             for (int i = 0; i < list.Count; i++)
             {
-                array[i] = list[i].GetName();
+                array[i] = PrefabIDUtils.ToText(list[i]);
             }
 
             return array;
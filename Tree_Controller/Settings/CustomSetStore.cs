@@ -0,0 +1,53 @@
+﻿// <copyright file="CustomSetStore.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Settings
+{
+    using System.Collections.Generic;
+
+    /// <summary>
+    /// A class to use for XML serialization and deserialization for storing all of the custom sets in order.
+    /// </summary>
+    public class CustomSetStore
+    {
+        private List<CustomSetRepository> m_CustomSets;
+        private int m_Version;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="CustomSetStore"/> class.
+        /// </summary>
+        public CustomSetStore()
+        {
+            m_CustomSets = new List<CustomSetRepository>();
+        }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="CustomSetStore"/> class.
+        /// </summary>
+        /// <param name="customSets">ordered list of custom sets.</param>
+        public CustomSetStore(List<CustomSetRepository> customSets)
+        {
+            m_CustomSets = customSets;
+            m_Version = 1;
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the custom sets in the order they are shown.
+        /// </summary>
+        public List<CustomSetRepository> CustomSets
+        {
+            get { return m_CustomSets; }
+            set { m_CustomSets = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the version of the store.
+        /// </summary>
+        public int Version
+        {
+            get { return m_Version; }
+            set { m_Version = value; }
+        }
+    }
+}
@@ -0,0 +1,87 @@
+﻿// <copyright file="FoliageColorRepository.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Settings
+{
+    using System.Collections.Generic;
+    using Game.Prefabs;
+
+    /// <summary>
+    /// A class to use for XML serialization and deserialization for storing the seasonal foliage colors of one prefab.
+    /// </summary>
+    public class FoliageColorRepository
+    {
+        private string m_PrefabType;
+        private string m_PrefabName;
+        private List<SavedColorVariation> m_ColorVariations;
+        private int m_Version;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="FoliageColorRepository"/> class.
+        /// </summary>
+        public FoliageColorRepository()
+        {
+            m_ColorVariations = new List<SavedColorVariation>();
+        }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="FoliageColorRepository"/> class.
+        /// </summary>
+        /// <param name="prefabID">the prefab ID of the tree or plant.</param>
+        /// <param name="colorVariations">list of saved color variations for the prefab.</param>
+        public FoliageColorRepository(PrefabID prefabID, List<SavedColorVariation> colorVariations)
+        {
+            string id = prefabID.ToString();
+            m_PrefabType = id.Remove(id.IndexOf(':'));
+            m_PrefabName = prefabID.GetName();
+            m_ColorVariations = colorVariations;
+            m_Version = 1;
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the type of the prefab.
+        /// </summary>
+        public string PrefabType
+        {
+            get { return m_PrefabType; }
+            set { m_PrefabType = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the name of the prefab.
+        /// </summary>
+        public string PrefabName
+        {
+            get { return m_PrefabName; }
+            set { m_PrefabName = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the saved color variations of the prefab.
+        /// </summary>
+        public List<SavedColorVariation> ColorVariations
+        {
+            get { return m_ColorVariations; }
+            set { m_ColorVariations = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the version of the repository.
+        /// </summary>
+        public int Version
+        {
+            get { return m_Version; }
+            set { m_Version = value; }
+        }
+
+        /// <summary>
+        /// Gets the prefab ID from the prefab type and name.
+        /// </summary>
+        /// <returns>Prefab ID.</returns>
+        public PrefabID GetPrefabID()
+        {
+            return new PrefabID(m_PrefabType, m_PrefabName);
+        }
+    }
+}
@@ -7,6 +7,7 @@ namespace Tree_Controller.Settings
     using System.Collections.Generic;
     using Colossal;
     using Colossal.IO.AssetDatabase.Internal;
+    using Game.Input;
 
     /// <summary>
     /// Localization for <see cref="TreeControllerSettings"/> in English.
@@ -34,8 +35,110 @@ namespace Tree_Controller.Settings
                 { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.DisableTreeGrowth)), "Disable tree growth for the entire map except for lumber industry." },
                 { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.ColorVariationSet)), "Color Variation Set" },
                 { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.ColorVariationSet)), "Sets of seasonal colors for Trees, bushes, and plants. Vanilla is the base game. Yenyang's is my curated colors. Spring is green year round. Autumn is fall colors year round. Custom has been moved to a new mod called Recolor." },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.WholeMapConfirmationThreshold)), "Whole Map Confirmation Threshold" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.WholeMapConfirmationThreshold)), "Changing more trees than this with Whole Map selection asks for confirmation first. Set to 0 to always ask." },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.CycleToolModeBinding)), "Cycle Tool Mode" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.CycleToolModeBinding)), "Switches to the next tool mode: Plop, Brush, Change Age, Change Type." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.CycleToolModeActionName), "Cycle Tool Mode" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.CycleSelectionModeBinding)), "Cycle Selection Mode" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.CycleSelectionModeBinding)), "Switches to the next selection mode while Change Age or Change Type is active." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.CycleSelectionModeActionName), "Cycle Selection Mode" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.ToggleChildAgeBinding)), "Toggle Child Age" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.ToggleChildAgeBinding)), "Toggles child trees in the age selection." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.ToggleChildAgeActionName), "Toggle Child Age" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.ToggleTeenAgeBinding)), "Toggle Teen Age" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.ToggleTeenAgeBinding)), "Toggles teen trees in the age selection." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.ToggleTeenAgeActionName), "Toggle Teen Age" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.ToggleAdultAgeBinding)), "Toggle Adult Age" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.ToggleAdultAgeBinding)), "Toggles adult trees in the age selection." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.ToggleAdultAgeActionName), "Toggle Adult Age" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.ToggleElderlyAgeBinding)), "Toggle Elderly Age" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.ToggleElderlyAgeBinding)), "Toggles elderly trees in the age selection." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.ToggleElderlyAgeActionName), "Toggle Elderly Age" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.ToggleDeadAgeBinding)), "Toggle Dead Age" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.ToggleDeadAgeBinding)), "Toggles dead trees in the age selection." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.ToggleDeadAgeActionName), "Toggle Dead Age" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.IncreaseRadiusBinding)), "Increase Radius" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.IncreaseRadiusBinding)), "Increases the radius or brush size." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.IncreaseRadiusActionName), "Increase Radius" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.DecreaseRadiusBinding)), "Decrease Radius" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.DecreaseRadiusBinding)), "Decreases the radius or brush size." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.DecreaseRadiusActionName), "Decrease Radius" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RecallSet1Binding)), "Recall Custom Set 1" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RecallSet1Binding)), "Selects custom set 1." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RecallSet1ActionName), "Recall Custom Set 1" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RecallSet2Binding)), "Recall Custom Set 2" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RecallSet2Binding)), "Selects custom set 2." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RecallSet2ActionName), "Recall Custom Set 2" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RecallSet3Binding)), "Recall Custom Set 3" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RecallSet3Binding)), "Selects custom set 3." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RecallSet3ActionName), "Recall Custom Set 3" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RecallSet4Binding)), "Recall Custom Set 4" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RecallSet4Binding)), "Selects custom set 4." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RecallSet4ActionName), "Recall Custom Set 4" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RecallSet5Binding)), "Recall Custom Set 5" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RecallSet5Binding)), "Selects custom set 5." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RecallSet5ActionName), "Recall Custom Set 5" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RecallSet6Binding)), "Recall Custom Set 6" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RecallSet6Binding)), "Selects custom set 6." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RecallSet6ActionName), "Recall Custom Set 6" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RecallSet7Binding)), "Recall Custom Set 7" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RecallSet7Binding)), "Selects custom set 7." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RecallSet7ActionName), "Recall Custom Set 7" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RecallSet8Binding)), "Recall Custom Set 8" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RecallSet8Binding)), "Selects custom set 8." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RecallSet8ActionName), "Recall Custom Set 8" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RecallSet9Binding)), "Recall Custom Set 9" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RecallSet9Binding)), "Selects custom set 9." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RecallSet9ActionName), "Recall Custom Set 9" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SaveSet1Binding)), "Save Custom Set 1" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SaveSet1Binding)), "Saves the current selection as custom set 1. If there is no custom set 1 yet, a new custom set is created." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.SaveSet1ActionName), "Save Custom Set 1" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SaveSet2Binding)), "Save Custom Set 2" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SaveSet2Binding)), "Saves the current selection as custom set 2. If there is no custom set 2 yet, a new custom set is created." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.SaveSet2ActionName), "Save Custom Set 2" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SaveSet3Binding)), "Save Custom Set 3" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SaveSet3Binding)), "Saves the current selection as custom set 3. If there is no custom set 3 yet, a new custom set is created." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.SaveSet3ActionName), "Save Custom Set 3" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SaveSet4Binding)), "Save Custom Set 4" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SaveSet4Binding)), "Saves the current selection as custom set 4. If there is no custom set 4 yet, a new custom set is created." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.SaveSet4ActionName), "Save Custom Set 4" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SaveSet5Binding)), "Save Custom Set 5" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SaveSet5Binding)), "Saves the current selection as custom set 5. If there is no custom set 5 yet, a new custom set is created." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.SaveSet5ActionName), "Save Custom Set 5" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SaveSet6Binding)), "Save Custom Set 6" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SaveSet6Binding)), "Saves the current selection as custom set 6. If there is no custom set 6 yet, a new custom set is created." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.SaveSet6ActionName), "Save Custom Set 6" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SaveSet7Binding)), "Save Custom Set 7" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SaveSet7Binding)), "Saves the current selection as custom set 7. If there is no custom set 7 yet, a new custom set is created." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.SaveSet7ActionName), "Save Custom Set 7" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SaveSet8Binding)), "Save Custom Set 8" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SaveSet8Binding)), "Saves the current selection as custom set 8. If there is no custom set 8 yet, a new custom set is created." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.SaveSet8ActionName), "Save Custom Set 8" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SaveSet9Binding)), "Save Custom Set 9" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SaveSet9Binding)), "Saves the current selection as custom set 9. If there is no custom set 9 yet, a new custom set is created." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.SaveSet9ActionName), "Save Custom Set 9" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.AddPickedTreeBinding)), "Add Picked Tree" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.AddPickedTreeBinding)), "Adds the type and age of the tree picked with the eyedropper to the current selection." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.AddPickedTreeActionName), "Add Picked Tree" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.ScrollRadiusUpBinding)), "Scroll Radius Up" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.ScrollRadiusUpBinding)), "Increases the radius or brush size with the mouse wheel. The camera does not zoom while this binding is used." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.ScrollRadiusActionName, AxisComponent.Positive), "Scroll Radius Up" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.ScrollRadiusDownBinding)), "Scroll Radius Down" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.ScrollRadiusDownBinding)), "Decreases the radius or brush size with the mouse wheel. The camera does not zoom while this binding is used." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.ScrollRadiusActionName, AxisComponent.Negative), "Scroll Radius Down" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.UndoBinding)), "Undo" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.UndoBinding)), "Reverts the most recent change of age or type." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.UndoActionName), "Undo" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.RedoBinding)), "Redo" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.RedoBinding)), "Reapplies the most recently undone change of age or type." },
+                { m_Setting.GetBindingKeyLocaleID(TreeControllerMod.RedoActionName), "Redo" },
+                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.ResetKeyBindingsButton)), "Reset Key Bindings" },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.ResetKeyBindingsButton)), "Resets the key bindings for Tree Controller to their defaults." },
+                { m_Setting.GetOptionWarningLocaleID(nameof(TreeControllerSettings.ResetKeyBindingsButton)), "Reset the key bindings for Tree Controller?" },
+                { m_Setting.GetBindingMapLocaleID(), "Tree Controller" },
                 { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.SafelyRemoveButton)), "Safely Remove" },
-                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SafelyRemoveButton)), "Removes Tree Controller mod components and resets tree and bush model states. Only necessary during Winter and very end of Autumn. Must use reset button to undo setting change." },
+                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.SafelyRemoveButton)), "Removes Tree Controller mod components, including frozen and resumed growth, and resets tree and bush model states. Turns off the winter dead model and disabled tree growth settings. Must use reset button to undo setting change." },
                 { m_Setting.GetOptionWarningLocaleID(nameof(TreeControllerSettings.SafelyRemoveButton)), "Remove Tree Controller mod components and reset tree and bush model states?" },
                 { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.DestroyFoliageSettings)), "Delete All Foliage" },
                 { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.DestroyFoliageSettings)), "Permanently removes all trees and plants from the map. It keeps any foliage owned by buildings, parks, or roads. This action cannot be undone." },
@@ -47,24 +150,34 @@ namespace Tree_Controller.Settings
                 { m_Setting.GetEnumValueLocaleID(TreeControllerSettings.ColorVariationSetYYTC.Vanilla), "Vanilla" },
                 { m_Setting.GetEnumValueLocaleID(TreeControllerSettings.ColorVariationSetYYTC.Spring), "Spring" },
                 { m_Setting.GetEnumValueLocaleID(TreeControllerSettings.ColorVariationSetYYTC.Autumn), "Autumn" },
-                { m_Setting.GetEnumValueLocaleID(TreeControllerSettings.AgeSelectionOptions.RandomEqualWeight), "Equal Distribution" },
-                { m_Setting.GetEnumValueLocaleID(TreeControllerSettings.AgeSelectionOptions.RandomWeighted), "Forest Distribution" },
-                { m_Setting.GetOptionLabelLocaleID(nameof(TreeControllerSettings.AgeSelectionTechnique)), "Age Selection Technique" },
-                { m_Setting.GetOptionDescLocaleID(nameof(TreeControllerSettings.AgeSelectionTechnique)), "When multiple Tree Ages are selected, one will be selected using this option. Equal Distribution is just a random selection. Forest Distribution randomly selects using the editor's approximation for a forest." },
                 { "Options.TOOLTIPYYTC[WholeMapApply]", "Right Click to Apply." },
+                { "Options.TOOLTIPYYTC[RectangleApply]", "Click and drag to select a rectangle. Release to apply." },
+                { "Options.TOOLTIPYYTC[LassoApply]", "Click to add points. Click the first point to close and apply. Right click removes the last point." },
+                { "Options.TOOLTIPYYTC[DistrictApply]", "Click a district to apply." },
+                { "Options.TOOLTIPYYTC[Eyedropper]", "Click a tree to pick its type and age." },
+                { "Options.TOOLTIPYYTC[EyedropperAddToSelection]", "{0} adds it to the selection." },
+                { "Options.TOOLTIPYYTC[EyedropperFreeStanding]", "Free-standing" },
+                { "Options.TOOLTIPYYTC[EyedropperBuilding]", "Part of a building" },
+                { "Options.TOOLTIPYYTC[EyedropperNetwork]", "Part of a network" },
                 { "YY_TREE_CONTROLLER[Selection]", "Selection" },
                 { "YY_TREE_CONTROLLER[Age]", "Age" },
                 { "YY_TREE_CONTROLLER[Radius]", "Radius" },
                 { "YY_TREE_CONTROLLER[Sets]", "Sets" },
                 { "YY_TREE_CONTROLLER[Rotation]", "Rotation" },
                 { "YY_TREE_CONTROLLER[building-or-net]", "Whole Building or Network" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[building-or-net]", "Selects every tree in a whole building or network. You cannot change type of trees in networks." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[building-or-net]", "Selects every tree in a whole building or network. Trees in networks are only changed if allowed in the Filter section." },
                 { "YY_TREE_CONTROLLER[single-tree]", "Single Tree" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[single-tree]", "Selects a single tree in a building, network, or on the map. You cannot change type of trees in networks." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[single-tree]", "Selects a single tree in a building, network, or on the map. Trees in networks are only changed if allowed in the Filter section." },
                 { "YY_TREE_CONTROLLER[radius]", "Radius" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[radius]", "Selects every tree in a radius including those in buildings, networks, or on the map. You should avoid changing type of trees in networks." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[radius]", "Selects every tree in a radius including those in buildings, networks, or on the map. Trees in networks are only changed if allowed in the Filter section." },
                 { "YY_TREE_CONTROLLER[whole-map]", "Whole Map" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[whole-map]", "Selects all trees in every building, network, or on the map. Be careful how you use this. Right click to apply. You should avoid changing type of trees in networks." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[whole-map]", "Selects all trees in every building, network, or on the map. Be careful how you use this. Right click to apply. Trees in networks are only changed if allowed in the Filter section." },
+                { "YY_TREE_CONTROLLER[rectangle]", "Rectangle" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[rectangle]", "Click and drag between two corners to select every tree in a rectangle including those in buildings, networks, or on the map. Release to apply. Trees in networks are only changed if allowed in the Filter section." },
+                { "YY_TREE_CONTROLLER[lasso]", "Lasso" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[lasso]", "Click to place the points of a polygon and click the first point again to close it and apply. Right click removes the last point. Trees in networks are only changed if allowed in the Filter section." },
+                { "YY_TREE_CONTROLLER[district]", "District" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[district]", "Selects every tree within an existing district. Click a district to apply. Trees in networks are only changed if allowed in the Filter section." },
                 { "YY_TREE_CONTROLLER[child]", "Child" },
                 { "YY_TREE_CONTROLLER_DESCRIPTION[child]", "Essentially a Sapling. First stage of tree growth." },
                 { "YY_TREE_CONTROLLER[teen]", "Teen" },
@@ -75,6 +188,18 @@ namespace Tree_Controller.Settings
                 { "YY_TREE_CONTROLLER_DESCRIPTION[elderly]", "The oldest and largest sized trees. Fourth stage of tree growth." },
                 { "YY_TREE_CONTROLLER[dead]", "Dead" },
                 { "YY_TREE_CONTROLLER_DESCRIPTION[dead]", "A bare, leafless tree. Final stage of tree growth. Will eventually cycle back into a child (sapling) tree." },
+                { "YY_TREE_CONTROLLER[AgeDistribution]", "Age Distribution" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[age-weight]", "Drag to change how often this age is chosen when several ages are selected. The percentage is relative to the other selected ages." },
+                { "YY_TREE_CONTROLLER[age-preset-equal]", "Equal" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[age-preset-equal]", "Every age is equally likely." },
+                { "YY_TREE_CONTROLLER[age-preset-forest]", "Forest" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[age-preset-forest]", "The same age distribution that the game uses for forests." },
+                { "YY_TREE_CONTROLLER[age-preset-young-plantation]", "Young Plantation" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[age-preset-young-plantation]", "Mostly child and teen trees with some adults." },
+                { "YY_TREE_CONTROLLER[age-preset-old-growth-forest]", "Old-growth Forest" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[age-preset-old-growth-forest]", "Mostly adult and elderly trees with a few young and dead trees." },
+                { "YY_TREE_CONTROLLER[age-preset-dying-grove]", "Dying Grove" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[age-preset-dying-grove]", "Mostly elderly and dead trees." },
                 { "YY_TREE_CONTROLLER[clear-ages]", "Toggle all Ages on/off" },
                 { "YY_TREE_CONTROLLER_DESCRIPTION[clear-ages]", "Either selects all or none of the ages depending on your current selection. Having none selected will always default to adult." },
                 { "YY_TREE_CONTROLLER_DESCRIPTION[radius-up-arrow]", "Increases the selection radius." },
@@ -89,30 +214,126 @@ namespace Tree_Controller.Settings
                 { "YY_TREE_CONTROLLER_DESCRIPTION[evergreen-trees]", "Pine and spruce trees." },
                 { "YY_TREE_CONTROLLER[wild-bushes]", "Wild Bushes" },
                 { "YY_TREE_CONTROLLER_DESCRIPTION[wild-bushes]", "Green and flowering wild bushes." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[custom-set]", "Click to select this custom set. Open the set manager to rename, reorder, or save the currently selected trees to it." },
+                { "YY_TREE_CONTROLLER[set-manager]", "Custom Sets" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[set-manager]", "Opens a panel to create, rename, duplicate, reorder, and delete custom sets." },
+                { "YY_TREE_CONTROLLER[new-set]", "New Set" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[new-set]", "Creates a new custom set from the trees currently selected in the toolbar menu. Hold Ctrl to select or unselect multiple types of trees." },
+                { "YY_TREE_CONTROLLER[save-set]", "Save Selection" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[save-set]", "Replaces the trees in this set with the trees currently selected in the toolbar menu." },
+                { "YY_TREE_CONTROLLER[set-icon]", "Icon" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[set-icon]", "Click to cycle through icons for this set. Without an icon the set's number is shown." },
+                { "YY_TREE_CONTROLLER[duplicate-set]", "Duplicate" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[duplicate-set]", "Creates a copy of this set directly after it." },
+                { "YY_TREE_CONTROLLER[move-set-up]", "Move Up" },
+                { "YY_TREE_CONTROLLER[move-set-down]", "Move Down" },
+                { "YY_TREE_CONTROLLER[delete-set]", "Delete" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[delete-set]", "Permanently removes this set." },
+                { "YY_TREE_CONTROLLER[no-custom-sets]", "There are no custom sets. Select trees in the toolbar menu and click New Set." },
+                { "YY_TREE_CONTROLLER[export-set]", "Export Set" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[export-set]", "Copies the selected set, or the currently selected trees if no set is selected, to the clipboard as text that can be shared and imported." },
+                { "YY_TREE_CONTROLLER[exported-set]", "Exported Set" },
+                { "YY_TREE_CONTROLLER[import-set]", "Import Set" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[import-set]", "Paste the text of an exported set into the field and click Import Set to create a new custom set from it." },
+                { "YY_TREE_CONTROLLER[import-succeeded]", "The set was imported." },
+                { "YY_TREE_CONTROLLER[import-missing-prefabs]", "The set was imported, but these prefabs are not loaded and will be skipped until they are:" },
+                { "YY_TREE_CONTROLLER[import-invalid]", "The text could not be read as an exported set." },
+                { "YY_TREE_CONTROLLER[Composition]", "Composition" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[prefab-weight]", "Drag to change how often this type is chosen when brushing, drawing lines, or changing types. The percentage is relative to the other selected types. Weights are saved with the selected custom set." },
+                { "YY_TREE_CONTROLLER[History]", "History" },
+                { "YY_TREE_CONTROLLER[undo]", "Undo" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[undo]", "Reverts the most recent change of age or type." },
+                { "YY_TREE_CONTROLLER[redo]", "Redo" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[redo]", "Reapplies the most recently undone change of age or type." },
+                { "YY_TREE_CONTROLLER[history-trees]", "trees" },
+                { "YY_TREE_CONTROLLER[no-history]", "No changes to undo." },
+                { "YY_TREE_CONTROLLER[AffectedTrees]", "Affected Trees" },
+                { "YY_TREE_CONTROLLER[affected-total]", "Total" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[affected-total]", "The number of trees and plants the current selection, ages and types would change." },
+                { "YY_TREE_CONTROLLER[affected-more-types]", "more types" },
+                { "YY_TREE_CONTROLLER[whole-map-confirmation]", "Change Whole Map" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[whole-map-confirmation]", "This will change up to {0} trees and plants across the whole map. Continue?" },
+                { "YY_TREE_CONTROLLER[whole-map-confirm]", "Change" },
+                { "YY_TREE_CONTROLLER[whole-map-cancel]", "Cancel" },
+                { "YY_TREE_CONTROLLER[tree-census]", "Tree Census" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[tree-census]", "Opens a list of every tree and plant type on the map with counts by age and by whether they are free-standing or owned by a building or network. Click a row to only change trees of that type." },
+                { "YY_TREE_CONTROLLER[census-name]", "Name" },
+                { "YY_TREE_CONTROLLER[census-total]", "Total" },
+                { "YY_TREE_CONTROLLER[census-free-standing]", "Free-standing" },
+                { "YY_TREE_CONTROLLER[census-owned]", "Owned by a building or network" },
+                { "YY_TREE_CONTROLLER[census-filter]", "Filter by name" },
+                { "YY_TREE_CONTROLLER[census-empty]", "No trees or plants found." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[census-select]", "Click to only change trees of this type. Hold Ctrl or Shift to add it to or remove it from the types being changed." },
+                { "YY_TREE_CONTROLLER[Filter]", "Filter" },
+                { "YY_TREE_CONTROLLER[filter-free-standing]", "Free-standing Trees" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[filter-free-standing]", "Changes trees that are not part of a building or network. Change Age and Change Type each remember their own filter." },
+                { "YY_TREE_CONTROLLER[filter-building-owned]", "Trees in Buildings" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[filter-building-owned]", "Changes trees that are part of a building. Change Age and Change Type each remember their own filter." },
+                { "YY_TREE_CONTROLLER[filter-network-owned]", "Trees in Networks" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[filter-network-owned]", "Changes trees that are part of a road or other network. This is off for Change Type by default because changing the type of trees in networks should be avoided." },
+                { "YY_TREE_CONTROLLER[all-source-prefabs]", "Trees of every type are changed." },
+                { "YY_TREE_CONTROLLER[use-selection-as-source]", "Only These Types" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[use-selection-as-source]", "Only changes trees of the currently selected types. For example, select oaks, click this, then select birches to replace only the oaks with birches." },
+                { "YY_TREE_CONTROLLER[clear-source-prefabs]", "Every Type" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[clear-source-prefabs]", "Changes trees of every type again." },
+                { "YY_TREE_CONTROLLER[shortcut]", "Shortcut: {0}" },
+                { "YY_TREE_CONTROLLER[save-shortcut]", "Save: {0}" },
+                { "YY_TREE_CONTROLLER[add-picked-tree-shortcut]", "{0} adds the tree's type and age to the current selection." },
+                { "YY_TREE_CONTROLLER[rotation-angle]", "Angle" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[rotation-angle]", "Trees and plants are placed facing this angle in degrees. Type an angle or use the arrows to change it in steps of 15 degrees." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[rotation-angle-up-arrow]", "Increases the angle by 15 degrees." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[rotation-angle-down-arrow]", "Decreases the angle by 15 degrees." },
+                { "YY_TREE_CONTROLLER[rotation-jitter]", "Jitter" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[rotation-jitter]", "Randomly varies the angle of each tree or plant by up to this many degrees in either direction." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[rotation-jitter-up-arrow]", "Increases the jitter by 5 degrees." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[rotation-jitter-down-arrow]", "Decreases the jitter by 5 degrees." },
+                { "YY_TREE_CONTROLLER[BrushDensity]", "Density" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[brush-density]", "Brushing stops placing trees and plants once the area reaches this many per hectare, so repeated strokes do not stack. Erasing thins an area down to it. Off uses the vanilla brush." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[brush-density-up-arrow]", "Increases the density by 25 trees per hectare." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[brush-density-down-arrow]", "Decreases the density by 25 trees per hectare." },
+                { "YY_TREE_CONTROLLER[BrushSpacing]", "Spacing" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[brush-spacing]", "Brushing only places trees and plants at least this far from other trees and plants for an even planting. Erasing removes ones that are closer than this. Off uses the vanilla brush." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[brush-spacing-up-arrow]", "Increases the spacing by 1 meter." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[brush-spacing-down-arrow]", "Decreases the spacing by 1 meter." },
+                { "YY_TREE_CONTROLLER[brush-off]", "Off" },
+                { "YY_TREE_CONTROLLER[per-hectare]", "{0} / ha" },
+                { "YY_TREE_CONTROLLER[freeze-growth]", "Freeze Growth" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[freeze-growth]", "Paint over trees to stop them from growing. Frozen trees keep their current age even when tree growth is enabled in the mod settings. Ages and prefabs are not changed." },
+                { "YY_TREE_CONTROLLER[resume-growth]", "Resume Growth" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[resume-growth]", "Paint over trees to let them grow again. Resumed trees keep growing while tree growth is disabled in the mod settings or during winter, and follow the mod settings again once trees are allowed to grow." },
+                { "YY_TREE_CONTROLLER[overlay]", "Overlay" },
+                { "YY_TREE_CONTROLLER[age-overlay]", "Age Overlay" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[age-overlay]", "Colors every tree on the map by age. Click again to turn the overlay off." },
+                { "YY_TREE_CONTROLLER[prefab-set-overlay]", "Prefab Set Overlay" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[prefab-set-overlay]", "Colors every tree and plant on the map by whether it is one of the selected prefabs, in one of the built-in sets, or in a custom or registered set. Click again to turn the overlay off." },
+                { "YY_TREE_CONTROLLER[growth-overlay]", "Growth Overlay" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[growth-overlay]", "Colors every tree on the map by whether it is frozen, owned by a lumber industry, not growing, or growing. Click again to turn the overlay off." },
+                { "YY_TREE_CONTROLLER[legend]", "Legend" },
+                { "YY_TREE_CONTROLLER[overlay-selected]", "Selected" },
+                { "YY_TREE_CONTROLLER[overlay-custom-set]", "Custom or Registered Set" },
+                { "YY_TREE_CONTROLLER[overlay-other]", "Other" },
+                { "YY_TREE_CONTROLLER[growth-frozen]", "Frozen" },
+                { "YY_TREE_CONTROLLER[growth-lumber]", "Lumber" },
+                { "YY_TREE_CONTROLLER[growth-stopped]", "Not Growing" },
+                { "YY_TREE_CONTROLLER[growth-growing]", "Growing" },
+                { "YY_TREE_CONTROLLER[eyedropper]", "Eyedropper" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[eyedropper]", "Click a tree on the map to load its age into the Age section. In Change Type mode its type is also loaded into the selection. The tool stays in its current mode." },
                 { "YY_TREE_CONTROLLER[random-rotation]", "Random Rotation" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[random-rotation]", "Will randomly rotate the tree or bush as the tree or bush is moved to different positions on the map." },
-                { "YY_TREE_CONTROLLER[custom-set-1]", "Custom Set 1" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[custom-set-1]", "Hold Ctrl to select or unselect multiple types of trees using the toolbar menu. Then hold Ctrl and click this button to save a custom set. Once a set has been saved, click this button to select that set. Hold Ctrl while switching themes to maintain the custom set." },
-                { "YY_TREE_CONTROLLER[custom-set-2]", "Custom Set 2" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[custom-set-2]", "Hold Ctrl to select or unselect multiple types of trees using the toolbar menu. Then hold Ctrl and click this button to save a custom set. Once a set has been saved, click this button to select that set. Hold Ctrl while switching themes to maintain the custom set." },
-                { "YY_TREE_CONTROLLER[custom-set-3]", "Custom Set 3" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[custom-set-3]", "Hold Ctrl to select or unselect multiple types of trees using the toolbar menu. Then hold Ctrl and click this button to save a custom set. Once a set has been saved, click this button to select that set. Hold Ctrl while switching themes to maintain the custom set." },
-                { "YY_TREE_CONTROLLER[custom-set-4]", "Custom Set 4" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[custom-set-4]", "Hold Ctrl to select or unselect multiple types of trees using the toolbar menu. Then hold Ctrl and click this button to save a custom set. Once a set has been saved, click this button to select that set. Hold Ctrl while switching themes to maintain the custom set." },
-                { "YY_TREE_CONTROLLER[custom-set-5]", "Custom Set 5" },
-                { "YY_TREE_CONTROLLER_DESCRIPTION[custom-set-5]", "Hold Ctrl to select or unselect multiple types of trees using the toolbar menu. Then hold Ctrl and click this button to save a custom set. Once a set has been saved, click this button to select that set. Hold Ctrl while switching themes to maintain the custom set." },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[random-rotation]", "Will randomly rotate new trees and bushes as they are moved to different positions on the map. Click again to keep the vanilla rotation." },
+                { "YY_TREE_CONTROLLER[fixed-rotation]", "Fixed Rotation" },
+                { "YY_TREE_CONTROLLER_DESCRIPTION[fixed-rotation]", "Places new trees and plants facing a fixed angle with optional jitter. Click again to keep the vanilla rotation." },
                 { "YY_TREE_CONTROLLER[change]", "Change" },
                 { SectionLabel("InfoRowTitle"), "Tree Controller" },
                 { SectionLabel("InfoRowSubTitle"), "Custom Color Variations" },
-                { TooltipDescriptionKey("InfoRowTooltip"), "For choosing custom seasonal foliage colors." },
+                { TooltipDescriptionKey("InfoRowTooltip"), "Edit the seasonal foliage colors of this tree or plant type. Changes are shown on every tree or plant of this type right away and are discarded unless saved." },
                 { SectionLabel("Channel0"), "Channel0" },
                 { SectionLabel("Channel1"), "Channel1" },
                 { SectionLabel("Channel2"), "Channel2" },
                 { SectionLabel("ResetAndSave"), "Reset / Save" },
                 { TooltipTitleKey("Reset"), "Reset Seasonal Colors" },
-                { TooltipDescriptionKey("Reset"), "Resets and saves the colors back to the original colors for this season and vegetation asset." },
+                { TooltipDescriptionKey("Reset"), "Removes the saved colors of this vegetation asset for every season so that the Color Variation Set from the mod settings applies again." },
                 { TooltipTitleKey("Save"), "Save Seasonal Colors" },
-                { TooltipDescriptionKey("Save"), "Saves the colors for this season and vegetation asset to an XML file located in a folder at %AppData%\\LocalLow\\Colossal Order\\Cities Skylines II \\ModsData\\Mods_Yenyang_Tree_Controller \\FoliageColorData\\Custom. Triggers a color refresh on all vegetation of the same type." },
+                { TooltipDescriptionKey("Save"), "Saves the colors of this vegetation asset for every season to an XML file located in a folder at %AppData%\\LocalLow\\Colossal Order\\Cities Skylines II \\ModsData\\Mods_Yenyang_Tree_Controller \\FoliageColorData\\Custom. Saved colors take priority over the Color Variation Set from the mod settings." },
             };
         }
 
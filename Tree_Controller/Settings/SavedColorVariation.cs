@@ -0,0 +1,102 @@
+﻿// <copyright file="SavedColorVariation.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Settings
+{
+    using Tree_Controller.Utils;
+    using UnityEngine;
+
+    /// <summary>
+    /// A class to use for XML serialization and deserialization for storing one color variation of a prefab.
+    /// </summary>
+    public class SavedColorVariation
+    {
+        private int m_Index;
+        private FoliageUtils.Season m_Season;
+        private Color m_Channel0;
+        private Color m_Channel1;
+        private Color m_Channel2;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="SavedColorVariation"/> class.
+        /// </summary>
+        public SavedColorVariation()
+        {
+        }
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="SavedColorVariation"/> class.
+        /// </summary>
+        /// <param name="index">the index of the color variation in the prefab's color variation buffer.</param>
+        /// <param name="season">the season of the color variation.</param>
+        /// <param name="colorSet">the colors of the color variation.</param>
+        public SavedColorVariation(int index, FoliageUtils.Season season, Game.Rendering.ColorSet colorSet)
+        {
+            m_Index = index;
+            m_Season = season;
+            m_Channel0 = colorSet.m_Channel0;
+            m_Channel1 = colorSet.m_Channel1;
+            m_Channel2 = colorSet.m_Channel2;
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the index of the color variation in the prefab's color variation buffer.
+        /// </summary>
+        public int Index
+        {
+            get { return m_Index; }
+            set { m_Index = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the season of the color variation.
+        /// </summary>
+        public FoliageUtils.Season Season
+        {
+            get { return m_Season; }
+            set { m_Season = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the color of the first channel.
+        /// </summary>
+        public Color Channel0
+        {
+            get { return m_Channel0; }
+            set { m_Channel0 = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the color of the second channel.
+        /// </summary>
+        public Color Channel1
+        {
+            get { return m_Channel1; }
+            set { m_Channel1 = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating the color of the third channel.
+        /// </summary>
+        public Color Channel2
+        {
+            get { return m_Channel2; }
+            set { m_Channel2 = value; }
+        }
+
+        /// <summary>
+        /// Gets the colors as a color set.
+        /// </summary>
+        /// <returns>Color set.</returns>
+        public Game.Rendering.ColorSet GetColorSet()
+        {
+            return new Game.Rendering.ColorSet()
+            {
+                m_Channel0 = m_Channel0,
+                m_Channel1 = m_Channel1,
+                m_Channel2 = m_Channel2,
+            };
+        }
+    }
+}
@@ -4,9 +4,13 @@
 
 namespace Tree_Controller.Settings
 {
+    using System;
     using Colossal.IO.AssetDatabase;
+    using Game.Input;
     using Game.Modding;
+    using Game.Objects;
     using Game.Settings;
+    using Game.UI;
     using Tree_Controller.Systems;
     using Unity.Entities;
 
@@ -14,10 +18,42 @@ namespace Tree_Controller.Settings
     /// The mod settings for the Anarchy Mod.
     /// </summary>
     [FileLocation("Mods_Yenyang_Tree_Controller")]
+    [SettingsUIKeyboardAction(TreeControllerMod.CycleToolModeActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.CycleSelectionModeActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.ToggleChildAgeActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.ToggleTeenAgeActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.ToggleAdultAgeActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.ToggleElderlyAgeActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.ToggleDeadAgeActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.IncreaseRadiusActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.DecreaseRadiusActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RecallSet1ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RecallSet2ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RecallSet3ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RecallSet4ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RecallSet5ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RecallSet6ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RecallSet7ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RecallSet8ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RecallSet9ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.SaveSet1ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.SaveSet2ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.SaveSet3ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.SaveSet4ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.SaveSet5ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.SaveSet6ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.SaveSet7ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.SaveSet8ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.SaveSet9ActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIMouseAction(TreeControllerMod.AddPickedTreeActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIMouseAction(TreeControllerMod.ScrollRadiusActionName, ActionType.Axis, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.UndoActionName, ActionType.Button, usages: new string[] { "TreeController" })]
+    [SettingsUIKeyboardAction(TreeControllerMod.RedoActionName, ActionType.Button, usages: new string[] { "TreeController" })]
     public class TreeControllerSettings : ModSetting
     {
         private ReloadFoliageColorDataSystem m_ReloadFoliageColorDataSystem;
         private DestroyFoliageSystem m_DestroyFoliageSystem;
+        private SafelyRemoveSystem m_SafelyRemoveSystem;
 
         /// <summary>
         /// Initializes a new instance of the <see cref="TreeControllerSettings"/> class.
@@ -56,22 +92,6 @@ namespace Tree_Controller.Settings
             Autumn,
         }
 
-        /// <summary>
-        /// An enum for choosing the age selection
-        /// </summary>
-        public enum AgeSelectionOptions
-        {
-            /// <summary>
-            /// random selection with equal weight.
-            /// </summary>
-            RandomEqualWeight,
-
-            /// <summary>
-            /// Uses vanilla weight for randomly selecting trees.
-            /// </summary>
-            RandomWeighted,
-        }
-
         /// <summary>
         /// Gets or sets a value indicating whether Deciduous trees use Dead model during winter.
         /// </summary>
@@ -83,14 +103,220 @@ namespace Tree_Controller.Settings
         public bool DisableTreeGrowth { get; set; }
 
         /// <summary>
-        /// Gets or sets a enum that defines the selection for Age Selection.
+        /// Gets or sets a enum that defines the type of Seasonal foliage color set preference.
         /// </summary>
-        public AgeSelectionOptions AgeSelectionTechnique { get; set; }
+        public ColorVariationSetYYTC ColorVariationSet { get; set; }
 
         /// <summary>
-        /// Gets or sets a enum that defines the type of Seasonal foliage color set preference.
+        /// Gets or sets a value indicating the number of trees above which a whole map change asks for confirmation.
         /// </summary>
-        public ColorVariationSetYYTC ColorVariationSet { get; set; }
+        [SettingsUISlider(min = 0, max = 100000, step = 1000, scalarMultiplier = 1, unit = Unit.kInteger)]
+        public int WholeMapConfirmationThreshold { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for cycling through the tool modes.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.T, TreeControllerMod.CycleToolModeActionName, ctrl: true)]
+        public ProxyBinding CycleToolModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for cycling through the selection modes.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.G, TreeControllerMod.CycleSelectionModeActionName, ctrl: true)]
+        public ProxyBinding CycleSelectionModeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for toggling child trees.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit1, TreeControllerMod.ToggleChildAgeActionName, alt: true)]
+        public ProxyBinding ToggleChildAgeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for toggling teen trees.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit2, TreeControllerMod.ToggleTeenAgeActionName, alt: true)]
+        public ProxyBinding ToggleTeenAgeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for toggling adult trees.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit3, TreeControllerMod.ToggleAdultAgeActionName, alt: true)]
+        public ProxyBinding ToggleAdultAgeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for toggling elderly trees.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit4, TreeControllerMod.ToggleElderlyAgeActionName, alt: true)]
+        public ProxyBinding ToggleElderlyAgeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for toggling dead trees.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit5, TreeControllerMod.ToggleDeadAgeActionName, alt: true)]
+        public ProxyBinding ToggleDeadAgeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for increasing the radius.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Equals, TreeControllerMod.IncreaseRadiusActionName, ctrl: true)]
+        public ProxyBinding IncreaseRadiusBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for decreasing the radius.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Minus, TreeControllerMod.DecreaseRadiusActionName, ctrl: true)]
+        public ProxyBinding DecreaseRadiusBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for recalling custom set 1.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit1, TreeControllerMod.RecallSet1ActionName, ctrl: true)]
+        public ProxyBinding RecallSet1Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for recalling custom set 2.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit2, TreeControllerMod.RecallSet2ActionName, ctrl: true)]
+        public ProxyBinding RecallSet2Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for recalling custom set 3.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit3, TreeControllerMod.RecallSet3ActionName, ctrl: true)]
+        public ProxyBinding RecallSet3Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for recalling custom set 4.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit4, TreeControllerMod.RecallSet4ActionName, ctrl: true)]
+        public ProxyBinding RecallSet4Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for recalling custom set 5.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit5, TreeControllerMod.RecallSet5ActionName, ctrl: true)]
+        public ProxyBinding RecallSet5Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for recalling custom set 6.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit6, TreeControllerMod.RecallSet6ActionName, ctrl: true)]
+        public ProxyBinding RecallSet6Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for recalling custom set 7.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit7, TreeControllerMod.RecallSet7ActionName, ctrl: true)]
+        public ProxyBinding RecallSet7Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for recalling custom set 8.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit8, TreeControllerMod.RecallSet8ActionName, ctrl: true)]
+        public ProxyBinding RecallSet8Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for recalling custom set 9.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit9, TreeControllerMod.RecallSet9ActionName, ctrl: true)]
+        public ProxyBinding RecallSet9Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for saving custom set 1.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit1, TreeControllerMod.SaveSet1ActionName, shift: true, ctrl: true)]
+        public ProxyBinding SaveSet1Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for saving custom set 2.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit2, TreeControllerMod.SaveSet2ActionName, shift: true, ctrl: true)]
+        public ProxyBinding SaveSet2Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for saving custom set 3.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit3, TreeControllerMod.SaveSet3ActionName, shift: true, ctrl: true)]
+        public ProxyBinding SaveSet3Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for saving custom set 4.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit4, TreeControllerMod.SaveSet4ActionName, shift: true, ctrl: true)]
+        public ProxyBinding SaveSet4Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for saving custom set 5.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit5, TreeControllerMod.SaveSet5ActionName, shift: true, ctrl: true)]
+        public ProxyBinding SaveSet5Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for saving custom set 6.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit6, TreeControllerMod.SaveSet6ActionName, shift: true, ctrl: true)]
+        public ProxyBinding SaveSet6Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for saving custom set 7.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit7, TreeControllerMod.SaveSet7ActionName, shift: true, ctrl: true)]
+        public ProxyBinding SaveSet7Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for saving custom set 8.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit8, TreeControllerMod.SaveSet8ActionName, shift: true, ctrl: true)]
+        public ProxyBinding SaveSet8Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for saving custom set 9.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Digit9, TreeControllerMod.SaveSet9ActionName, shift: true, ctrl: true)]
+        public ProxyBinding SaveSet9Binding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the mouse binding for adding a tree picked with the eyedropper to the selection.
+        /// </summary>
+        [SettingsUIMouseBinding(BindingMouse.Left, TreeControllerMod.AddPickedTreeActionName, ctrl: true)]
+        public ProxyBinding AddPickedTreeBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the mouse binding for increasing the radius with the mouse wheel.
+        /// </summary>
+        [SettingsUIMouseBinding(BindingMouse.ScrollUp, AxisComponent.Positive, TreeControllerMod.ScrollRadiusActionName, ctrl: true)]
+        public ProxyBinding ScrollRadiusUpBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the mouse binding for decreasing the radius with the mouse wheel.
+        /// </summary>
+        [SettingsUIMouseBinding(BindingMouse.ScrollDown, AxisComponent.Negative, TreeControllerMod.ScrollRadiusActionName, ctrl: true)]
+        public ProxyBinding ScrollRadiusDownBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for undoing the most recent tree change.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Z, TreeControllerMod.UndoActionName, ctrl: true)]
+        public ProxyBinding UndoBinding { get; set; }
+
+        /// <summary>
+        /// Gets or sets the key binding for redoing the most recently undone tree change.
+        /// </summary>
+        [SettingsUIKeyboardBinding(BindingKeyboard.Z, TreeControllerMod.RedoActionName, shift: true, ctrl: true)]
+        public ProxyBinding RedoBinding { get; set; }
+
+        /// <summary>
+        /// Sets a value indicating whether: a button for resetting the key bindings for the Mod.
+        /// </summary>
+        [SettingsUIButton]
+        [SettingsUIConfirmation]
+        public bool ResetKeyBindingsButton
+        {
+            set
+            {
+                ResetKeyBindings();
+            }
+        }
 
         /// <summary>
         /// Gets or sets a value indicating whether to use random rotation while plopping trees.
@@ -98,6 +324,66 @@ namespace Tree_Controller.Settings
         [SettingsUIHidden]
         public bool RandomRotation { get; set; }
 
+        /// <summary>
+        /// Gets or sets a value indicating whether to place trees at a fixed angle with optional jitter. When neither this nor random rotation is on the vanilla rotation is kept.
+        /// </summary>
+        [SettingsUIHidden]
+        public bool FixedRotation { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the angle in degrees for placing trees with fixed rotation.
+        /// </summary>
+        [SettingsUIHidden]
+        public int RotationAngle { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating how many degrees the angle may randomly vary by in either direction with fixed rotation.
+        /// </summary>
+        [SettingsUIHidden]
+        public int RotationJitter { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the target number of trees and plants per hectare for brushing and thinning. 0 leaves the vanilla brush behavior.
+        /// </summary>
+        [SettingsUIHidden]
+        public int BrushDensity { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the minimum distance in meters between trees and plants for brushing and thinning. 0 leaves the vanilla brush behavior.
+        /// </summary>
+        [SettingsUIHidden]
+        public int BrushSpacing { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the weight for randomly selecting child trees.
+        /// </summary>
+        [SettingsUIHidden]
+        public int ChildWeight { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the weight for randomly selecting teen trees.
+        /// </summary>
+        [SettingsUIHidden]
+        public int TeenWeight { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the weight for randomly selecting adult trees.
+        /// </summary>
+        [SettingsUIHidden]
+        public int AdultWeight { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the weight for randomly selecting elderly trees.
+        /// </summary>
+        [SettingsUIHidden]
+        public int ElderlyWeight { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating the weight for randomly selecting dead trees.
+        /// </summary>
+        [SettingsUIHidden]
+        public int DeadWeight { get; set; }
+
         /// <summary>
         /// Sets a value indicating whether the mod needs to safely remove components and reset models.
         /// </summary>
@@ -108,6 +394,9 @@ namespace Tree_Controller.Settings
             set
             {
                 UseDeadModelDuringWinter = false;
+                DisableTreeGrowth = false;
+                m_SafelyRemoveSystem = World.DefaultGameObjectInjectionWorld?.GetOrCreateSystemManaged<SafelyRemoveSystem>();
+                m_SafelyRemoveSystem?.RemoveTreeGrowthComponents();
             }
         }
 
@@ -121,8 +410,24 @@ namespace Tree_Controller.Settings
             set
             {
                 bool rotation = RandomRotation;
+                bool fixedRotation = FixedRotation;
+                int rotationAngle = RotationAngle;
+                int rotationJitter = RotationJitter;
+                int brushDensity = BrushDensity;
+                int brushSpacing = BrushSpacing;
+                int[] ageWeights = new int[] { ChildWeight, TeenWeight, AdultWeight, ElderlyWeight, DeadWeight };
                 SetDefaults();
                 RandomRotation = rotation;
+                FixedRotation = fixedRotation;
+                RotationAngle = rotationAngle;
+                RotationJitter = rotationJitter;
+                BrushDensity = brushDensity;
+                BrushSpacing = brushSpacing;
+                ChildWeight = ageWeights[0];
+                TeenWeight = ageWeights[1];
+                AdultWeight = ageWeights[2];
+                ElderlyWeight = ageWeights[3];
+                DeadWeight = ageWeights[4];
                 ApplyAndSave();
             }
         }
@@ -144,11 +449,21 @@ namespace Tree_Controller.Settings
         /// <inheritdoc/>
         public override void SetDefaults()
         {
-            RandomRotation = true;
+            RandomRotation = false;
+            FixedRotation = false;
+            RotationAngle = 0;
+            RotationJitter = 0;
+            BrushDensity = 0;
+            BrushSpacing = 0;
             DisableTreeGrowth = false;
             ColorVariationSet = ColorVariationSetYYTC.Vanilla;
             UseDeadModelDuringWinter = false;
-            AgeSelectionTechnique = AgeSelectionOptions.RandomWeighted;
+            WholeMapConfirmationThreshold = 10000;
+            ChildWeight = (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_CHILD * 100f);
+            TeenWeight = (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_TEEN * 100f);
+            AdultWeight = (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_ADULT * 100f);
+            ElderlyWeight = (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_ELDERLY * 100f);
+            DeadWeight = (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_DEAD * 100f);
         }
 
         /// <summary>
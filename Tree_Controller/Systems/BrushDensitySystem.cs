@@ -0,0 +1,223 @@
+﻿// <copyright file="BrushDensitySystem.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Systems
+{
+    using Colossal.Collections;
+    using Colossal.Entities;
+    using Colossal.Logging;
+    using Colossal.Mathematics;
+    using Game;
+    using Game.Common;
+    using Game.Objects;
+    using Game.Prefabs;
+    using Game.Tools;
+    using Tree_Controller.Settings;
+    using Unity.Collections;
+    using Unity.Entities;
+    using Unity.Jobs;
+    using Unity.Mathematics;
+
+    /// <summary>
+    /// Removes object definitions from the vanilla brush so brushing plants trees at a target density and minimum spacing, and erasing thins trees down to them.
+    /// </summary>
+    public partial class BrushDensitySystem : GameSystemBase
+    {
+        private const float SquareMetersPerHectare = 10000f;
+
+        // The number of trees expected within the area that density is measured over when at the target density.
+        private const float SampleTrees = 8f;
+
+        private ToolSystem m_ToolSystem;
+        private ObjectToolSystem m_ObjectToolSystem;
+        private Game.Objects.SearchSystem m_ObjectSearchSystem;
+        private EntityQuery m_CreationDefinitionQuery;
+        private ILog m_Log;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="BrushDensitySystem"/> class.
+        /// </summary>
+        public BrushDensitySystem()
+        {
+        }
+
+        /// <inheritdoc/>
+        protected override void OnCreate()
+        {
+            base.OnCreate();
+            m_Log = TreeControllerMod.Instance.Logger;
+            m_ToolSystem = World.GetOrCreateSystemManaged<ToolSystem>();
+            m_ObjectToolSystem = World.GetOrCreateSystemManaged<ObjectToolSystem>();
+            m_ObjectSearchSystem = World.GetOrCreateSystemManaged<Game.Objects.SearchSystem>();
+            m_CreationDefinitionQuery = SystemAPI.QueryBuilder()
+                .WithAll<CreationDefinition, Updated>()
+                .WithNone<Deleted, Overridden>()
+                .Build();
+
+            RequireForUpdate(m_CreationDefinitionQuery);
+            m_Log.Info($"{nameof(BrushDensitySystem)}.{nameof(OnCreate)}");
+        }
+
+        /// <inheritdoc/>
+        protected override void OnUpdate()
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            if (m_ToolSystem.activeTool != m_ObjectToolSystem || m_ObjectToolSystem.actualMode != ObjectToolSystem.Mode.Brush || (settings.BrushDensity <= 0 && settings.BrushSpacing <= 0))
+            {
+                return;
+            }
+
+            // Density is measured over a circle that would hold a few trees at the target density so that it does not depend on where the brush is.
+            float sampleRadius = settings.BrushDensity > 0 ? math.sqrt(SampleTrees * SquareMetersPerHectare / (math.PI * settings.BrushDensity)) : 0f;
+            float radius = math.max(sampleRadius, settings.BrushSpacing);
+            float targetTrees = settings.BrushDensity > 0 ? settings.BrushDensity * math.PI * radius * radius / SquareMetersPerHectare : float.MaxValue;
+
+            NativeArray<Entity> entities = m_CreationDefinitionQuery.ToEntityArray(Allocator.Temp);
+            NativeList<float3> placedPositions = new (Allocator.Temp);
+            NativeHashSet<Entity> removedTrees = new (entities.Length, Allocator.Temp);
+            NativeQuadTree<Entity, QuadTreeBoundsXZ> searchTree = m_ObjectSearchSystem.GetStaticSearchTree(readOnly: true, out JobHandle dependencies);
+            dependencies.Complete();
+
+            TreeNeighborIterator iterator = new ()
+            {
+                m_Radius = radius,
+                m_Spacing = settings.BrushSpacing,
+                m_Ignore = removedTrees,
+                m_TransformLookup = SystemAPI.GetComponentLookup<Game.Objects.Transform>(isReadOnly: true),
+                m_TreeLookup = SystemAPI.GetComponentLookup<Tree>(isReadOnly: true),
+                m_PlantLookup = SystemAPI.GetComponentLookup<Plant>(isReadOnly: true),
+                m_TempLookup = SystemAPI.GetComponentLookup<Temp>(isReadOnly: true),
+            };
+
+            int rejected = 0;
+            foreach (Entity entity in entities)
+            {
+                CreationDefinition creationDefinition = EntityManager.GetComponentData<CreationDefinition>(entity);
+                if (creationDefinition.m_Original != Entity.Null)
+                {
+                    // Erasing with the brush only removes trees that are closer than the minimum spacing or that would leave the area at or above the target density.
+                    if ((creationDefinition.m_Flags & CreationFlags.Delete) == 0
+                        || (!EntityManager.HasComponent<Tree>(creationDefinition.m_Original) && !EntityManager.HasComponent<Plant>(creationDefinition.m_Original))
+                        || !EntityManager.TryGetComponent(creationDefinition.m_Original, out Game.Objects.Transform originalTransform))
+                    {
+                        continue;
+                    }
+
+                    removedTrees.Add(creationDefinition.m_Original);
+                    iterator.Reset(originalTransform.m_Position);
+                    searchTree.Iterate(ref iterator);
+                    if (iterator.m_TooClose || iterator.m_Count >= targetTrees)
+                    {
+                        continue;
+                    }
+
+                    removedTrees.Remove(creationDefinition.m_Original);
+                    EntityManager.DestroyEntity(entity);
+                    rejected++;
+                    continue;
+                }
+
+                if (!EntityManager.TryGetComponent(entity, out ObjectDefinition objectDefinition) || !EntityManager.HasComponent<Vegetation>(creationDefinition.m_Prefab))
+                {
+                    continue;
+                }
+
+                // Brushing only places trees that are at least the minimum spacing from existing trees and trees placed so far in this stroke, and below the target density.
+                iterator.Reset(objectDefinition.m_Position);
+                searchTree.Iterate(ref iterator);
+                for (int i = 0; i < placedPositions.Length; i++)
+                {
+                    iterator.Check(placedPositions[i]);
+                }
+
+                if (!iterator.m_TooClose && iterator.m_Count + 1 <= targetTrees)
+                {
+                    placedPositions.Add(objectDefinition.m_Position);
+                    continue;
+                }
+
+                EntityManager.DestroyEntity(entity);
+                rejected++;
+            }
+
+            if (rejected > 0)
+            {
+                m_Log.Debug($"{nameof(BrushDensitySystem)}.{nameof(OnUpdate)} removed {rejected} brush definitions for density {settings.BrushDensity} and spacing {settings.BrushSpacing}.");
+            }
+
+            entities.Dispose();
+            placedPositions.Dispose();
+            removedTrees.Dispose();
+        }
+
+        /// <summary>
+        /// Counts trees and plants around a position and checks whether any of them are closer than the minimum spacing.
+        /// </summary>
+        private struct TreeNeighborIterator : INativeQuadTreeIterator<Entity, QuadTreeBoundsXZ>, IUnsafeQuadTreeIterator<Entity, QuadTreeBoundsXZ>
+        {
+            public float m_Radius;
+            public float m_Spacing;
+            public NativeHashSet<Entity> m_Ignore;
+            public ComponentLookup<Game.Objects.Transform> m_TransformLookup;
+            public ComponentLookup<Tree> m_TreeLookup;
+            public ComponentLookup<Plant> m_PlantLookup;
+            public ComponentLookup<Temp> m_TempLookup;
+            public int m_Count;
+            public bool m_TooClose;
+            private float2 m_Position;
+
+            /// <summary>
+            /// Starts a new search around a position.
+            /// </summary>
+            /// <param name="position">Position of the tree being placed or removed.</param>
+            public void Reset(float3 position)
+            {
+                m_Position = position.xz;
+                m_Count = 0;
+                m_TooClose = false;
+            }
+
+            /// <summary>
+            /// Counts a tree at a position if it is within the radius.
+            /// </summary>
+            /// <param name="position">Position of the tree.</param>
+            public void Check(float3 position)
+            {
+                float distance = math.distance(position.xz, m_Position);
+                if (distance > m_Radius)
+                {
+                    return;
+                }
+
+                m_Count++;
+                if (distance < m_Spacing)
+                {
+                    m_TooClose = true;
+                }
+            }
+
+            /// <inheritdoc/>
+            public bool Intersect(QuadTreeBoundsXZ bounds)
+            {
+                return MathUtils.Intersect(bounds.m_Bounds.xz, new Bounds2(m_Position - m_Radius, m_Position + m_Radius));
+            }
+
+            /// <inheritdoc/>
+            public void Iterate(QuadTreeBoundsXZ bounds, Entity item)
+            {
+                // Temp objects are the brush's own preview and ignored trees are already being removed.
+                if (!Intersect(bounds)
+                    || m_Ignore.Contains(item)
+                    || m_TempLookup.HasComponent(item)
+                    || (!m_TreeLookup.HasComponent(item) && !m_PlantLookup.HasComponent(item))
+                    || !m_TransformLookup.TryGetComponent(item, out Game.Objects.Transform transform))
+                {
+                    return;
+                }
+
+                Check(transform.m_Position);
+            }
+        }
+    }
+}
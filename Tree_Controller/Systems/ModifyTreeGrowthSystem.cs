@@ -35,6 +35,7 @@ namespace Tree_Controller.Systems
         private EntityQuery m_DeciduousWinterTreeGrowthQuery;
         private EntityQuery m_RegularTreeGrowthQuery;
         private EntityQuery m_LumberQuery;
+        private EntityQuery m_ResumedTreeGrowthQuery;
         private EndFrameBarrier m_EndFrameBarrier;
 
         /// <summary>
@@ -56,27 +57,35 @@ namespace Tree_Controller.Systems
             m_Log.Info($"[{nameof(ModifyTreeGrowthSystem)}] {nameof(OnCreate)}");
 
 
+            // Trees resumed with the Resume Growth mode keep growing while growth is disabled or deciduous trees use the dead model during winter.
             m_DisabledTreeGrowthQuery = SystemAPI.QueryBuilder()
                 .WithAll<Game.Objects.Tree>()
-                .WithNone<Deleted, Temp, Overridden, Lumber, NoTreeGrowth>()
+                .WithNone<Deleted, Temp, Overridden, Lumber, NoTreeGrowth, ResumedGrowth>()
                 .Build();
 
             m_DeciduousWinterTreeGrowthQuery = SystemAPI.QueryBuilder()
                 .WithAll<Game.Objects.Tree, DeciduousData>()
-                .WithNone<Deleted, Temp, Overridden, Lumber, NoTreeGrowth>()
+                .WithNone<Deleted, Temp, Overridden, Lumber, NoTreeGrowth, ResumedGrowth>()
                 .Build();
 
+            // Trees frozen with the Freeze Growth mode keep NoTreeGrowth when growth is enabled or they are used for lumber.
             m_RegularTreeGrowthQuery = SystemAPI.QueryBuilder()
                 .WithAll<Game.Objects.Tree, NoTreeGrowth>()
-                .WithNone<Deleted, Temp, Overridden>()
+                .WithNone<Deleted, Temp, Overridden, FrozenGrowth>()
                 .Build();
 
             m_LumberQuery = SystemAPI.QueryBuilder()
                 .WithAll<Game.Objects.Tree, Lumber, NoTreeGrowth>()
-                .WithNone<Deleted, Temp, Overridden>()
+                .WithNone<Deleted, Temp, Overridden, FrozenGrowth>()
                 .Build();
 
-            RequireAnyForUpdate(m_DisabledTreeGrowthQuery, m_DeciduousWinterTreeGrowthQuery, m_RegularTreeGrowthQuery, m_LumberQuery);
+            // Once the mod settings let trees grow again, resumed trees go back to following the mod settings.
+            m_ResumedTreeGrowthQuery = SystemAPI.QueryBuilder()
+                .WithAll<Game.Objects.Tree, ResumedGrowth>()
+                .WithNone<Deleted, Temp>()
+                .Build();
+
+            RequireAnyForUpdate(m_DisabledTreeGrowthQuery, m_DeciduousWinterTreeGrowthQuery, m_RegularTreeGrowthQuery, m_LumberQuery, m_ResumedTreeGrowthQuery);
         }
 
         /// <inheritdoc/>
@@ -142,6 +151,19 @@ namespace Tree_Controller.Systems
                 return;
             }
 
+            if (!m_ResumedTreeGrowthQuery.IsEmptyIgnoreFilter && (!TreeControllerMod.Instance.Settings.UseDeadModelDuringWinter || m_Season != FoliageUtils.Season.Winter))
+            {
+                RemoveResumedGrowthJob removeResumedGrowthJob = new ()
+                {
+                    m_EntityType = SystemAPI.GetEntityTypeHandle(),
+                    buffer = m_EndFrameBarrier.CreateCommandBuffer().AsParallelWriter(),
+                };
+
+                JobHandle jobHandle = JobChunkExtensions.ScheduleParallel(removeResumedGrowthJob, m_ResumedTreeGrowthQuery, Dependency);
+                m_EndFrameBarrier.AddJobHandleForProducer(jobHandle);
+                Dependency = jobHandle;
+            }
+
             if (!m_RegularTreeGrowthQuery.IsEmptyIgnoreFilter && (!TreeControllerMod.Instance.Settings.UseDeadModelDuringWinter || m_Season != FoliageUtils.Season.Winter))
             {
                 RemoveNoTreeGrowthJob removeNoTreeGrowthJob = new ()
@@ -190,6 +212,26 @@ namespace Tree_Controller.Systems
             }
         }
 
+#if BURST
+        [BurstCompile]
+#endif
+        private struct RemoveResumedGrowthJob : IJobChunk
+        {
+            [ReadOnly]
+            public EntityTypeHandle m_EntityType;
+            public EntityCommandBuffer.ParallelWriter buffer;
+
+            public void Execute(in ArchetypeChunk chunk, int unfilteredChunkIndex, bool useEnabledMask, in v128 chunkEnabledMask)
+            {
+                NativeArray<Entity> entityNativeArray = chunk.GetNativeArray(m_EntityType);
+                for (int i = 0; i < chunk.Count; i++)
+                {
+                    Entity currentEntity = entityNativeArray[i];
+                    buffer.RemoveComponent<ResumedGrowth>(unfilteredChunkIndex, currentEntity);
+                }
+            }
+        }
+
 #if BURST
         [BurstCompile]
 #endif
@@ -8,6 +8,7 @@ namespace Tree_Controller.Systems
     using System;
     using System.Collections.Generic;
     using System.IO;
+    using System.Linq;
     using System.Xml.Serialization;
     using Colossal.Entities;
     using Colossal.Logging;
@@ -21,6 +22,7 @@ namespace Tree_Controller.Systems
     using Game.Rendering;
     using Game.Simulation;
     using Tree_Controller.Settings;
+    using Tree_Controller.Tools;
     using Tree_Controller.Utils;
     using Unity.Collections;
     using Unity.Entities;
@@ -68,6 +70,9 @@ namespace Tree_Controller.Systems
         private string m_ContentFolder;
         private EndFrameBarrier m_EndFrameBarrier;
         private EntityQuery m_PlantQuery;
+        private Dictionary<TreeSeasonIdentifier, Game.Rendering.ColorSet> m_CustomColorSets;
+        private Dictionary<TreeSeasonIdentifier, Game.Rendering.ColorSet> m_PreviewColorSets;
+        private string m_FoliageColorFolder;
 
         /// <summary>
         /// Initializes a new instance of the <see cref="ReloadFoliageColorDataSystem"/> class.
@@ -77,12 +82,237 @@ namespace Tree_Controller.Systems
         }
 
         /// <summary>
-        /// Sets a value indicating whether to reload foliage color data.
+        /// Gets or sets a value indicating whether to reload foliage color data.
         /// </summary>
         public bool Run { set => m_Run = value; }
 
         private Dictionary<TreeSeasonIdentifier, ColorSet> YenyangsColorSets => m_YenyangsColorSets;
 
+        /// <summary>
+        /// Gets the colors of each seasonal color variation of a tree or plant prefab including unsaved changes. Color variations that Recolor has saved colors for are left out since they cannot be changed here.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        /// <returns>Array of colors for each color variation. Empty if the prefab does not have seasonal colors that can be edited.</returns>
+        public FoliageColorData[] GetFoliageColors(Entity prefabEntity)
+        {
+            List<FoliageColorData> foliageColors = new List<FoliageColorData>();
+            if (!TryGetColorVariations(prefabEntity, out DynamicBuffer<ColorVariation> colorVariationBuffer, out PrefabID prefabID))
+            {
+                return foliageColors.ToArray();
+            }
+
+            for (int j = 0; j < colorVariationBuffer.Length; j++)
+            {
+                if (!FoliageUtils.TryGetSeasonFromColorGroupID(colorVariationBuffer[j].m_GroupID, out FoliageUtils.Season season))
+                {
+                    continue;
+                }
+
+                TreeSeasonIdentifier treeSeasonIdentifier = new () { m_PrefabID = prefabID, m_Season = season, m_Index = j };
+                if (File.Exists(GetAssetSeasonIdentifierFilePath(treeSeasonIdentifier)))
+                {
+                    continue;
+                }
+
+                ColorSet colorSet = GetCurrentColorSet(treeSeasonIdentifier, colorVariationBuffer[j].m_ColorSet);
+                foliageColors.Add(new FoliageColorData()
+                {
+                    index = j,
+                    season = (int)season,
+                    channel0 = colorSet.m_Channel0,
+                    channel1 = colorSet.m_Channel1,
+                    channel2 = colorSet.m_Channel2,
+                });
+            }
+
+            return foliageColors.ToArray();
+        }
+
+        /// <summary>
+        /// Checks whether a tree or plant prefab has seasonal colors that can be edited.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        /// <returns>True if the prefab has seasonal colors.</returns>
+        public bool HasSeasonalColors(Entity prefabEntity)
+        {
+            return TryGetColorVariations(prefabEntity, out _, out _);
+        }
+
+        /// <summary>
+        /// Checks whether a tree or plant prefab has saved seasonal colors.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        /// <returns>True if colors have been saved for the prefab.</returns>
+        public bool HasSavedFoliageColors(Entity prefabEntity)
+        {
+            return m_PrefabSystem.TryGetPrefab(prefabEntity, out PrefabBase prefabBase) && File.Exists(GetFoliageColorFilePath(prefabBase.GetPrefabID()));
+        }
+
+        /// <summary>
+        /// Changes one channel of a seasonal color variation without saving it so that it can be previewed. Only the color variations and instances of this prefab are updated.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        /// <param name="index">The index of the color variation.</param>
+        /// <param name="channel">The channel from 0 to 2.</param>
+        /// <param name="color">The new color.</param>
+        public void PreviewFoliageColor(Entity prefabEntity, int index, int channel, UnityEngine.Color color)
+        {
+            if (!TryGetColorVariations(prefabEntity, out DynamicBuffer<ColorVariation> colorVariationBuffer, out PrefabID prefabID)
+                || index < 0
+                || index >= colorVariationBuffer.Length
+                || !FoliageUtils.TryGetSeasonFromColorGroupID(colorVariationBuffer[index].m_GroupID, out FoliageUtils.Season season))
+            {
+                m_Log.Warn($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(PreviewFoliageColor)} could not preview color variation {index}.");
+                return;
+            }
+
+            TreeSeasonIdentifier treeSeasonIdentifier = new ()
+            {
+                m_PrefabID = prefabID,
+                m_Season = season,
+                m_Index = index,
+            };
+
+            if (File.Exists(GetAssetSeasonIdentifierFilePath(treeSeasonIdentifier)))
+            {
+                return;
+            }
+
+            ColorSet colorSet = GetCurrentColorSet(treeSeasonIdentifier, colorVariationBuffer[index].m_ColorSet);
+            switch (channel)
+            {
+                case 0:
+                    colorSet.m_Channel0 = color;
+                    break;
+                case 1:
+                    colorSet.m_Channel1 = color;
+                    break;
+                case 2:
+                    colorSet.m_Channel2 = color;
+                    break;
+                default:
+                    return;
+            }
+
+            m_PreviewColorSets[treeSeasonIdentifier] = colorSet;
+            if (!IsReplacingWinterForDeadModel(season))
+            {
+                ApplyColorSet(prefabEntity, index, colorSet);
+            }
+        }
+
+        /// <summary>
+        /// Saves the current seasonal colors of a tree or plant prefab including unsaved changes and applies them.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        public void SaveFoliageColors(Entity prefabEntity)
+        {
+            if (!TryGetColorVariations(prefabEntity, out DynamicBuffer<ColorVariation> colorVariationBuffer, out PrefabID prefabID))
+            {
+                return;
+            }
+
+            List<SavedColorVariation> colorVariations = new List<SavedColorVariation>();
+            for (int j = 0; j < colorVariationBuffer.Length; j++)
+            {
+                if (!FoliageUtils.TryGetSeasonFromColorGroupID(colorVariationBuffer[j].m_GroupID, out FoliageUtils.Season season))
+                {
+                    continue;
+                }
+
+                TreeSeasonIdentifier treeSeasonIdentifier = new ()
+                {
+                    m_PrefabID = prefabID,
+                    m_Season = season,
+                    m_Index = j,
+                };
+
+                // Color variations that Recolor has saved colors for are left to Recolor.
+                if (File.Exists(GetAssetSeasonIdentifierFilePath(treeSeasonIdentifier)))
+                {
+                    continue;
+                }
+
+                ColorSet colorSet = GetCurrentColorSet(treeSeasonIdentifier, colorVariationBuffer[j].m_ColorSet);
+                m_CustomColorSets[treeSeasonIdentifier] = colorSet;
+                m_PreviewColorSets.Remove(treeSeasonIdentifier);
+                colorVariations.Add(new SavedColorVariation(j, season, colorSet));
+            }
+
+            try
+            {
+                XmlSerializer serTool = new XmlSerializer(typeof(FoliageColorRepository)); // Create serializer
+                using (FileStream file = File.Create(GetFoliageColorFilePath(prefabID))) // Create file
+                {
+                    serTool.Serialize(file, new FoliageColorRepository(prefabID, colorVariations)); // Serialize whole properties
+                }
+            }
+            catch (Exception ex)
+            {
+                m_Log.Warn($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(SaveFoliageColors)} Could not save colors for {prefabID}. Encountered exception {ex}");
+            }
+
+            m_Run = true;
+        }
+
+        /// <summary>
+        /// Removes saved and unsaved seasonal colors of a tree or plant prefab so that the color variation set applies again.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        public void ResetFoliageColors(Entity prefabEntity)
+        {
+            if (!m_PrefabSystem.TryGetPrefab(prefabEntity, out PrefabBase prefabBase))
+            {
+                return;
+            }
+
+            PrefabID prefabID = prefabBase.GetPrefabID();
+            foreach (TreeSeasonIdentifier treeSeasonIdentifier in m_CustomColorSets.Keys.Where(key => key.m_PrefabID.Equals(prefabID)).ToList())
+            {
+                m_CustomColorSets.Remove(treeSeasonIdentifier);
+            }
+
+            foreach (TreeSeasonIdentifier treeSeasonIdentifier in m_PreviewColorSets.Keys.Where(key => key.m_PrefabID.Equals(prefabID)).ToList())
+            {
+                m_PreviewColorSets.Remove(treeSeasonIdentifier);
+            }
+
+            string filePath = GetFoliageColorFilePath(prefabID);
+            if (File.Exists(filePath))
+            {
+                File.Delete(filePath);
+            }
+
+            // Colors are reverted right away since this system does not update while the game is paused.
+            ReloadColorVariations(prefabEntity);
+            UpdatePlantBatches(prefabEntity);
+        }
+
+        /// <summary>
+        /// Discards all unsaved seasonal colors.
+        /// </summary>
+        public void ClearPreviewFoliageColors()
+        {
+            if (m_PreviewColorSets.Count == 0)
+            {
+                return;
+            }
+
+            List<PrefabID> prefabIDs = m_PreviewColorSets.Keys.Select(key => key.m_PrefabID).Distinct().ToList();
+            m_PreviewColorSets.Clear();
+
+            // Colors are reverted right away since this system does not update while the game is paused.
+            foreach (PrefabID prefabID in prefabIDs)
+            {
+                if (m_PrefabSystem.TryGetPrefab(prefabID, out PrefabBase prefabBase))
+                {
+                    Entity prefabEntity = m_PrefabSystem.GetEntity(prefabBase);
+                    ReloadColorVariations(prefabEntity);
+                    UpdatePlantBatches(prefabEntity);
+                }
+            }
+        }
+
         /// <inheritdoc/>
         protected override void OnCreate()
         {
@@ -96,6 +326,11 @@ namespace Tree_Controller.Systems
             m_VanillaColorSets = new ();
             m_SpringColorSets = new ();
             m_AutumnColorSets = new ();
+            m_CustomColorSets = new ();
+            m_PreviewColorSets = new ();
+            m_FoliageColorFolder = Path.Combine(EnvPath.kUserDataPath, "ModsData", "Mods_Yenyang_Tree_Controller", "FoliageColorData", "Custom");
+            System.IO.Directory.CreateDirectory(m_FoliageColorFolder);
+            LoadCustomColorSets();
             m_ContentFolder = Path.Combine(EnvPath.kUserDataPath, "ModsData", "Recolor", "SavedColorSet", "Custom");
             m_PlantPrefabQuery = SystemAPI.QueryBuilder()
             .WithAll<PlantData, SubMesh>()
@@ -249,97 +484,254 @@ namespace Tree_Controller.Systems
 
             foreach (Entity e in plantPrefabEntities)
             {
-                if (!EntityManager.TryGetBuffer(e, isReadOnly: false, out DynamicBuffer<SubMesh> subMeshBuffer))
+                ReloadColorVariations(e);
+            }
+
+            plantPrefabEntities.Dispose();
+            m_Run = false;
+            m_ColorVariationSet = TreeControllerMod.Instance.Settings.ColorVariationSet;
+
+            buffer.AddComponent<BatchesUpdated>(m_PlantQuery, EntityQueryCaptureMode.AtPlayback);
+        }
+
+        // Taken from Recolor mod.
+        private string GetAssetSeasonIdentifierFilePath(TreeSeasonIdentifier assetSeasonIdentifier)
+        {
+            string prefabType = assetSeasonIdentifier.m_PrefabID.ToString().Remove(assetSeasonIdentifier.m_PrefabID.ToString().IndexOf(':'));
+            return Path.Combine(m_ContentFolder, $"{prefabType}-{assetSeasonIdentifier.m_PrefabID.GetName()}-{assetSeasonIdentifier.m_Index}.xml");
+        }
+
+        private string GetFoliageColorFilePath(PrefabID prefabID)
+        {
+            string prefabType = prefabID.ToString().Remove(prefabID.ToString().IndexOf(':'));
+            return Path.Combine(m_FoliageColorFolder, $"{prefabType}-{prefabID.GetName()}.xml");
+        }
+
+        private bool IsReplacingWinterForDeadModel(FoliageUtils.Season season)
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            return settings.UseDeadModelDuringWinter && m_Season == FoliageUtils.Season.Spring && season == FoliageUtils.Season.Winter && settings.ColorVariationSet != TreeControllerSettings.ColorVariationSetYYTC.Autumn;
+        }
+
+        /// <summary>
+        /// Sets one color variation of a tree or plant prefab and updates the batches of its instances without reloading every plant.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        /// <param name="index">The index of the color variation.</param>
+        /// <param name="colorSet">The new colors.</param>
+        private void ApplyColorSet(Entity prefabEntity, int index, ColorSet colorSet)
+        {
+            if (!EntityManager.TryGetBuffer(prefabEntity, isReadOnly: true, out DynamicBuffer<SubMesh> subMeshBuffer))
+            {
+                return;
+            }
+
+            for (int i = 0; i < Math.Min(4, subMeshBuffer.Length); i++)
+            {
+                if (!EntityManager.TryGetBuffer(subMeshBuffer[i].m_SubMesh, isReadOnly: false, out DynamicBuffer<ColorVariation> colorVariationBuffer) || index >= colorVariationBuffer.Length)
                 {
                     continue;
                 }
 
-                for (int i = 0; i < Math.Min(4, subMeshBuffer.Length); i++)
+                ColorVariation colorVariation = colorVariationBuffer[index];
+                colorVariation.m_ColorSet = colorSet;
+                colorVariationBuffer[index] = colorVariation;
+            }
+
+            UpdatePlantBatches(prefabEntity);
+        }
+
+        /// <summary>
+        /// Sets the seasonal color variations of a tree or plant prefab from the unsaved, saved, or color variation set colors.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        private void ReloadColorVariations(Entity prefabEntity)
+        {
+            if (!EntityManager.TryGetBuffer(prefabEntity, isReadOnly: false, out DynamicBuffer<SubMesh> subMeshBuffer))
+            {
+                return;
+            }
+
+            for (int i = 0; i < Math.Min(4, subMeshBuffer.Length); i++)
+            {
+                if (!EntityManager.TryGetBuffer(subMeshBuffer[i].m_SubMesh, isReadOnly: false, out DynamicBuffer<ColorVariation> colorVariationBuffer))
                 {
-                    if (!EntityManager.TryGetBuffer(subMeshBuffer[i].m_SubMesh, isReadOnly: false, out DynamicBuffer<ColorVariation> colorVariationBuffer))
+                    continue;
+                }
+
+                PrefabBase prefabBase = m_PrefabSystem.GetPrefab<PrefabBase>(prefabEntity);
+                PrefabID prefabID = prefabBase.GetPrefabID();
+
+                for (int j = 0; j < colorVariationBuffer.Length; j++)
+                {
+                    ColorVariation currentColorVariation = colorVariationBuffer[j];
+
+                    if (!FoliageUtils.TryGetSeasonFromColorGroupID(currentColorVariation.m_GroupID, out FoliageUtils.Season season))
                     {
                         continue;
                     }
 
-                    PrefabBase prefabBase = m_PrefabSystem.GetPrefab<PrefabBase>(e);
-                    PrefabID prefabID = prefabBase.GetPrefabID();
-
-                    for (int j = 0; j < colorVariationBuffer.Length; j++)
+                    TreeSeasonIdentifier treeSeasonIdentifier = new ()
                     {
-                        ColorVariation currentColorVariation = colorVariationBuffer[j];
+                        m_PrefabID = prefabID,
+                        m_Season = season,
+                        m_Index = j,
+                    };
 
-                        if (!FoliageUtils.TryGetSeasonFromColorGroupID(currentColorVariation.m_GroupID, out FoliageUtils.Season season))
-                        {
-                            continue;
-                        }
-
-                        TreeSeasonIdentifier treeSeasonIdentifier = new ()
-                        {
-                            m_PrefabID = prefabID,
-                            m_Season = season,
-                            m_Index = j,
-                        };
-
-                        if (File.Exists(GetAssetSeasonIdentifierFilePath(treeSeasonIdentifier)))
-                        {
-                            continue;
-                        }
+                    if (File.Exists(GetAssetSeasonIdentifierFilePath(treeSeasonIdentifier)))
+                    {
+                        continue;
+                    }
 
-                        if ((TreeControllerMod.Instance.Settings.UseDeadModelDuringWinter && m_Season == FoliageUtils.Season.Spring && treeSeasonIdentifier.m_Season == FoliageUtils.Season.Winter && TreeControllerMod.Instance.Settings.ColorVariationSet != TreeControllerSettings.ColorVariationSetYYTC.Autumn)
-                            || (TreeControllerMod.Instance.Settings.ColorVariationSet == TreeControllerSettings.ColorVariationSetYYTC.Spring && (season == FoliageUtils.Season.Autumn || season == FoliageUtils.Season.Winter))
-                            || ((TreeControllerMod.Instance.Settings.ColorVariationSet == TreeControllerSettings.ColorVariationSetYYTC.Yenyangs && !EntityManager.HasComponent<TreeData>(e) && !m_YenyangsColorSets.ContainsKey(treeSeasonIdentifier)) && (season == FoliageUtils.Season.Autumn || season == FoliageUtils.Season.Winter)))
-                        {
-                            if (m_SpringColorSets.ContainsKey(treeSeasonIdentifier))
-                            {
-                                currentColorVariation.m_ColorSet = m_SpringColorSets[treeSeasonIdentifier];
-                                colorVariationBuffer[j] = currentColorVariation;
-                                m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(OnUpdate)} set to spring Colorset {TreeControllerMod.Instance.Settings.ColorVariationSet} for {prefabID} in index {j} : {treeSeasonIdentifier.m_Season}");
-                                continue;
-                            }
-                        }
-                        else if (TreeControllerMod.Instance.Settings.ColorVariationSet == TreeControllerSettings.ColorVariationSetYYTC.Autumn)
-                        {
-                            if (m_AutumnColorSets.ContainsKey(treeSeasonIdentifier))
-                            {
-                                currentColorVariation.m_ColorSet = m_AutumnColorSets[treeSeasonIdentifier];
-                                colorVariationBuffer[j] = currentColorVariation;
-                                m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(OnUpdate)} set to autumn Colorset {TreeControllerMod.Instance.Settings.ColorVariationSet} for {prefabID} in index {j} : {treeSeasonIdentifier.m_Season}");
-                                continue;
-                            }
-                        }
+                    // Colors edited in the selected object panel take priority unless winter colors are being replaced for the dead model.
+                    bool replacingWinterForDeadModel = IsReplacingWinterForDeadModel(treeSeasonIdentifier.m_Season);
+                    if (!replacingWinterForDeadModel && (m_PreviewColorSets.TryGetValue(treeSeasonIdentifier, out ColorSet customColorSet) || m_CustomColorSets.TryGetValue(treeSeasonIdentifier, out customColorSet)))
+                    {
+                        currentColorVariation.m_ColorSet = customColorSet;
+                        colorVariationBuffer[j] = currentColorVariation;
+                        m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(ReloadColorVariations)} set to custom Colorset for {prefabID} in index {j} : {treeSeasonIdentifier.m_Season}");
+                        continue;
+                    }
 
-                        if (TreeControllerMod.Instance.Settings.ColorVariationSet == TreeControllerSettings.ColorVariationSetYYTC.Yenyangs && YenyangsColorSets.ContainsKey(treeSeasonIdentifier))
+                    if ((TreeControllerMod.Instance.Settings.UseDeadModelDuringWinter && m_Season == FoliageUtils.Season.Spring && treeSeasonIdentifier.m_Season == FoliageUtils.Season.Winter && TreeControllerMod.Instance.Settings.ColorVariationSet != TreeControllerSettings.ColorVariationSetYYTC.Autumn)
+                        || (TreeControllerMod.Instance.Settings.ColorVariationSet == TreeControllerSettings.ColorVariationSetYYTC.Spring && (season == FoliageUtils.Season.Autumn || season == FoliageUtils.Season.Winter))
+                        || ((TreeControllerMod.Instance.Settings.ColorVariationSet == TreeControllerSettings.ColorVariationSetYYTC.Yenyangs && !EntityManager.HasComponent<TreeData>(prefabEntity) && !m_YenyangsColorSets.ContainsKey(treeSeasonIdentifier)) && (season == FoliageUtils.Season.Autumn || season == FoliageUtils.Season.Winter)))
+                    {
+                        if (m_SpringColorSets.ContainsKey(treeSeasonIdentifier))
                         {
-                            currentColorVariation.m_ColorSet = YenyangsColorSets[treeSeasonIdentifier];
+                            currentColorVariation.m_ColorSet = m_SpringColorSets[treeSeasonIdentifier];
                             colorVariationBuffer[j] = currentColorVariation;
-                            m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(OnUpdate)} Changed Colorset for {prefabID} in {treeSeasonIdentifier.m_Season}");
+                            m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(ReloadColorVariations)} set to spring Colorset {TreeControllerMod.Instance.Settings.ColorVariationSet} for {prefabID} in index {j} : {treeSeasonIdentifier.m_Season}");
+                            continue;
                         }
-                        else if (m_VanillaColorSets.ContainsKey(treeSeasonIdentifier))
+                    }
+                    else if (TreeControllerMod.Instance.Settings.ColorVariationSet == TreeControllerSettings.ColorVariationSetYYTC.Autumn)
+                    {
+                        if (m_AutumnColorSets.ContainsKey(treeSeasonIdentifier))
                         {
-                            currentColorVariation.m_ColorSet = m_VanillaColorSets[treeSeasonIdentifier];
+                            currentColorVariation.m_ColorSet = m_AutumnColorSets[treeSeasonIdentifier];
                             colorVariationBuffer[j] = currentColorVariation;
-                            m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(OnUpdate)} Reset Colorset for {prefabID} in {treeSeasonIdentifier.m_Season}");
-                        }
-                        else
-                        {
-                            m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(OnUpdate)} Did nothing for: {TreeControllerMod.Instance.Settings.ColorVariationSet} for {prefabID} in index {j} : {treeSeasonIdentifier.m_Season}");
+                            m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(ReloadColorVariations)} set to autumn Colorset {TreeControllerMod.Instance.Settings.ColorVariationSet} for {prefabID} in index {j} : {treeSeasonIdentifier.m_Season}");
+                            continue;
                         }
                     }
+
+                    if (TreeControllerMod.Instance.Settings.ColorVariationSet == TreeControllerSettings.ColorVariationSetYYTC.Yenyangs && YenyangsColorSets.ContainsKey(treeSeasonIdentifier))
+                    {
+                        currentColorVariation.m_ColorSet = YenyangsColorSets[treeSeasonIdentifier];
+                        colorVariationBuffer[j] = currentColorVariation;
+                        m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(ReloadColorVariations)} Changed Colorset for {prefabID} in {treeSeasonIdentifier.m_Season}");
+                    }
+                    else if (m_VanillaColorSets.ContainsKey(treeSeasonIdentifier))
+                    {
+                        currentColorVariation.m_ColorSet = m_VanillaColorSets[treeSeasonIdentifier];
+                        colorVariationBuffer[j] = currentColorVariation;
+                        m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(ReloadColorVariations)} Reset Colorset for {prefabID} in {treeSeasonIdentifier.m_Season}");
+                    }
+                    else
+                    {
+                        m_Log.Debug($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(ReloadColorVariations)} Did nothing for: {TreeControllerMod.Instance.Settings.ColorVariationSet} for {prefabID} in index {j} : {treeSeasonIdentifier.m_Season}");
+                    }
                 }
             }
+        }
 
-            plantPrefabEntities.Dispose();
-            m_Run = false;
-            m_ColorVariationSet = TreeControllerMod.Instance.Settings.ColorVariationSet;
+        /// <summary>
+        /// Updates the batches of every instance of a tree or plant prefab so changed colors are shown.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        private void UpdatePlantBatches(Entity prefabEntity)
+        {
+            EntityCommandBuffer buffer = m_EndFrameBarrier.CreateCommandBuffer();
+            NativeArray<Entity> plantEntities = m_PlantQuery.ToEntityArray(Allocator.Temp);
+            NativeArray<PrefabRef> prefabRefs = m_PlantQuery.ToComponentDataArray<PrefabRef>(Allocator.Temp);
+            for (int i = 0; i < plantEntities.Length; i++)
+            {
+                if (prefabRefs[i].m_Prefab == prefabEntity)
+                {
+                    buffer.AddComponent<BatchesUpdated>(plantEntities[i]);
+                }
+            }
 
-            buffer.AddComponent<BatchesUpdated>(m_PlantQuery, EntityQueryCaptureMode.AtPlayback);
+            plantEntities.Dispose();
+            prefabRefs.Dispose();
         }
 
-        // Taken from Recolor mod.
-        private string GetAssetSeasonIdentifierFilePath(TreeSeasonIdentifier assetSeasonIdentifier)
+        private ColorSet GetCurrentColorSet(TreeSeasonIdentifier treeSeasonIdentifier, ColorSet colorSet)
         {
-            string prefabType = assetSeasonIdentifier.m_PrefabID.ToString().Remove(assetSeasonIdentifier.m_PrefabID.ToString().IndexOf(':'));
-            return Path.Combine(m_ContentFolder, $"{prefabType}-{assetSeasonIdentifier.m_PrefabID.GetName()}-{assetSeasonIdentifier.m_Index}.xml");
+            if (m_PreviewColorSets.TryGetValue(treeSeasonIdentifier, out ColorSet previewColorSet))
+            {
+                return previewColorSet;
+            }
+
+            if (m_CustomColorSets.TryGetValue(treeSeasonIdentifier, out ColorSet customColorSet))
+            {
+                return customColorSet;
+            }
+
+            return colorSet;
+        }
+
+        /// <summary>
+        /// Tries to get the color variations of the first sub mesh of a tree or plant prefab that has seasonal colors.
+        /// </summary>
+        /// <param name="prefabEntity">The prefab entity.</param>
+        /// <param name="colorVariationBuffer">The color variations.</param>
+        /// <param name="prefabID">The prefab ID.</param>
+        /// <returns>True if the prefab has seasonal colors.</returns>
+        private bool TryGetColorVariations(Entity prefabEntity, out DynamicBuffer<ColorVariation> colorVariationBuffer, out PrefabID prefabID)
+        {
+            colorVariationBuffer = default;
+            prefabID = default;
+            if (!EntityManager.HasComponent<PlantData>(prefabEntity)
+                || EntityManager.HasComponent<Evergreen>(prefabEntity)
+                || !EntityManager.TryGetBuffer(prefabEntity, isReadOnly: true, out DynamicBuffer<SubMesh> subMeshBuffer)
+                || !m_PrefabSystem.TryGetPrefab(prefabEntity, out PrefabBase prefabBase))
+            {
+                return false;
+            }
+
+            prefabID = prefabBase.GetPrefabID();
+            for (int i = 0; i < Math.Min(4, subMeshBuffer.Length); i++)
+            {
+                if (EntityManager.TryGetBuffer(subMeshBuffer[i].m_SubMesh, isReadOnly: true, out colorVariationBuffer) && colorVariationBuffer.Length >= 4)
+                {
+                    return true;
+                }
+            }
+
+            return false;
+        }
+
+        /// <summary>
+        /// Loads the seasonal colors saved in the selected object panel.
+        /// </summary>
+        private void LoadCustomColorSets()
+        {
+            XmlSerializer serTool = new XmlSerializer(typeof(FoliageColorRepository));
+            foreach (string filePath in Directory.GetFiles(m_FoliageColorFolder, "*.xml"))
+            {
+                try
+                {
+                    using System.IO.FileStream readStream = new (filePath, FileMode.Open);
+                    if (serTool.Deserialize(readStream) is not FoliageColorRepository foliageColorRepository || foliageColorRepository.ColorVariations == null)
+                    {
+                        continue;
+                    }
+
+                    PrefabID prefabID = foliageColorRepository.GetPrefabID();
+                    foreach (SavedColorVariation colorVariation in foliageColorRepository.ColorVariations)
+                    {
+                        m_CustomColorSets[new () { m_PrefabID = prefabID, m_Season = colorVariation.Season, m_Index = colorVariation.Index }] = colorVariation.GetColorSet();
+                    }
+                }
+                catch (Exception ex)
+                {
+                    m_Log.Warn($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(LoadCustomColorSets)} Could not load {filePath}. Encountered exception {ex}");
+                }
+            }
+
+            m_Log.Info($"{nameof(ReloadFoliageColorDataSystem)}.{nameof(LoadCustomColorSets)} loaded {m_CustomColorSets.Count} custom color variations.");
         }
 
         private struct TreeSeasonIdentifier
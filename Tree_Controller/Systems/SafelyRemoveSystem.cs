@@ -24,6 +24,8 @@ namespace Tree_Controller.Systems
         private EndFrameBarrier m_EndFrameBarrier;
         private TimeSystem m_TimeSystem;
         private EntityQuery m_DeciduousTreeQuery;
+        private EntityQuery m_TreeGrowthQuery;
+        private bool m_RemoveTreeGrowthComponents;
         private ILog m_Log;
 
         /// <summary>
@@ -33,6 +35,15 @@ namespace Tree_Controller.Systems
         {
         }
 
+        /// <summary>
+        /// Enables the system and removes NoTreeGrowth, FrozenGrowth, and ResumedGrowth on its next update.
+        /// </summary>
+        public void RemoveTreeGrowthComponents()
+        {
+            m_RemoveTreeGrowthComponents = true;
+            Enabled = true;
+        }
+
         /// <inheritdoc/>
         protected override void OnCreate()
         {
@@ -46,23 +57,49 @@ namespace Tree_Controller.Systems
             m_DeciduousTreeQuery = SystemAPI.QueryBuilder()
                 .WithAllRW<DeciduousData, Tree>()
                 .Build();
-            RequireForUpdate(m_DeciduousTreeQuery);
+
+            m_TreeGrowthQuery = SystemAPI.QueryBuilder()
+                .WithAny<NoTreeGrowth, FrozenGrowth, ResumedGrowth>()
+                .Build();
+
+            RequireAnyForUpdate(m_DeciduousTreeQuery, m_TreeGrowthQuery);
         }
 
         /// <inheritdoc/>
         protected override void OnUpdate()
         {
-            TreeSeasonChangeJob treeSeasonChangeJob = new ()
+            if (!m_DeciduousTreeQuery.IsEmptyIgnoreFilter)
+            {
+                TreeSeasonChangeJob treeSeasonChangeJob = new ()
+                {
+                    m_DeciduousTreeDataType = SystemAPI.GetComponentTypeHandle<DeciduousData>(),
+                    m_EntityType = SystemAPI.GetEntityTypeHandle(),
+                    m_TreeType = SystemAPI.GetComponentTypeHandle<Tree>(),
+                    buffer = m_EndFrameBarrier.CreateCommandBuffer().AsParallelWriter(),
+                };
+
+                JobHandle jobHandle = JobChunkExtensions.ScheduleParallel(treeSeasonChangeJob, m_DeciduousTreeQuery, Dependency);
+                m_EndFrameBarrier.AddJobHandleForProducer(jobHandle);
+                Dependency = jobHandle;
+            }
+
+            if (m_RemoveTreeGrowthComponents)
             {
-                m_DeciduousTreeDataType = SystemAPI.GetComponentTypeHandle<DeciduousData>(),
-                m_EntityType = SystemAPI.GetEntityTypeHandle(),
-                m_TreeType = SystemAPI.GetComponentTypeHandle<Tree>(),
-                buffer = m_EndFrameBarrier.CreateCommandBuffer().AsParallelWriter(),
-            };
-
-            JobHandle jobHandle = JobChunkExtensions.ScheduleParallel(treeSeasonChangeJob, m_DeciduousTreeQuery, Dependency);
-            m_EndFrameBarrier.AddJobHandleForProducer(jobHandle);
-            Dependency = jobHandle;
+                m_RemoveTreeGrowthComponents = false;
+                m_Log.Info($"{nameof(SafelyRemoveSystem)}.{nameof(OnUpdate)} Removing tree growth components.");
+                if (!m_TreeGrowthQuery.IsEmptyIgnoreFilter)
+                {
+                    RemoveTreeGrowthJob removeTreeGrowthJob = new ()
+                    {
+                        m_EntityType = SystemAPI.GetEntityTypeHandle(),
+                        buffer = m_EndFrameBarrier.CreateCommandBuffer().AsParallelWriter(),
+                    };
+
+                    JobHandle jobHandle = JobChunkExtensions.ScheduleParallel(removeTreeGrowthJob, m_TreeGrowthQuery, Dependency);
+                    m_EndFrameBarrier.AddJobHandleForProducer(jobHandle);
+                    Dependency = jobHandle;
+                }
+            }
         }
 
 #if BURST
@@ -97,5 +134,27 @@ namespace Tree_Controller.Systems
                 }
             }
         }
+
+#if BURST
+        [BurstCompile]
+#endif
+        private struct RemoveTreeGrowthJob : IJobChunk
+        {
+            [ReadOnly]
+            public EntityTypeHandle m_EntityType;
+            public EntityCommandBuffer.ParallelWriter buffer;
+
+            public void Execute(in ArchetypeChunk chunk, int unfilteredChunkIndex, bool useEnabledMask, in v128 chunkEnabledMask)
+            {
+                NativeArray<Entity> entityNativeArray = chunk.GetNativeArray(m_EntityType);
+                for (int i = 0; i < chunk.Count; i++)
+                {
+                    Entity currentEntity = entityNativeArray[i];
+                    buffer.RemoveComponent<NoTreeGrowth>(unfilteredChunkIndex, currentEntity);
+                    buffer.RemoveComponent<FrozenGrowth>(unfilteredChunkIndex, currentEntity);
+                    buffer.RemoveComponent<ResumedGrowth>(unfilteredChunkIndex, currentEntity);
+                }
+            }
+        }
     }
 }
@@ -0,0 +1,264 @@
+﻿// <copyright file="TreeCensusSystem.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+#define BURST
+namespace Tree_Controller.Systems
+{
+    using System.Collections.Generic;
+    using Colossal.Logging;
+    using Game;
+    using Game.Common;
+    using Game.Objects;
+    using Game.Prefabs;
+    using Game.Tools;
+    using Game.UI;
+    using Tree_Controller.Tools;
+    using Tree_Controller.Utils;
+    using Unity.Burst;
+    using Unity.Burst.Intrinsics;
+    using Unity.Collections;
+    using Unity.Entities;
+    using Unity.Jobs;
+
+    /// <summary>
+    /// Counts trees and plants on the map by prefab, age, and owner for the tree census panel. Only enabled while the panel is open.
+    /// </summary>
+    public partial class TreeCensusSystem : GameSystemBase
+    {
+        private const int RefreshInterval = 120;
+        private EntityQuery m_FoliageQuery;
+        private PrefabSystem m_PrefabSystem;
+        private TreeControllerUISystem m_TreeControllerUISystem;
+        private NativeHashMap<Entity, TreeCensusCount> m_Counts;
+        private JobHandle m_CensusJobHandle;
+        private bool m_CensusPending;
+        private int m_FramesUntilRefresh;
+        private TreeCensusData[] m_CensusData = new TreeCensusData[0];
+        private Dictionary<string, Entity> m_CensusPrefabs = new ();
+        private ILog m_Log;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="TreeCensusSystem"/> class.
+        /// </summary>
+        public TreeCensusSystem()
+        {
+        }
+
+        /// <summary>
+        /// Gets the counts from the most recent census.
+        /// </summary>
+        /// <returns>Array of census rows, one per prefab.</returns>
+        public TreeCensusData[] GetCensusData()
+        {
+            return m_CensusData;
+        }
+
+        /// <summary>
+        /// Tries to get a prefab that was counted in the most recent census.
+        /// </summary>
+        /// <param name="name">Name of the prefab.</param>
+        /// <param name="prefab">The prefab.</param>
+        /// <returns>True if the prefab was counted and still exists.</returns>
+        public bool TryGetCensusPrefab(string name, out PrefabBase prefab)
+        {
+            prefab = null;
+            return m_CensusPrefabs.TryGetValue(name, out Entity prefabEntity) && m_PrefabSystem.TryGetPrefab(prefabEntity, out prefab);
+        }
+
+        /// <inheritdoc/>
+        protected override void OnCreate()
+        {
+            base.OnCreate();
+            m_Log = TreeControllerMod.Instance.Logger;
+            m_PrefabSystem = World.GetOrCreateSystemManaged<PrefabSystem>();
+            m_TreeControllerUISystem = World.GetOrCreateSystemManaged<TreeControllerUISystem>();
+            m_Counts = new NativeHashMap<Entity, TreeCensusCount>(0, Allocator.Persistent);
+            m_FoliageQuery = SystemAPI.QueryBuilder()
+                .WithAll<Game.Objects.Transform, PrefabRef>()
+                .WithAny<Tree, Plant>()
+                .WithNone<Deleted, Temp, Overridden>()
+                .Build();
+
+            // Only enabled while the census panel is open.
+            Enabled = false;
+            m_Log.Info($"{nameof(TreeCensusSystem)}.{nameof(OnCreate)}");
+        }
+
+        /// <inheritdoc/>
+        protected override void OnStartRunning()
+        {
+            base.OnStartRunning();
+            m_FramesUntilRefresh = 0;
+        }
+
+        /// <inheritdoc/>
+        protected override void OnStopRunning()
+        {
+            base.OnStopRunning();
+            m_CensusJobHandle.Complete();
+            m_CensusPending = false;
+        }
+
+        /// <inheritdoc/>
+        protected override void OnUpdate()
+        {
+            if (m_CensusPending)
+            {
+                m_CensusJobHandle.Complete();
+                m_CensusPending = false;
+                ReadCensus();
+            }
+
+            if (m_FramesUntilRefresh > 0)
+            {
+                m_FramesUntilRefresh--;
+                return;
+            }
+
+            m_FramesUntilRefresh = RefreshInterval;
+            m_Counts.Clear();
+            TreeCensusJob treeCensusJob = new ()
+            {
+                m_TreeType = SystemAPI.GetComponentTypeHandle<Tree>(isReadOnly: true),
+                m_OwnerType = SystemAPI.GetComponentTypeHandle<Owner>(isReadOnly: true),
+                m_PrefabRefType = SystemAPI.GetComponentTypeHandle<PrefabRef>(isReadOnly: true),
+                m_VegetationLookup = SystemAPI.GetComponentLookup<Vegetation>(isReadOnly: true),
+                m_Counts = m_Counts,
+            };
+            m_CensusJobHandle = JobChunkExtensions.Schedule(treeCensusJob, m_FoliageQuery, Dependency);
+            Dependency = m_CensusJobHandle;
+            m_CensusPending = true;
+        }
+
+        /// <inheritdoc/>
+        protected override void OnDestroy()
+        {
+            m_CensusJobHandle.Complete();
+            m_Counts.Dispose();
+            base.OnDestroy();
+        }
+
+        /// <summary>
+        /// Converts the counts from the census job into rows for the UI.
+        /// </summary>
+        private void ReadCensus()
+        {
+            List<TreeCensusData> censusData = new List<TreeCensusData>();
+            m_CensusPrefabs.Clear();
+            NativeKeyValueArrays<Entity, TreeCensusCount> keyValueArrays = m_Counts.GetKeyValueArrays(Allocator.Temp);
+            for (int i = 0; i < keyValueArrays.Length; i++)
+            {
+                if (!m_PrefabSystem.TryGetPrefab(keyValueArrays.Keys[i], out PrefabBase prefab))
+                {
+                    continue;
+                }
+
+                TreeCensusCount count = keyValueArrays.Values[i];
+                m_CensusPrefabs[prefab.name] = keyValueArrays.Keys[i];
+                censusData.Add(new TreeCensusData()
+                {
+                    name = prefab.name,
+                    thumbnail = ImageSystem.GetThumbnail(prefab),
+                    child = count.m_Child,
+                    teen = count.m_Teen,
+                    adult = count.m_Adult,
+                    elderly = count.m_Elderly,
+                    dead = count.m_Dead,
+                    freeStanding = count.m_FreeStanding,
+                    owned = count.m_Owned,
+                });
+            }
+
+            keyValueArrays.Dispose();
+            m_CensusData = censusData.ToArray();
+            m_TreeControllerUISystem.UpdateCensus = true;
+        }
+
+        private struct TreeCensusCount
+        {
+            public int m_Child;
+            public int m_Teen;
+            public int m_Adult;
+            public int m_Elderly;
+            public int m_Dead;
+            public int m_FreeStanding;
+            public int m_Owned;
+        }
+
+#if BURST
+        [BurstCompile]
+#endif
+        private struct TreeCensusJob : IJobChunk
+        {
+            [ReadOnly]
+            public ComponentTypeHandle<Tree> m_TreeType;
+            [ReadOnly]
+            public ComponentTypeHandle<Owner> m_OwnerType;
+            [ReadOnly]
+            public ComponentTypeHandle<PrefabRef> m_PrefabRefType;
+            [ReadOnly]
+            public ComponentLookup<Vegetation> m_VegetationLookup;
+            public NativeHashMap<Entity, TreeCensusCount> m_Counts;
+
+            /// <summary>
+            /// Counts vegetation by prefab, age, and whether it is owned by a building or network.
+            /// </summary>
+            /// <param name="chunk">ArchetypeChunk of IJobChunk.</param>
+            /// <param name="unfilteredChunkIndex">Part of IJobChunk. Unused.</param>
+            /// <param name="useEnabledMask">Part of IJobChunk. Unsure what it does.</param>
+            /// <param name="chunkEnabledMask">Part of IJobChunk. Not sure what it does.</param>
+            public void Execute(in ArchetypeChunk chunk, int unfilteredChunkIndex, bool useEnabledMask, in v128 chunkEnabledMask)
+            {
+                NativeArray<Tree> treeNativeArray = chunk.GetNativeArray(ref m_TreeType);
+                NativeArray<PrefabRef> prefabRefNativeArray = chunk.GetNativeArray(ref m_PrefabRefType);
+                bool hasTree = chunk.Has(ref m_TreeType);
+                bool owned = chunk.Has(ref m_OwnerType);
+                for (int i = 0; i < chunk.Count; i++)
+                {
+                    Entity prefab = prefabRefNativeArray[i].m_Prefab;
+
+                    // This checks for plants that are not in the vegetation tab.
+                    if (!m_VegetationLookup.HasComponent(prefab))
+                    {
+                        continue;
+                    }
+
+                    m_Counts.TryGetValue(prefab, out TreeCensusCount count);
+                    if (owned)
+                    {
+                        count.m_Owned++;
+                    }
+                    else
+                    {
+                        count.m_FreeStanding++;
+                    }
+
+                    if (hasTree)
+                    {
+                        switch (TreeUtils.GetAge(treeNativeArray[i].m_State))
+                        {
+                            case Ages.Dead:
+                                count.m_Dead++;
+                                break;
+                            case Ages.Elderly:
+                                count.m_Elderly++;
+                                break;
+                            case Ages.Adult:
+                                count.m_Adult++;
+                                break;
+                            case Ages.Teen:
+                                count.m_Teen++;
+                                break;
+                            default:
+                                count.m_Child++;
+                                break;
+                        }
+                    }
+
+                    m_Counts[prefab] = count;
+                }
+            }
+        }
+    }
+}
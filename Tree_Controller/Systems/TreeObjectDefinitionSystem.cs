@@ -14,9 +14,11 @@ namespace Tree_Controller.Systems
     using Game.Objects;
     using Game.Prefabs;
     using Game.Tools;
+    using Tree_Controller.Settings;
     using Tree_Controller.Tools;
     using Unity.Collections;
     using Unity.Entities;
+    using Unity.Mathematics;
     using UnityEngine;
 
     /// <summary>
@@ -101,6 +103,16 @@ namespace Tree_Controller.Systems
                     }
                 }
 
+                // Moving an existing tree keeps its rotation. Without random or fixed rotation the vanilla rotation is kept.
+                TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+                if ((m_ToolSystem.activeTool == m_ObjectToolSystem || m_ToolSystem.activeTool.toolID == "Line Tool")
+                    && currentCreationDefinition.m_Original == Entity.Null
+                    && (settings.RandomRotation || settings.FixedRotation)
+                    && TrySetRotation(ref currentObjectDefinition, currentCreationDefinition.m_Owner, GetRotation(ref random)))
+                {
+                    EntityManager.SetComponentData(entity, currentObjectDefinition);
+                }
+
                 if (!EntityManager.HasComponent(prefabEntity, ComponentType.ReadOnly<TreeData>()))
                 {
                     return;
@@ -122,5 +134,52 @@ namespace Tree_Controller.Systems
             entities.Dispose();
         }
 
+        /// <summary>
+        /// Sets the rotation of an object definition and keeps the local rotation relative to its owner in sync.
+        /// </summary>
+        /// <param name="objectDefinition">The object definition to change.</param>
+        /// <param name="owner">The owner from the creation definition or Entity.Null.</param>
+        /// <param name="rotation">The new rotation in world space.</param>
+        /// <returns>True if the rotation was set. False if the owner has no transform to make the local rotation from.</returns>
+        private bool TrySetRotation(ref ObjectDefinition objectDefinition, Entity owner, quaternion rotation)
+        {
+            if (owner == Entity.Null)
+            {
+                objectDefinition.m_Rotation = rotation;
+                objectDefinition.m_LocalRotation = rotation;
+                return true;
+            }
+
+            if (!EntityManager.TryGetComponent(owner, out Game.Objects.Transform ownerTransform))
+            {
+                return false;
+            }
+
+            objectDefinition.m_Rotation = rotation;
+            objectDefinition.m_LocalRotation = math.mul(math.inverse(ownerTransform.m_Rotation), rotation);
+            return true;
+        }
+
+        /// <summary>
+        /// Gets the rotation for a tree or plant from the rotation options.
+        /// </summary>
+        /// <param name="random">Random seeded by the position of the object so the rotation only changes when it is moved.</param>
+        /// <returns>Rotation around the vertical axis.</returns>
+        private quaternion GetRotation(ref Unity.Mathematics.Random random)
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            if (settings.RandomRotation)
+            {
+                return quaternion.RotateY(random.NextFloat(2f * math.PI));
+            }
+
+            float angle = settings.RotationAngle;
+            if (settings.RotationJitter > 0)
+            {
+                angle += random.NextFloat(-settings.RotationJitter, settings.RotationJitter);
+            }
+
+            return quaternion.RotateY(math.radians(angle));
+        }
     }
 }
@@ -0,0 +1,115 @@
+﻿// <copyright file="FoliageColorInfoSection.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Tools
+{
+    using Colossal.Logging;
+    using Colossal.UI.Binding;
+    using Game.Objects;
+    using Game.UI.InGame;
+    using Tree_Controller.Systems;
+    using Unity.Entities;
+
+    /// <summary>
+    /// Selected object panel section for editing the seasonal foliage colors of the selected tree or plant's prefab.
+    /// </summary>
+    public partial class FoliageColorInfoSection : InfoSectionBase
+    {
+        private const string ModId = "Tree_Controller";
+
+        private ReloadFoliageColorDataSystem m_ReloadFoliageColorDataSystem;
+        private ValueBinding<FoliageColorData[]> m_FoliageColors;
+        private ValueBinding<bool> m_HasSavedFoliageColors;
+        private Entity m_PreviousPrefab = Entity.Null;
+        private ILog m_Log;
+
+        /// <inheritdoc/>
+        protected override string group => $"{ModId}.{nameof(FoliageColorInfoSection)}";
+
+        /// <inheritdoc/>
+        public override void OnWriteProperties(IJsonWriter writer)
+        {
+        }
+
+        /// <inheritdoc/>
+        protected override void OnCreate()
+        {
+            base.OnCreate();
+            m_Log = TreeControllerMod.Instance.Logger;
+            m_InfoUISystem.AddMiddleSection(this);
+            m_ReloadFoliageColorDataSystem = World.GetOrCreateSystemManaged<ReloadFoliageColorDataSystem>();
+
+            // This section handles binding couples between C# and UI.
+            AddBinding(m_FoliageColors = new ValueBinding<FoliageColorData[]>(ModId, "FoliageColors", new FoliageColorData[0], new ArrayWriter<FoliageColorData>(new ValueWriter<FoliageColorData>())));
+            AddBinding(m_HasSavedFoliageColors = new ValueBinding<bool>(ModId, "HasSavedFoliageColors", false));
+
+            // This section handles trigger bindings which listen for triggers from UI and then start an event.
+            AddBinding(new TriggerBinding<int, int, UnityEngine.Color>(ModId, "ChangeFoliageColor", ChangeFoliageColor));
+            AddBinding(new TriggerBinding(ModId, "SaveFoliageColors", SaveFoliageColors));
+            AddBinding(new TriggerBinding(ModId, "ResetFoliageColors", ResetFoliageColors));
+            m_Log.Info($"{nameof(FoliageColorInfoSection)}.{nameof(OnCreate)}");
+        }
+
+        /// <inheritdoc/>
+        protected override void OnUpdate()
+        {
+            base.OnUpdate();
+            visible = EntityManager.HasComponent<Plant>(selectedEntity) && m_ReloadFoliageColorDataSystem.HasSeasonalColors(selectedPrefab);
+            Entity prefab = visible ? selectedPrefab : Entity.Null;
+            if (prefab != m_PreviousPrefab)
+            {
+                // Unsaved colors are discarded when a different prefab is selected or the panel is closed.
+                m_ReloadFoliageColorDataSystem.ClearPreviewFoliageColors();
+                m_PreviousPrefab = prefab;
+                UpdateFoliageColors();
+            }
+
+            // Prefabs with colors saved by Recolor for every season are left to Recolor.
+            visible &= m_FoliageColors.value.Length > 0;
+        }
+
+        /// <inheritdoc/>
+        protected override void Reset()
+        {
+        }
+
+        /// <inheritdoc/>
+        protected override void OnProcess()
+        {
+        }
+
+        private void UpdateFoliageColors()
+        {
+            if (m_PreviousPrefab == Entity.Null)
+            {
+                m_FoliageColors.Update(new FoliageColorData[0]);
+                m_HasSavedFoliageColors.Update(false);
+                return;
+            }
+
+            m_FoliageColors.Update(m_ReloadFoliageColorDataSystem.GetFoliageColors(m_PreviousPrefab));
+            m_HasSavedFoliageColors.Update(m_ReloadFoliageColorDataSystem.HasSavedFoliageColors(m_PreviousPrefab));
+        }
+
+        private void ChangeFoliageColor(int index, int channel, UnityEngine.Color color)
+        {
+            m_ReloadFoliageColorDataSystem.PreviewFoliageColor(m_PreviousPrefab, index, channel, color);
+            UpdateFoliageColors();
+        }
+
+        private void SaveFoliageColors()
+        {
+            m_Log.Debug($"{nameof(FoliageColorInfoSection)}.{nameof(SaveFoliageColors)}");
+            m_ReloadFoliageColorDataSystem.SaveFoliageColors(m_PreviousPrefab);
+            UpdateFoliageColors();
+        }
+
+        private void ResetFoliageColors()
+        {
+            m_Log.Debug($"{nameof(FoliageColorInfoSection)}.{nameof(ResetFoliageColors)}");
+            m_ReloadFoliageColorDataSystem.ResetFoliageColors(m_PreviousPrefab);
+            UpdateFoliageColors();
+        }
+    }
+}
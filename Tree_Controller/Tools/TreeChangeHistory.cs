@@ -0,0 +1,307 @@
+﻿// <copyright file="TreeChangeHistory.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Tools
+{
+    using System;
+    using System.Collections.Generic;
+    using Game.Objects;
+    using Unity.Collections;
+    using Unity.Entities;
+
+    /// <summary>
+    /// The previous and new state of a tree or plant changed by the tree controller tool.
+    /// </summary>
+    public struct TreeChangeRecord
+    {
+        /// <summary>
+        /// The tree or plant entity.
+        /// </summary>
+        public Entity m_Entity;
+
+        /// <summary>
+        /// The prefab before the change. Equal to <see cref="m_NewPrefab"/> if the prefab was not changed.
+        /// </summary>
+        public Entity m_OldPrefab;
+
+        /// <summary>
+        /// The prefab after the change.
+        /// </summary>
+        public Entity m_NewPrefab;
+
+        /// <summary>
+        /// The tree component before the change.
+        /// </summary>
+        public Tree m_OldTree;
+
+        /// <summary>
+        /// The tree component after the change.
+        /// </summary>
+        public Tree m_NewTree;
+
+        /// <summary>
+        /// Whether the entity had a tree component before the change.
+        /// </summary>
+        public bool m_HadTree;
+
+        /// <summary>
+        /// Whether the entity has a tree component after the change.
+        /// </summary>
+        public bool m_HasTree;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="TreeChangeRecord"/> struct.
+        /// </summary>
+        /// <param name="entity">The tree or plant entity.</param>
+        /// <param name="oldPrefab">The prefab before the change.</param>
+        /// <param name="newPrefab">The prefab after the change.</param>
+        /// <param name="oldTree">The tree component before the change.</param>
+        /// <param name="newTree">The tree component after the change.</param>
+        /// <param name="hadTree">Whether the entity had a tree component before the change.</param>
+        /// <param name="hasTree">Whether the entity has a tree component after the change.</param>
+        public TreeChangeRecord(Entity entity, Entity oldPrefab, Entity newPrefab, Tree oldTree, Tree newTree, bool hadTree, bool hasTree)
+        {
+            m_Entity = entity;
+            m_OldPrefab = oldPrefab;
+            m_NewPrefab = newPrefab;
+            m_OldTree = oldTree;
+            m_NewTree = newTree;
+            m_HadTree = hadTree;
+            m_HasTree = hasTree;
+        }
+
+        /// <summary>
+        /// Gets a value indicating whether the tree component was added, removed or changed.
+        /// </summary>
+        public bool TreeChanged => m_HadTree != m_HasTree || m_OldTree.m_State != m_NewTree.m_State || m_OldTree.m_Growth != m_NewTree.m_Growth;
+    }
+
+    /// <summary>
+    /// The records of one apply of the tree controller tool.
+    /// </summary>
+    public class TreeChangeBatch : IDisposable
+    {
+        private NativeList<TreeChangeRecord> m_Records;
+        private bool m_Counted = false;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="TreeChangeBatch"/> class.
+        /// </summary>
+        /// <param name="toolMode">Tool mode of the apply.</param>
+        /// <param name="selection">Selection mode of the apply.</param>
+        public TreeChangeBatch(ToolMode toolMode, Selection selection)
+        {
+            ToolMode = toolMode;
+            Selection = selection;
+            m_Records = new NativeList<TreeChangeRecord>(Allocator.Persistent);
+        }
+
+        /// <summary>
+        /// Gets the tool mode of the apply.
+        /// </summary>
+        public ToolMode ToolMode { get; }
+
+        /// <summary>
+        /// Gets the selection mode of the apply.
+        /// </summary>
+        public Selection Selection { get; }
+
+        /// <summary>
+        /// Gets the records in the order they were applied.
+        /// </summary>
+        public NativeList<TreeChangeRecord> Records => m_Records;
+
+        /// <summary>
+        /// Gets the number of distinct trees affected.
+        /// </summary>
+        public int TreesAffected { get; private set; }
+
+        /// <summary>
+        /// Gets a value indicating whether the trees affected have been counted.
+        /// </summary>
+        public bool Counted => m_Counted;
+
+        /// <summary>
+        /// Counts the distinct trees affected once all records have been collected.
+        /// </summary>
+        public void CountTreesAffected()
+        {
+            NativeParallelHashSet<Entity> entities = new NativeParallelHashSet<Entity>(m_Records.Length, Allocator.Temp);
+            for (int i = 0; i < m_Records.Length; i++)
+            {
+                entities.Add(m_Records[i].m_Entity);
+            }
+
+            TreesAffected = entities.Count();
+            entities.Dispose();
+            m_Counted = true;
+        }
+
+        /// <inheritdoc/>
+        public void Dispose()
+        {
+            if (m_Records.IsCreated)
+            {
+                m_Records.Dispose();
+            }
+        }
+    }
+
+    /// <summary>
+    /// A bounded list of tree change batches that can be undone and redone.
+    /// </summary>
+    public class TreeChangeHistory : IDisposable
+    {
+        /// <summary>
+        /// The maximum number of batches kept.
+        /// </summary>
+        public const int MaxBatches = 20;
+
+        /// <summary>
+        /// The maximum number of records kept across all batches. Older batches are dropped first.
+        /// </summary>
+        public const int MaxRecords = 1000000;
+
+        private readonly List<TreeChangeBatch> m_Batches = new ();
+        private int m_AppliedCount = 0;
+
+        /// <summary>
+        /// Gets the batches from oldest to newest.
+        /// </summary>
+        public IReadOnlyList<TreeChangeBatch> Batches => m_Batches;
+
+        /// <summary>
+        /// Gets the number of batches that are applied. Batches after this can be redone.
+        /// </summary>
+        public int AppliedCount => m_AppliedCount;
+
+        /// <summary>
+        /// Gets a value indicating whether there is a batch to undo.
+        /// </summary>
+        public bool CanUndo => m_AppliedCount > 0;
+
+        /// <summary>
+        /// Gets a value indicating whether there is a batch to redo.
+        /// </summary>
+        public bool CanRedo => m_AppliedCount < m_Batches.Count;
+
+        /// <summary>
+        /// Adds a new batch and drops any batches that could have been redone.
+        /// </summary>
+        /// <param name="toolMode">Tool mode of the apply.</param>
+        /// <param name="selection">Selection mode of the apply.</param>
+        /// <returns>The new batch.</returns>
+        public TreeChangeBatch BeginBatch(ToolMode toolMode, Selection selection)
+        {
+            while (m_Batches.Count > m_AppliedCount)
+            {
+                RemoveAt(m_Batches.Count - 1);
+            }
+
+            TreeChangeBatch batch = new (toolMode, selection);
+            m_Batches.Add(batch);
+            m_AppliedCount = m_Batches.Count;
+            return batch;
+        }
+
+        /// <summary>
+        /// Gets the most recently applied batch and marks it as undone.
+        /// </summary>
+        /// <param name="batch">The batch to undo.</param>
+        /// <returns>True if there was a batch to undo.</returns>
+        public bool TryUndo(out TreeChangeBatch batch)
+        {
+            batch = null;
+            if (!CanUndo)
+            {
+                return false;
+            }
+
+            m_AppliedCount--;
+            batch = m_Batches[m_AppliedCount];
+            return true;
+        }
+
+        /// <summary>
+        /// Gets the oldest undone batch and marks it as applied.
+        /// </summary>
+        /// <param name="batch">The batch to redo.</param>
+        /// <returns>True if there was a batch to redo.</returns>
+        public bool TryRedo(out TreeChangeBatch batch)
+        {
+            batch = null;
+            if (!CanRedo)
+            {
+                return false;
+            }
+
+            batch = m_Batches[m_AppliedCount];
+            m_AppliedCount++;
+            return true;
+        }
+
+        /// <summary>
+        /// Counts trees in collected batches, removes empty batches and drops the oldest batches until the history is within its bounds.
+        /// </summary>
+        /// <param name="openBatch">A batch that is still collecting records and should not be removed.</param>
+        public void Trim(TreeChangeBatch openBatch)
+        {
+            int totalRecords = 0;
+            for (int i = m_Batches.Count - 1; i >= 0; i--)
+            {
+                if (m_Batches[i] == openBatch)
+                {
+                    totalRecords += m_Batches[i].Records.Length;
+                    continue;
+                }
+
+                if (m_Batches[i].Records.Length == 0)
+                {
+                    RemoveAt(i);
+                    continue;
+                }
+
+                if (!m_Batches[i].Counted)
+                {
+                    m_Batches[i].CountTreesAffected();
+                }
+
+                totalRecords += m_Batches[i].Records.Length;
+            }
+
+            while (m_Batches.Count > 1 && m_Batches[0] != openBatch && (m_Batches.Count > MaxBatches || totalRecords > MaxRecords))
+            {
+                totalRecords -= m_Batches[0].Records.Length;
+                RemoveAt(0);
+            }
+        }
+
+        /// <summary>
+        /// Removes all batches.
+        /// </summary>
+        public void Clear()
+        {
+            while (m_Batches.Count > 0)
+            {
+                RemoveAt(m_Batches.Count - 1);
+            }
+        }
+
+        /// <inheritdoc/>
+        public void Dispose()
+        {
+            Clear();
+        }
+
+        private void RemoveAt(int index)
+        {
+            m_Batches[index].Dispose();
+            m_Batches.RemoveAt(index);
+            if (index < m_AppliedCount)
+            {
+                m_AppliedCount--;
+            }
+        }
+    }
+}
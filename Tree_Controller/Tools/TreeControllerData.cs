@@ -4,6 +4,8 @@
 
 namespace Tree_Controller.Tools
 {
+    using Colossal.UI.Binding;
+
     /// <summary>
     /// A enum of Ages that are selected.
     /// </summary>
@@ -69,6 +71,16 @@ namespace Tree_Controller.Tools
         /// Tree controller change type mode.
         /// </summary>
         ChangeType = 3,
+
+        /// <summary>
+        /// Tree controller mode that stops selected trees from growing.
+        /// </summary>
+        FreezeGrowth = 4,
+
+        /// <summary>
+        /// Tree controller mode that lets selected trees grow again.
+        /// </summary>
+        ResumeGrowth = 5,
     }
 
     /// <summary>
@@ -95,6 +107,477 @@ namespace Tree_Controller.Tools
         /// Whole map.
         /// </summary>
         Map = 3,
+
+        /// <summary>
+        /// Rectangle dragged between two corners.
+        /// </summary>
+        Rectangle = 4,
+
+        /// <summary>
+        /// Polygon drawn by clicking points.
+        /// </summary>
+        Lasso = 5,
+
+        /// <summary>
+        /// An existing district.
+        /// </summary>
+        District = 6,
+    }
+
+    /// <summary>
+    /// A enum of tree owners that Change Age and Change Type are allowed to affect.
+    /// </summary>
+    public enum TreeOwners
+    {
+        /// <summary>
+        /// No trees are affected.
+        /// </summary>
+        None = 0,
+
+        /// <summary>
+        /// Trees that are not owned by anything.
+        /// </summary>
+        FreeStanding = 1,
+
+        /// <summary>
+        /// Trees owned by a building.
+        /// </summary>
+        Building = 2,
+
+        /// <summary>
+        /// Trees owned by a road or other network.
+        /// </summary>
+        Network = 4,
+
+        /// <summary>
+        /// Every tree.
+        /// </summary>
+        All = 7,
+    }
+
+    /// <summary>
+    /// An enum for built-in age distributions.
+    /// </summary>
+    public enum AgePreset
+    {
+        /// <summary>
+        /// Every age has the same weight.
+        /// </summary>
+        Equal = 0,
+
+        /// <summary>
+        /// The editor's approximation of a forest.
+        /// </summary>
+        Forest = 1,
+
+        /// <summary>
+        /// Mostly saplings and young trees.
+        /// </summary>
+        YoungPlantation = 2,
+
+        /// <summary>
+        /// Mostly mature and old trees.
+        /// </summary>
+        OldGrowthForest = 3,
+
+        /// <summary>
+        /// Mostly old and dead trees.
+        /// </summary>
+        DyingGrove = 4,
+    }
+
+    /// <summary>
+    /// An enum for the result of importing a prefab set.
+    /// </summary>
+    public enum ImportStatus
+    {
+        /// <summary>
+        /// Nothing has been imported.
+        /// </summary>
+        None = 0,
+
+        /// <summary>
+        /// All prefabs in the set were found.
+        /// </summary>
+        Imported = 1,
+
+        /// <summary>
+        /// The set was imported but some prefabs are not loaded.
+        /// </summary>
+        ImportedWithMissingPrefabs = 2,
+
+        /// <summary>
+        /// The text could not be read as an exported set.
+        /// </summary>
+        Invalid = 3,
+    }
+
+    /// <summary>
+    /// An enum for the overlay that colors trees while the Tree Controller tool is active.
+    /// </summary>
+    public enum TreeOverlay
+    {
+        /// <summary>
+        /// No overlay.
+        /// </summary>
+        None = 0,
+
+        /// <summary>
+        /// Colors trees by age.
+        /// </summary>
+        Age = 1,
+
+        /// <summary>
+        /// Colors trees by selected prefabs and built-in prefab sets.
+        /// </summary>
+        PrefabSet = 2,
+
+        /// <summary>
+        /// Colors trees by frozen, lumber, stopped, or growing.
+        /// </summary>
+        Growth = 3,
+    }
+
+    /// <summary>
+    /// A JsonWritable binding for a prefab set shown in the Sets section.
+    /// </summary>
+    public struct PrefabSetData : IJsonWritable
+    {
+        /// <summary>
+        /// The id used when changing prefab set.
+        /// </summary>
+        public string id;
+
+        /// <summary>
+        /// The name of the set.
+        /// </summary>
+        public string name;
+
+        /// <summary>
+        /// The icon path of the set or empty to show the set's number.
+        /// </summary>
+        public string icon;
+
+        /// <summary>
+        /// The number of prefabs in the set.
+        /// </summary>
+        public int count;
+
+        /// <inheritdoc/>
+        public void Write(IJsonWriter writer)
+        {
+            writer.TypeBegin(GetType().FullName);
+            writer.PropertyName(nameof(id));
+            writer.Write(id);
+            writer.PropertyName(nameof(name));
+            writer.Write(name);
+            writer.PropertyName(nameof(icon));
+            writer.Write(icon);
+            writer.PropertyName(nameof(count));
+            writer.Write(count);
+            writer.TypeEnd();
+        }
+    }
+
+    /// <summary>
+    /// A JsonWritable binding for a prefab set registered by another mod shown in the Sets section.
+    /// </summary>
+    public struct RegisteredPrefabSetData : IJsonWritable
+    {
+        /// <summary>
+        /// The id used when changing prefab set.
+        /// </summary>
+        public string id;
+
+        /// <summary>
+        /// The locale key or plain text for the name of the set.
+        /// </summary>
+        public string name;
+
+        /// <summary>
+        /// The locale key or plain text for the description of the set.
+        /// </summary>
+        public string description;
+
+        /// <summary>
+        /// The icon path of the set.
+        /// </summary>
+        public string icon;
+
+        /// <summary>
+        /// The number of prefabs in the set that are loaded.
+        /// </summary>
+        public int count;
+
+        /// <inheritdoc/>
+        public void Write(IJsonWriter writer)
+        {
+            writer.TypeBegin(GetType().FullName);
+            writer.PropertyName(nameof(id));
+            writer.Write(id);
+            writer.PropertyName(nameof(name));
+            writer.Write(name);
+            writer.PropertyName(nameof(description));
+            writer.Write(description);
+            writer.PropertyName(nameof(icon));
+            writer.Write(icon);
+            writer.PropertyName(nameof(count));
+            writer.Write(count);
+            writer.TypeEnd();
+        }
+    }
+
+    /// <summary>
+    /// A JsonWritable binding for a prefab and its weight shown in the Composition section.
+    /// </summary>
+    public struct PrefabWeightData : IJsonWritable
+    {
+        /// <summary>
+        /// The name of the prefab.
+        /// </summary>
+        public string name;
+
+        /// <summary>
+        /// The thumbnail path of the prefab.
+        /// </summary>
+        public string thumbnail;
+
+        /// <summary>
+        /// The weight used when randomly picking the prefab.
+        /// </summary>
+        public int weight;
+
+        /// <inheritdoc/>
+        public void Write(IJsonWriter writer)
+        {
+            writer.TypeBegin(GetType().FullName);
+            writer.PropertyName(nameof(name));
+            writer.Write(name);
+            writer.PropertyName(nameof(thumbnail));
+            writer.Write(thumbnail);
+            writer.PropertyName(nameof(weight));
+            writer.Write(weight);
+            writer.TypeEnd();
+        }
+    }
+
+    /// <summary>
+    /// A JsonWritable binding for a prefab and the number of trees counted for it.
+    /// </summary>
+    public struct PrefabCountData : IJsonWritable
+    {
+        /// <summary>
+        /// The name of the prefab.
+        /// </summary>
+        public string name;
+
+        /// <summary>
+        /// The number of trees.
+        /// </summary>
+        public int count;
+
+        /// <inheritdoc/>
+        public void Write(IJsonWriter writer)
+        {
+            writer.TypeBegin(GetType().FullName);
+            writer.PropertyName(nameof(name));
+            writer.Write(name);
+            writer.PropertyName(nameof(count));
+            writer.Write(count);
+            writer.TypeEnd();
+        }
+    }
+
+    /// <summary>
+    /// A JsonWritable binding for the counts of one prefab shown in the tree census panel.
+    /// </summary>
+    public struct TreeCensusData : IJsonWritable
+    {
+        /// <summary>
+        /// The name of the prefab.
+        /// </summary>
+        public string name;
+
+        /// <summary>
+        /// The thumbnail path of the prefab.
+        /// </summary>
+        public string thumbnail;
+
+        /// <summary>
+        /// The number of child trees.
+        /// </summary>
+        public int child;
+
+        /// <summary>
+        /// The number of teen trees.
+        /// </summary>
+        public int teen;
+
+        /// <summary>
+        /// The number of adult trees.
+        /// </summary>
+        public int adult;
+
+        /// <summary>
+        /// The number of elderly trees.
+        /// </summary>
+        public int elderly;
+
+        /// <summary>
+        /// The number of dead trees and stumps.
+        /// </summary>
+        public int dead;
+
+        /// <summary>
+        /// The number of trees and plants that are not owned by a building or network.
+        /// </summary>
+        public int freeStanding;
+
+        /// <summary>
+        /// The number of trees and plants owned by a building or network.
+        /// </summary>
+        public int owned;
+
+        /// <inheritdoc/>
+        public void Write(IJsonWriter writer)
+        {
+            writer.TypeBegin(GetType().FullName);
+            writer.PropertyName(nameof(name));
+            writer.Write(name);
+            writer.PropertyName(nameof(thumbnail));
+            writer.Write(thumbnail);
+            writer.PropertyName(nameof(child));
+            writer.Write(child);
+            writer.PropertyName(nameof(teen));
+            writer.Write(teen);
+            writer.PropertyName(nameof(adult));
+            writer.Write(adult);
+            writer.PropertyName(nameof(elderly));
+            writer.Write(elderly);
+            writer.PropertyName(nameof(dead));
+            writer.Write(dead);
+            writer.PropertyName(nameof(freeStanding));
+            writer.Write(freeStanding);
+            writer.PropertyName(nameof(owned));
+            writer.Write(owned);
+            writer.TypeEnd();
+        }
+    }
+
+    /// <summary>
+    /// A JsonWritable binding for a batch of changes shown in the History section.
+    /// </summary>
+    public struct TreeChangeBatchData : IJsonWritable
+    {
+        /// <summary>
+        /// The tool mode of the apply.
+        /// </summary>
+        public int toolMode;
+
+        /// <summary>
+        /// The selection mode of the apply.
+        /// </summary>
+        public int selection;
+
+        /// <summary>
+        /// The number of trees affected.
+        /// </summary>
+        public int trees;
+
+        /// <summary>
+        /// Whether the batch has been undone.
+        /// </summary>
+        public bool undone;
+
+        /// <inheritdoc/>
+        public void Write(IJsonWriter writer)
+        {
+            writer.TypeBegin(GetType().FullName);
+            writer.PropertyName(nameof(toolMode));
+            writer.Write(toolMode);
+            writer.PropertyName(nameof(selection));
+            writer.Write(selection);
+            writer.PropertyName(nameof(trees));
+            writer.Write(trees);
+            writer.PropertyName(nameof(undone));
+            writer.Write(undone);
+            writer.TypeEnd();
+        }
+    }
+
+    /// <summary>
+    /// A JsonWritable binding for the colors of one seasonal color variation of a tree or plant prefab.
+    /// </summary>
+    public struct FoliageColorData : IJsonWritable
+    {
+        /// <summary>
+        /// The index of the color variation in the prefab's color variation buffer.
+        /// </summary>
+        public int index;
+
+        /// <summary>
+        /// The season of the color variation.
+        /// </summary>
+        public int season;
+
+        /// <summary>
+        /// The color of the first channel.
+        /// </summary>
+        public UnityEngine.Color channel0;
+
+        /// <summary>
+        /// The color of the second channel.
+        /// </summary>
+        public UnityEngine.Color channel1;
+
+        /// <summary>
+        /// The color of the third channel.
+        /// </summary>
+        public UnityEngine.Color channel2;
+
+        /// <inheritdoc/>
+        public void Write(IJsonWriter writer)
+        {
+            writer.TypeBegin(GetType().FullName);
+            writer.PropertyName(nameof(index));
+            writer.Write(index);
+            writer.PropertyName(nameof(season));
+            writer.Write(season);
+            writer.PropertyName(nameof(channel0));
+            writer.Write(channel0);
+            writer.PropertyName(nameof(channel1));
+            writer.Write(channel1);
+            writer.PropertyName(nameof(channel2));
+            writer.Write(channel2);
+            writer.TypeEnd();
+        }
+    }
+
+    /// <summary>
+    /// A JsonWritable binding for the current key binding of an input action shown in tooltips.
+    /// </summary>
+    public struct KeyBindingData : IJsonWritable
+    {
+        /// <summary>
+        /// The name of the input action.
+        /// </summary>
+        public string action;
+
+        /// <summary>
+        /// The display text of the key binding or empty if the action is unbound.
+        /// </summary>
+        public string binding;
+
+        /// <inheritdoc/>
+        public void Write(IJsonWriter writer)
+        {
+            writer.TypeBegin(GetType().FullName);
+            writer.PropertyName(nameof(action));
+            writer.Write(action);
+            writer.PropertyName(nameof(binding));
+            writer.Write(binding);
+            writer.TypeEnd();
+        }
     }
 
     /*
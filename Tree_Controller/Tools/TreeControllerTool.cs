@@ -8,9 +8,11 @@ namespace Tree_Controller.Tools
 {
     using System;
     using System.Collections.Generic;
+    using System.Linq;
     using Colossal.Annotations;
     using Colossal.Entities;
     using Colossal.Logging;
+    using Colossal.Mathematics;
     using Colossal.Serialization.Entities;
     using Game;
     using Game.Common;
@@ -21,6 +23,8 @@ namespace Tree_Controller.Tools
     using Game.Rendering;
     using Game.Tools;
     using Tree_Controller;
+    using Tree_Controller.Settings;
+    using Tree_Controller.Utils;
     using Unity.Burst;
     using Unity.Burst.Intrinsics;
     using Unity.Collections;
@@ -36,17 +40,55 @@ namespace Tree_Controller.Tools
     /// </summary>
     public partial class TreeControllerTool : ToolBaseSystem
     {
+        private const float LassoCloseDistance = 10f;
+        private const int WholeMapPreviewInterval = 60;
+        private const float OverlayMarkerScale = 0.012f;
+        private const float OverlayMinMarker = 3f;
+        private const float OverlayMaxMarker = 48f;
+        private const float OverlayMaxDistance = OverlayMaxMarker / OverlayMarkerScale;
         private ProxyAction m_ApplyAction;
         private ProxyAction m_SecondaryApplyAction;
+        private ProxyAction m_AddPickedTreeAction;
+        private ProxyAction m_UndoAction;
+        private ProxyAction m_RedoAction;
         private OverlayRenderSystem m_OverlayRenderSystem;
+        private CameraUpdateSystem m_CameraUpdateSystem;
         private ToolOutputBarrier m_ToolOutputBarrier;
         private EntityQuery m_VegetationQuery;
         private ObjectToolSystem m_ObjectToolSystem;
         private NativeList<Entity> m_SelectedTreePrefabEntities;
+        private NativeList<float> m_SelectedTreePrefabWeights;
+        private NativeList<Entity> m_SourcePrefabEntities;
+        private NativeList<float3> m_SelectionPoints;
+        private float3 m_LastSelectionHitPosition;
         [CanBeNull]
         private PrefabBase m_OriginallySelectedPrefab;
         private ILog m_Log;
         private TreeControllerUISystem m_TreeControllerUISystem;
+        private TreeChangeHistory m_History;
+        private NativeQueue<TreeChangeRecord> m_HistoryQueue;
+        private NativeList<TreeChangeRecord> m_PendingRecords;
+        private ToolMode m_PendingToolMode;
+        private Selection m_PendingSelection;
+        private JobHandle m_HistoryJobHandle;
+        private TreeChangeBatch m_OpenBatch;
+        private NativeHashMap<Entity, int> m_PreviewPrefabCounts;
+        private NativeArray<int> m_PreviewAgeCounts;
+        private JobHandle m_PreviewJobHandle;
+        private bool m_PreviewPending;
+        private int m_WholeMapPreviewCooldown;
+        private int m_WholeMapPreviewKey;
+        private Selection m_PreviewSelection;
+        private int m_PreviewTreeCount;
+        private int[] m_PreviewAgeCountData = new int[5];
+        private PrefabCountData[] m_PreviewPrefabCountData = new PrefabCountData[0];
+        private bool m_WholeMapApplyConfirmed;
+        private NativeHashMap<Entity, int> m_PrefabSets;
+        private int m_PrefabSetsCustomVersion;
+        private int m_PrefabSetsRegisteredVersion;
+        private JobHandle m_OverlayJobHandle;
+        private Entity m_HoveredTree;
+        private TreeOwners m_HoveredTreeOwner;
 
         /// <inheritdoc/>
         public override string toolID => "Tree Controller Tool";
@@ -56,6 +98,39 @@ namespace Tree_Controller.Tools
         /// </summary>
         public PrefabBase OriginallySelectedPrefab { get => m_OriginallySelectedPrefab; set => m_OriginallySelectedPrefab = value; }
 
+        /// <summary>
+        /// Gets the number of trees the current selection would change.
+        /// </summary>
+        public int PreviewTreeCount => m_PreviewTreeCount;
+
+        /// <summary>
+        /// Tries to get the tree or plant under the cursor while the eyedropper is active.
+        /// </summary>
+        /// <param name="tree">The hovered tree or plant.</param>
+        /// <param name="owner">Whether the tree is free-standing or owned by a building or network.</param>
+        /// <returns>True if the eyedropper is over a tree or plant.</returns>
+        public bool TryGetHoveredTree(out Entity tree, out TreeOwners owner)
+        {
+            tree = m_HoveredTree;
+            owner = m_HoveredTreeOwner;
+            return m_HoveredTree != Entity.Null && EntityManager.Exists(m_HoveredTree);
+        }
+
+        /// <summary>
+        /// Gets a value indicating whether the tool mode freezes or resumes growth instead of changing age or type.
+        /// </summary>
+        private bool ChangingGrowth => m_TreeControllerUISystem.CurrentToolMode == ToolMode.FreezeGrowth || m_TreeControllerUISystem.CurrentToolMode == ToolMode.ResumeGrowth;
+
+        /// <summary>
+        /// Gets a value indicating whether the selected ages are applied. Ages are left alone while freezing or resuming growth.
+        /// </summary>
+        private bool OverrideState => m_TreeControllerUISystem.AtLeastOneAgeSelected && !ChangingGrowth;
+
+        /// <summary>
+        /// Gets a value indicating whether the selected prefabs are applied. Prefabs are left alone while freezing or resuming growth.
+        /// </summary>
+        private bool OverridePrefab => !m_SelectedTreePrefabEntities.IsEmpty && !ChangingGrowth;
+
         /// <summary>
         /// Adds the selected Prefab to the list by finding prefab entity.
         /// </summary>
@@ -66,13 +141,16 @@ namespace Tree_Controller.Tools
 
             if (EntityManager.HasComponent<Vegetation>(prefabEntity) && !m_SelectedTreePrefabEntities.Contains(prefabEntity))
             {
+                CompleteSelectionJobs();
                 m_SelectedTreePrefabEntities.Add(prefabEntity);
+                m_SelectedTreePrefabWeights.Add(CustomSetRepository.DefaultPrefabWeight);
                 if (m_OriginallySelectedPrefab == null)
                 {
                     m_OriginallySelectedPrefab = prefab;
                 }
 
                 m_TreeControllerUISystem.UpdateSelectionSet = true;
+                m_TreeControllerUISystem.UpdateSetComposition = true;
                 m_Log.Debug($"{nameof(TreeControllerTool)}.{nameof(SelectTreePrefab)} selected {prefab.name} prefabEntity = {prefabEntity.Index}.{prefabEntity.Version}");
                 if (m_ToolSystem.activeTool == this || m_ToolSystem.activeTool.toolID == "Line Tool")
                 {
@@ -95,7 +173,10 @@ namespace Tree_Controller.Tools
             Entity prefabEntity = m_PrefabSystem.GetEntity(prefab);
             if (m_SelectedTreePrefabEntities.Contains(prefabEntity))
             {
-                m_SelectedTreePrefabEntities.RemoveAt(m_SelectedTreePrefabEntities.IndexOf(prefabEntity));
+                CompleteSelectionJobs();
+                int index = m_SelectedTreePrefabEntities.IndexOf(prefabEntity);
+                m_SelectedTreePrefabEntities.RemoveAt(index);
+                m_SelectedTreePrefabWeights.RemoveAt(index);
                 m_Log.Debug($"{nameof(TreeControllerTool)}.{nameof(UnselectTreePrefab)} removed {prefab.name} prefabEntity = {prefabEntity.Index}.{prefabEntity.Version}");
                 if (m_SelectedTreePrefabEntities.Length == 0)
                 {
@@ -103,6 +184,7 @@ namespace Tree_Controller.Tools
                 }
 
                 m_TreeControllerUISystem.UpdateSelectionSet = true;
+                m_TreeControllerUISystem.UpdateSetComposition = true;
                 if (m_ToolSystem.activeTool == this || m_ToolSystem.activeTool.toolID == "Line Tool")
                 {
                     m_ToolSystem.EventPrefabChanged?.Invoke(prefab);
@@ -129,8 +211,47 @@ namespace Tree_Controller.Tools
         /// </summary>
         public void ClearSelectedTreePrefabs()
         {
+            CompleteSelectionJobs();
             m_SelectedTreePrefabEntities.Clear();
+            m_SelectedTreePrefabWeights.Clear();
             m_OriginallySelectedPrefab = null;
+            m_TreeControllerUISystem.UpdateSetComposition = true;
+        }
+
+        /// <summary>
+        /// Gets the weight of a selected prefab.
+        /// </summary>
+        /// <param name="prefab">A selected prefab.</param>
+        /// <returns>The weight of the prefab or 0 if it is not selected.</returns>
+        public int GetPrefabWeight(PrefabBase prefab)
+        {
+            int index = m_SelectedTreePrefabEntities.IndexOf(m_PrefabSystem.GetEntity(prefab));
+            if (index < 0)
+            {
+                return 0;
+            }
+
+            return (int)m_SelectedTreePrefabWeights[index];
+        }
+
+        /// <summary>
+        /// Sets the weight used when randomly picking a selected prefab.
+        /// </summary>
+        /// <param name="prefab">A selected prefab.</param>
+        /// <param name="weight">The new weight.</param>
+        /// <returns>True if the prefab is selected.</returns>
+        public bool SetPrefabWeight(PrefabBase prefab, int weight)
+        {
+            int index = m_SelectedTreePrefabEntities.IndexOf(m_PrefabSystem.GetEntity(prefab));
+            if (index < 0)
+            {
+                return false;
+            }
+
+            CompleteSelectionJobs();
+            m_SelectedTreePrefabWeights[index] = CustomSetRepository.ClampPrefabWeight(weight);
+            m_TreeControllerUISystem.UpdateSetComposition = true;
+            return true;
         }
 
         /// <summary>
@@ -233,7 +354,11 @@ namespace Tree_Controller.Tools
         public override void InitializeRaycast()
         {
             base.InitializeRaycast();
-            if (m_TreeControllerUISystem.SelectionMode == Selection.Single)
+            if (m_TreeControllerUISystem.EyedropperActive)
+            {
+                m_ToolRaycastSystem.typeMask = TypeMask.StaticObjects;
+            }
+            else if (m_TreeControllerUISystem.SelectionMode == Selection.Single)
             {
                 m_ToolRaycastSystem.typeMask = TypeMask.StaticObjects | TypeMask.Net;
                 m_ToolRaycastSystem.netLayerMask = Layer.Road | Layer.PublicTransportRoad;
@@ -251,6 +376,23 @@ namespace Tree_Controller.Tools
             {
                 m_ToolRaycastSystem.typeMask = TypeMask.Terrain;
             }
+            else if (m_TreeControllerUISystem.SelectionMode == Selection.Rectangle || m_TreeControllerUISystem.SelectionMode == Selection.Lasso)
+            {
+                m_ToolRaycastSystem.typeMask = TypeMask.Terrain;
+            }
+            else if (m_TreeControllerUISystem.SelectionMode == Selection.District)
+            {
+                m_ToolRaycastSystem.typeMask = TypeMask.Areas;
+                m_ToolRaycastSystem.areaTypeMask = Game.Areas.AreaTypeMask.Districts;
+            }
+        }
+
+        /// <summary>
+        /// Clears the corners or points placed for rectangle and lasso selections.
+        /// </summary>
+        public void ClearSelectionPoints()
+        {
+            m_SelectionPoints.Clear();
         }
 
         /// <summary>
@@ -265,7 +407,7 @@ namespace Tree_Controller.Tools
         /// Gets a prefab entity from the selected tree prefabs given a random parameter.
         /// </summary>
         /// <param name="random">A source of randomness.</param>
-        /// <returns>A random prefab entity from selected or Enity.null.</returns>
+        /// <returns>A weighted random prefab entity from selected or Enity.null.</returns>
         public Entity GetNextPrefabEntity(ref Unity.Mathematics.Random random)
         {
             if (m_SelectedTreePrefabEntities.Length > 0)
@@ -276,18 +418,167 @@ namespace Tree_Controller.Tools
                     random.NextInt();
                 }
 
-                Entity result = m_SelectedTreePrefabEntities[random.NextInt(m_SelectedTreePrefabEntities.Length)];
-
-                return result;
+                return TreeUtils.GetPrefabEntity(ref random, m_SelectedTreePrefabEntities, m_SelectedTreePrefabWeights);
             }
 
             return Entity.Null;
         }
 
+        /// <summary>
+        /// Reverts the most recently applied batch of tree changes.
+        /// </summary>
+        public void Undo()
+        {
+            CollectTreeChanges();
+            m_OpenBatch = null;
+            if (!m_History.TryUndo(out TreeChangeBatch batch))
+            {
+                return;
+            }
+
+            ApplyTreeChanges(batch, undo: true);
+            m_Log.Debug($"{nameof(TreeControllerTool)}.{nameof(Undo)} reverted {batch.Records.Length} changes.");
+            m_TreeControllerUISystem.UpdateHistory = true;
+        }
+
+        /// <summary>
+        /// Reapplies the most recently undone batch of tree changes.
+        /// </summary>
+        public void Redo()
+        {
+            CollectTreeChanges();
+            m_OpenBatch = null;
+            if (!m_History.TryRedo(out TreeChangeBatch batch))
+            {
+                return;
+            }
+
+            ApplyTreeChanges(batch, undo: false);
+            m_Log.Debug($"{nameof(TreeControllerTool)}.{nameof(Redo)} reapplied {batch.Records.Length} changes.");
+            m_TreeControllerUISystem.UpdateHistory = true;
+        }
+
+        /// <summary>
+        /// Gets the number of trees the current selection would change for each age from child to dead.
+        /// </summary>
+        /// <returns>Array of counts aligned with the ages.</returns>
+        public int[] GetPreviewAgeCounts()
+        {
+            return m_PreviewAgeCountData;
+        }
+
+        /// <summary>
+        /// Gets the number of trees the current selection would change for each prefab.
+        /// </summary>
+        /// <returns>Array of prefab counts from most to least trees.</returns>
+        public PrefabCountData[] GetPreviewPrefabCounts()
+        {
+            return m_PreviewPrefabCountData;
+        }
+
+        /// <summary>
+        /// Applies the whole map change that was waiting for confirmation on the next update.
+        /// </summary>
+        public void ConfirmWholeMapApply()
+        {
+            m_WholeMapApplyConfirmed = true;
+        }
+
+        /// <summary>
+        /// Uses the selected prefabs as the source prefab filter so that only trees of those prefabs are changed.
+        /// </summary>
+        public void SetSourcePrefabsFromSelection()
+        {
+            m_SourcePrefabEntities.Clear();
+            m_SourcePrefabEntities.AddRange(m_SelectedTreePrefabEntities.AsArray());
+            m_Log.Debug($"{nameof(TreeControllerTool)}.{nameof(SetSourcePrefabsFromSelection)} {m_SourcePrefabEntities.Length} source prefabs.");
+        }
+
+        /// <summary>
+        /// Adds a prefab to the source prefab filter or removes it if it is already there.
+        /// </summary>
+        /// <param name="prefab">Prefab to add or remove.</param>
+        /// <param name="addToSelection">True to keep the other source prefabs, false to replace them.</param>
+        public void ToggleSourcePrefab(PrefabBase prefab, bool addToSelection)
+        {
+            Entity prefabEntity = m_PrefabSystem.GetEntity(prefab);
+            int index = m_SourcePrefabEntities.IndexOf(prefabEntity);
+            if (addToSelection && index >= 0)
+            {
+                m_SourcePrefabEntities.RemoveAt(index);
+            }
+            else
+            {
+                if (!addToSelection)
+                {
+                    m_SourcePrefabEntities.Clear();
+                }
+
+                m_SourcePrefabEntities.Add(prefabEntity);
+            }
+
+            m_Log.Debug($"{nameof(TreeControllerTool)}.{nameof(ToggleSourcePrefab)} {m_SourcePrefabEntities.Length} source prefabs.");
+        }
+
+        /// <summary>
+        /// Clears the source prefab filter so that trees of every prefab are changed.
+        /// </summary>
+        public void ClearSourcePrefabs()
+        {
+            m_SourcePrefabEntities.Clear();
+        }
+
+        /// <summary>
+        /// Gets the names of the prefabs in the source prefab filter.
+        /// </summary>
+        /// <returns>Array of prefab names.</returns>
+        public string[] GetSourcePrefabNames()
+        {
+            List<string> names = new List<string>();
+            foreach (Entity prefabEntity in m_SourcePrefabEntities)
+            {
+                if (m_PrefabSystem.TryGetPrefab(prefabEntity, out PrefabBase prefab))
+                {
+                    names.Add(prefab.name);
+                }
+            }
+
+            return names.ToArray();
+        }
+
+        /// <summary>
+        /// Gets the history of tree changes for the UI.
+        /// </summary>
+        /// <returns>Array of batches from newest to oldest.</returns>
+        public TreeChangeBatchData[] GetHistoryData()
+        {
+            IReadOnlyList<TreeChangeBatch> batches = m_History.Batches;
+            TreeChangeBatchData[] historyData = new TreeChangeBatchData[batches.Count];
+            for (int i = 0; i < batches.Count; i++)
+            {
+                historyData[batches.Count - 1 - i] = new TreeChangeBatchData()
+                {
+                    toolMode = (int)batches[i].ToolMode,
+                    selection = (int)batches[i].Selection,
+                    trees = batches[i].Counted ? batches[i].TreesAffected : batches[i].Records.Length,
+                    undone = i >= m_History.AppliedCount,
+                };
+            }
+
+            return historyData;
+        }
+
         /// <inheritdoc/>
         protected override void OnGameLoadingComplete(Purpose purpose, GameMode mode)
         {
             base.OnGameLoadingComplete(purpose, mode);
+            m_HistoryJobHandle.Complete();
+            m_PendingRecords.Clear();
+            m_OpenBatch = null;
+            m_History.Clear();
+            m_TreeControllerUISystem.UpdateHistory = true;
+            m_OverlayJobHandle.Complete();
+            m_PrefabSets.Clear();
             m_Log.Debug($"{nameof(TreeControllerTool)}.{nameof(OnGameLoadingComplete)} Old Tool Order:");
             foreach (ToolBaseSystem toolBaseSystem in m_ToolSystem.tools)
             {
@@ -311,12 +602,24 @@ namespace Tree_Controller.Tools
             m_Log = TreeControllerMod.Instance.Logger;
             m_ApplyAction = InputManager.instance.FindAction("Tool", "Apply");
             m_SecondaryApplyAction = InputManager.instance.FindAction("Tool", "Secondary Apply");
+            m_AddPickedTreeAction = TreeControllerMod.Instance.Settings.GetAction(TreeControllerMod.AddPickedTreeActionName);
+            m_UndoAction = TreeControllerMod.Instance.Settings.GetAction(TreeControllerMod.UndoActionName);
+            m_RedoAction = TreeControllerMod.Instance.Settings.GetAction(TreeControllerMod.RedoActionName);
             m_Log.Info($"[{nameof(TreeControllerTool)}] {nameof(OnCreate)}");
             m_ToolOutputBarrier = World.GetOrCreateSystemManaged<ToolOutputBarrier>();
             m_OverlayRenderSystem = World.GetOrCreateSystemManaged<OverlayRenderSystem>();
+            m_CameraUpdateSystem = World.GetOrCreateSystemManaged<CameraUpdateSystem>();
             m_ObjectToolSystem = World.GetOrCreateSystemManaged<ObjectToolSystem>();
             m_TreeControllerUISystem = World.GetOrCreateSystemManaged<TreeControllerUISystem>();
             m_SelectedTreePrefabEntities = new NativeList<Entity>(0, Allocator.Persistent);
+            m_SelectedTreePrefabWeights = new NativeList<float>(0, Allocator.Persistent);
+            m_SourcePrefabEntities = new NativeList<Entity>(0, Allocator.Persistent);
+            m_SelectionPoints = new NativeList<float3>(0, Allocator.Persistent);
+            m_PendingRecords = new NativeList<TreeChangeRecord>(0, Allocator.Persistent);
+            m_PreviewPrefabCounts = new NativeHashMap<Entity, int>(0, Allocator.Persistent);
+            m_PreviewAgeCounts = new NativeArray<int>(5, Allocator.Persistent);
+            m_PrefabSets = new NativeHashMap<Entity, int>(0, Allocator.Persistent);
+            m_History = new TreeChangeHistory();
             base.OnCreate();
 
             m_VegetationQuery = GetEntityQuery(new EntityQueryDesc[]
@@ -350,6 +653,9 @@ namespace Tree_Controller.Tools
         {
             m_ApplyAction.shouldBeEnabled = true;
             m_SecondaryApplyAction.shouldBeEnabled = true;
+            m_AddPickedTreeAction.shouldBeEnabled = true;
+            m_UndoAction.shouldBeEnabled = true;
+            m_RedoAction.shouldBeEnabled = true;
             m_Log.Debug($"{nameof(TreeControllerTool)}.{nameof(OnStartRunning)}");
         }
 
@@ -358,13 +664,35 @@ namespace Tree_Controller.Tools
         {
             m_ApplyAction.shouldBeEnabled = false;
             m_SecondaryApplyAction.shouldBeEnabled = false;
+            m_AddPickedTreeAction.shouldBeEnabled = false;
+            m_UndoAction.shouldBeEnabled = false;
+            m_RedoAction.shouldBeEnabled = false;
+            m_SelectionPoints.Clear();
+            m_HoveredTree = Entity.Null;
+            CollectTreeChanges();
+            m_OpenBatch = null;
+            m_WholeMapApplyConfirmed = false;
+            m_TreeControllerUISystem.CloseWholeMapConfirmation();
         }
 
         /// <inheritdoc/>
         protected override JobHandle OnUpdate(JobHandle inputDeps)
         {
             inputDeps = Dependency;
+            CollectTreeChanges();
+            CollectTreePreview();
+            if (m_RedoAction.WasPerformedThisFrame())
+            {
+                Redo();
+            }
+            else if (m_UndoAction.WasPerformedThisFrame())
+            {
+                Undo();
+            }
+
+            m_HistoryQueue = new NativeQueue<TreeChangeRecord>(Allocator.TempJob);
             NativeList<TreeState> selectedTreeStates = m_TreeControllerUISystem.GetSelectedAges();
+            NativeList<float> selectedAgeWeights = m_TreeControllerUISystem.GetSelectedAgeWeights();
             bool raycastFlag = GetRaycastResult(out Entity e, out RaycastHit hit);
             bool isVegetationPrefabFlag = false;
             if (EntityManager.TryGetComponent(e, out PrefabRef prefabEntity))
@@ -379,6 +707,21 @@ namespace Tree_Controller.Tools
             bool hasTransformComponentFlag = EntityManager.HasComponent<Game.Objects.Transform>(e);
             bool hasBufferFlag = EntityManager.HasBuffer<Game.Objects.SubObject>(e);
 
+            if (m_TreeControllerUISystem.Overlay != TreeOverlay.None)
+            {
+                DrawTreeOverlay(ref inputDeps); // Colors every tree by age, prefab set, or growth.
+            }
+
+            m_HoveredTree = Entity.Null;
+            if (m_TreeControllerUISystem.EyedropperActive)
+            {
+                UpdateEyedropper(e, raycastFlag && isVegetationPrefabFlag && hasTransformComponentFlag, ref inputDeps); // Picks the prefab and age of the hovered tree instead of changing trees.
+                m_HistoryQueue.Dispose();
+                selectedTreeStates.Dispose();
+                selectedAgeWeights.Dispose();
+                return inputDeps;
+            }
+
             if (m_TreeControllerUISystem.Radius > 0 && raycastFlag && m_TreeControllerUISystem.SelectionMode == Selection.Radius) // Radius Circle
             {
                 ToolRadiusJob toolRadiusJob = new ()
@@ -391,50 +734,65 @@ namespace Tree_Controller.Tools
                 m_OverlayRenderSystem.AddBufferWriter(inputDeps);
             }
 
+            UpdatePreview(e, hit, raycastFlag, isVegetationPrefabFlag, ref inputDeps); // Counts trees that would be changed by single, building or net, radius, and whole map selections.
+
+            if (m_TreeControllerUISystem.SelectionMode == Selection.Rectangle || m_TreeControllerUISystem.SelectionMode == Selection.Lasso || m_TreeControllerUISystem.SelectionMode == Selection.District)
+            {
+                ProcessAreaSelection(e, hit, raycastFlag, selectedTreeStates, selectedAgeWeights, ref inputDeps); // Draws rectangle, lasso, or district outline and changes trees within it on apply.
+            }
+
+            if (m_WholeMapApplyConfirmed)
+            {
+                m_WholeMapApplyConfirmed = false;
+                if (m_TreeControllerUISystem.SelectionMode == Selection.Map)
+                {
+                    ApplyToWholeMap(selectedTreeStates, selectedAgeWeights, ref inputDeps);
+                }
+            }
+
             if (m_ApplyAction.WasPressedThisFrame())
             {
                 if (m_TreeControllerUISystem.SelectionMode == Selection.Single || m_TreeControllerUISystem.SelectionMode == Selection.BuildingOrNet)
                 {
                     if (raycastFlag && isVegetationPrefabFlag)
                     {
-                        if (m_TreeControllerUISystem.AtLeastOneAgeSelected && hasTreeComponentFlag)
+                        bool passesFilter = GetTreeFilter().Check(e, prefabEntity.m_Prefab);
+                        if (ChangingGrowth && hasTreeComponentFlag && passesFilter)
                         {
+                            ChangeTreeGrowth(e);
+                        }
 
+                        if (OverrideState && hasTreeComponentFlag && passesFilter)
+                        {
                             ChangeTreeStateJob changeTreeStateJob = new ()
                             {
                                 m_Entity = e,
                                 m_Random = new ((uint)UnityEngine.Random.Range(1, 100000)),
                                 m_Ages = selectedTreeStates,
+                                m_AgeWeights = selectedAgeWeights,
                                 m_Tree = EntityManager.GetComponentData<Tree>(e),
+                                m_History = m_HistoryQueue.AsParallelWriter(),
                                 buffer = m_ToolOutputBarrier.CreateCommandBuffer(),
                             };
                             inputDeps = changeTreeStateJob.Schedule(inputDeps);
                             m_ToolOutputBarrier.AddJobHandleForProducer(inputDeps);
                         }
 
-                        bool doNotApplyTreePrefab = false;
-                        if (EntityManager.TryGetComponent(e, out PrefabRef prefabRef))
-                        {
-                            if (m_PrefabSystem.TryGetPrefab(prefabRef, out PrefabBase prefabBase))
-                            {
-                                if (prefabBase.GetType() == typeof(RoadPrefab))
-                                {
-                                    doNotApplyTreePrefab = true;
-                                }
-                            }
-                        }
-
-                        if (!m_SelectedTreePrefabEntities.IsEmpty && !doNotApplyTreePrefab && isVegetationPrefabFlag)
+                        if (OverridePrefab && passesFilter)
                         {
                             ChangePrefabRefJob changePrefabRefJob = new ()
                             {
                                 m_Entity = e,
                                 m_SelectedPrefabEntities = m_SelectedTreePrefabEntities,
+                                m_PrefabWeights = m_SelectedTreePrefabWeights,
                                 m_Random = new ((uint)UnityEngine.Random.Range(1, 100000)),
                                 buffer = m_ToolOutputBarrier.CreateCommandBuffer(),
                                 m_Ages = selectedTreeStates,
+                                m_AgeWeights = selectedAgeWeights,
                                 m_TreeDataLookup = SystemAPI.GetComponentLookup<TreeData>(isReadOnly: true),
                                 m_TreeLookup = SystemAPI.GetComponentLookup<Tree>(isReadOnly: true),
+                                m_PrefabRefLookup = SystemAPI.GetComponentLookup<PrefabRef>(isReadOnly: true),
+                                m_History = m_HistoryQueue.AsParallelWriter(),
                             };
                             inputDeps = changePrefabRefJob.Schedule(inputDeps);
                             m_ToolOutputBarrier.AddJobHandleForProducer(inputDeps);
@@ -448,53 +806,51 @@ namespace Tree_Controller.Tools
             }
             else if (m_ApplyAction.IsPressed() && m_TreeControllerUISystem.SelectionMode == Selection.Radius && raycastFlag)
             {
-                bool overridePrefab = !m_SelectedTreePrefabEntities.IsEmpty;
-                if (m_TreeControllerUISystem.AtLeastOneAgeSelected || overridePrefab)
+                bool overridePrefab = OverridePrefab;
+                if (OverrideState || overridePrefab || ChangingGrowth)
                 {
-                    TreeChangerWithinRadius changeTreeAgeWithinRadiusJob = new()
+                    NativeList<float3> polygon = new NativeList<float3>(0, Allocator.TempJob);
+                    TreeChangerWithinArea changeTreeAgeWithinRadiusJob = new()
                     {
                         m_EntityType = SystemAPI.GetEntityTypeHandle(),
+                        m_Selection = Selection.Radius,
                         m_Position = hit.m_HitPosition,
                         m_Radius = m_TreeControllerUISystem.Radius,
+                        m_Polygon = polygon,
                         m_Ages = selectedTreeStates,
+                        m_AgeWeights = selectedAgeWeights,
                         m_TransformType = SystemAPI.GetComponentTypeHandle<Game.Objects.Transform>(isReadOnly: true),
                         m_TreeType = SystemAPI.GetComponentTypeHandle<Game.Objects.Tree>(),
                         buffer = m_ToolOutputBarrier.CreateCommandBuffer().AsParallelWriter(),
                         m_PrefabRefType = SystemAPI.GetComponentTypeHandle<PrefabRef>(),
-                        m_OverrideState = m_TreeControllerUISystem.AtLeastOneAgeSelected,
+                        m_OverrideState = OverrideState,
+                        m_ChangeGrowth = ChangingGrowth,
+                        m_FreezeGrowth = m_TreeControllerUISystem.CurrentToolMode == ToolMode.FreezeGrowth,
                         m_OverridePrefab = overridePrefab,
                         m_Random = new((uint)UnityEngine.Random.Range(1, 100000)),
                         m_PrefabEntities = m_SelectedTreePrefabEntities,
+                        m_PrefabWeights = m_SelectedTreePrefabWeights,
                         m_TreeDataLookup = SystemAPI.GetComponentLookup<TreeData>(isReadOnly: true),
                         m_TreeLookup = SystemAPI.GetComponentLookup<Tree>(isReadOnly: true),
+                        m_Filter = GetTreeFilter(),
                         m_VegetationLookup = SystemAPI.GetComponentLookup<Vegetation>(isReadOnly: true),
+                        m_History = m_HistoryQueue.AsParallelWriter(),
                     };
                     inputDeps = JobChunkExtensions.ScheduleParallel(changeTreeAgeWithinRadiusJob, m_VegetationQuery, inputDeps);
                     m_ToolOutputBarrier.AddJobHandleForProducer(inputDeps);
+                    polygon.Dispose(inputDeps);
                 }
             }
             else if (m_SecondaryApplyAction.WasPressedThisFrame() && m_TreeControllerUISystem.SelectionMode == Selection.Map && raycastFlag)
             {
-                bool overridePrefab = !m_SelectedTreePrefabEntities.IsEmpty;
-                if (m_TreeControllerUISystem.AtLeastOneAgeSelected || overridePrefab)
+                int treeCount = CountWholeMapTrees();
+                if (treeCount > 0 && treeCount > TreeControllerMod.Instance.Settings.WholeMapConfirmationThreshold)
                 {
-                    TreeChangerWholeMap changeTreeAgeWholeMap = new ()
-                    {
-                        m_EntityType = __TypeHandle.__Unity_Entities_Entity_TypeHandle,
-                        m_Ages = selectedTreeStates,
-                        m_TreeType = SystemAPI.GetComponentTypeHandle<Game.Objects.Tree>(),
-                        buffer = m_ToolOutputBarrier.CreateCommandBuffer().AsParallelWriter(),
-                        m_PrefabRefType = GetComponentTypeHandle<PrefabRef>(),
-                        m_OverrideState = m_TreeControllerUISystem.AtLeastOneAgeSelected,
-                        m_OverridePrefab = overridePrefab,
-                        m_Random = new ((uint)UnityEngine.Random.Range(1, 100000)),
-                        m_PrefabEntities = m_SelectedTreePrefabEntities,
-                        m_TreeDataLookup = SystemAPI.GetComponentLookup<TreeData>(isReadOnly: true),
-                        m_TreeLookup = SystemAPI.GetComponentLookup<Tree>(isReadOnly: true),
-                        m_VegetationLookup = SystemAPI.GetComponentLookup<Vegetation>(isReadOnly: true),
-                    };
-                    inputDeps = JobChunkExtensions.ScheduleParallel(changeTreeAgeWholeMap, m_VegetationQuery, inputDeps);
-                    m_ToolOutputBarrier.AddJobHandleForProducer(inputDeps);
+                    m_TreeControllerUISystem.ShowWholeMapConfirmation(treeCount);
+                }
+                else
+                {
+                    ApplyToWholeMap(selectedTreeStates, selectedAgeWeights, ref inputDeps);
                 }
             }
             else if (raycastFlag && isVegetationPrefabFlag && hasTransformComponentFlag) // Single Tree Circle
@@ -556,7 +912,19 @@ namespace Tree_Controller.Tools
                 applyMode = ApplyMode.None;
             }
 
+            CollectTreeChangeRecordsJob collectTreeChangeRecordsJob = new ()
+            {
+                m_Queue = m_HistoryQueue,
+                m_Records = m_PendingRecords,
+            };
+            m_HistoryJobHandle = IJobExtensions.Schedule(collectTreeChangeRecordsJob, inputDeps);
+            m_HistoryQueue.Dispose(m_HistoryJobHandle);
+            m_PendingToolMode = m_TreeControllerUISystem.CurrentToolMode;
+            m_PendingSelection = m_TreeControllerUISystem.SelectionMode;
+            inputDeps = m_HistoryJobHandle;
+
             selectedTreeStates.Dispose(inputDeps);
+            selectedAgeWeights.Dispose(inputDeps);
             return inputDeps;
         }
 
@@ -575,6 +943,17 @@ namespace Tree_Controller.Tools
         /// <inheritdoc/>
         protected override void OnDestroy()
         {
+            m_HistoryJobHandle.Complete();
+            m_PreviewJobHandle.Complete();
+            m_OverlayJobHandle.Complete();
+            m_SelectionPoints.Dispose();
+            m_SelectedTreePrefabWeights.Dispose();
+            m_SourcePrefabEntities.Dispose();
+            m_PendingRecords.Dispose();
+            m_History.Dispose();
+            m_PreviewPrefabCounts.Dispose();
+            m_PreviewAgeCounts.Dispose();
+            m_PrefabSets.Dispose();
             base.OnDestroy();
         }
 
@@ -617,127 +996,767 @@ namespace Tree_Controller.Tools
         }
 
         /// <summary>
-        /// Will loop through subobjects of the entity and change tree state. In future will change prefab.
+        /// Moves the records collected by the last update into the history. Consecutive frames of a held radius brush are kept in one batch.
         /// </summary>
-        /// <param name="e">Entity that was hit by raycast.</param>
-        /// <param name="hit">Raycast information.</param>
-        /// <param name="jobHandle">So input deps can be passed along.</param>
-        private void ProcessBufferForTrees(Entity e, RaycastHit hit, ref JobHandle jobHandle)
+        private void CollectTreeChanges()
         {
-            if (EntityManager.TryGetBuffer(e, isReadOnly: true, out DynamicBuffer<Game.Objects.SubObject> buffer))
+            m_HistoryJobHandle.Complete();
+            bool historyChanged = false;
+            if (m_PendingRecords.Length > 0)
             {
-                for (int i = 0; i < buffer.Length; i++)
-                {
-                    Entity subObject = buffer[i].m_SubObject;
-                    bool isVegetationPrefabFlag = false;
-                    if (EntityManager.TryGetComponent(subObject, out PrefabRef prefabEntity))
-                    {
-                        if (EntityManager.HasComponent<Vegetation>(prefabEntity))
-                        {
-                            isVegetationPrefabFlag = true;
-                        }
-                    }
-
-                    if (isVegetationPrefabFlag && EntityManager.HasComponent<Game.Objects.Transform>(subObject))
-                    {
-                        Game.Objects.Transform currentTransform = EntityManager.GetComponentData<Game.Objects.Transform>(subObject);
-                        if (CheckForHoveringOverTree(new Vector3(hit.m_HitPosition.x, hit.m_Position.y, hit.m_HitPosition.z), currentTransform.m_Position, 2f) || m_TreeControllerUISystem.SelectionMode == Selection.BuildingOrNet)
-                        {
-                            if (m_TreeControllerUISystem.AtLeastOneAgeSelected && EntityManager.HasComponent<Tree>(subObject))
-                            {
-                                NativeList<TreeState> selectedTreeStates = m_TreeControllerUISystem.GetSelectedAges();
-                                ChangeTreeStateJob changeTreeStateJob = new ()
-                                {
-                                    m_Entity = subObject,
-                                    m_Random = new ((uint)UnityEngine.Random.Range(1, 100000)),
-                                    m_Ages = selectedTreeStates,
-                                    m_Tree = EntityManager.GetComponentData<Tree>(subObject),
-                                    buffer = m_ToolOutputBarrier.CreateCommandBuffer(),
-                                };
-                                jobHandle = changeTreeStateJob.Schedule(jobHandle);
-                                m_ToolOutputBarrier.AddJobHandleForProducer(jobHandle);
-                                selectedTreeStates.Dispose(jobHandle);
-                            }
+                TreeChangeBatch batch = m_OpenBatch ?? m_History.BeginBatch(m_PendingToolMode, m_PendingSelection);
+                batch.Records.AddRange(m_PendingRecords.AsArray());
+                m_PendingRecords.Clear();
+                m_OpenBatch = batch;
+                historyChanged = true;
+            }
 
-                            bool doNotApplyTreePrefab = false;
-                            if (EntityManager.TryGetComponent(e, out PrefabRef prefabRef))
-                            {
-                                if (m_PrefabSystem.TryGetPrefab(prefabRef, out PrefabBase prefabBase))
-                                {
-                                    if (prefabBase.GetType() == typeof(RoadPrefab))
-                                    {
-                                        doNotApplyTreePrefab = true;
-                                    }
-                                }
-                            }
+            if (m_OpenBatch != null && (m_TreeControllerUISystem.SelectionMode != Selection.Radius || !m_ApplyAction.IsPressed()))
+            {
+                m_OpenBatch = null;
+                historyChanged = true;
+            }
 
-                            if (!m_SelectedTreePrefabEntities.IsEmpty && !doNotApplyTreePrefab)
-                            {
-                                NativeList<TreeState> selectedTreeStates = m_TreeControllerUISystem.GetSelectedAges();
-                                ChangePrefabRefJob changePrefabRefJob = new ()
-                                {
-                                    m_Entity = subObject,
-                                    m_SelectedPrefabEntities = m_SelectedTreePrefabEntities,
-                                    m_Random = new ((uint)UnityEngine.Random.Range(1, 100000)),
-                                    buffer = m_ToolOutputBarrier.CreateCommandBuffer(),
-                                    m_Ages = selectedTreeStates,
-                                    m_TreeDataLookup = SystemAPI.GetComponentLookup<TreeData>(isReadOnly: true),
-                                    m_TreeLookup = SystemAPI.GetComponentLookup<Tree>(isReadOnly: true),
-                                };
-                                jobHandle = changePrefabRefJob.Schedule(jobHandle);
-                                m_ToolOutputBarrier.AddJobHandleForProducer(jobHandle);
-                                selectedTreeStates.Dispose(jobHandle);
-                            }
-                        }
-                    }
-                }
+            if (historyChanged)
+            {
+                m_History.Trim(m_OpenBatch);
+                m_TreeControllerUISystem.UpdateHistory = true;
             }
         }
 
         /// <summary>
-        /// Compares position of cursor and tree with regrads to a given radius.
+        /// Reads the trees counted by the last update and flags the UI if the preview changed. Selections other than whole map count nothing when there was nothing to count.
         /// </summary>
-        /// <param name="cursorPosition">From the raycast hit.</param>
-        /// <param name="treePosition">Transform from the tree.</param>
-        /// <param name="radius">The radius for comparison.</param>
-        /// <returns>True if tree position is whithin radius from cursor position.</returns>
-        private bool CheckForHoveringOverTree(float3 cursorPosition, float3 treePosition, float radius)
+        private void CollectTreePreview()
         {
-            float minRadius = 1f;
-            radius = Mathf.Max(radius, minRadius);
-            float2 cursorPositionXZ = new (cursorPosition.x, cursorPosition.z);
-            float2 treePositionXZ = new (treePosition.x, treePosition.z);
-            if (Unity.Mathematics.math.distance(cursorPositionXZ, treePositionXZ) < radius)
+            m_PreviewJobHandle.Complete();
+            if (m_PreviewSelection != m_TreeControllerUISystem.SelectionMode)
             {
-                return true;
+                m_PreviewSelection = m_TreeControllerUISystem.SelectionMode;
+                m_WholeMapPreviewCooldown = 0;
             }
 
-            return false;
-        }
+            // The whole map is only recounted every so often, so recount right away when the ages, prefabs, or filter change.
+            int previewKey = GetPreviewKey();
+            if (previewKey != m_WholeMapPreviewKey)
+            {
+                m_WholeMapPreviewKey = previewKey;
+                m_WholeMapPreviewCooldown = 0;
+            }
 
-#if BURST
-        [BurstCompile]
-#endif
-        private struct TreeChangerWithinRadius : IJobChunk
-        {
-            public EntityTypeHandle m_EntityType;
-            public ComponentTypeHandle<Game.Objects.Tree> m_TreeType;
-            public ComponentTypeHandle<Game.Objects.Transform> m_TransformType;
-            public bool m_OverrideState;
-            public bool m_OverridePrefab;
-            public NativeList<TreeState> m_Ages;
-            public EntityCommandBuffer.ParallelWriter buffer;
-            public ComponentTypeHandle<Game.Prefabs.PrefabRef> m_PrefabRefType;
-            public NativeList<Entity> m_PrefabEntities;
+            if (!m_PreviewPending)
+            {
+                if (m_PreviewSelection == Selection.Map)
+                {
+                    return;
+                }
+
+                ClearPreviewCounts();
+            }
+
+            m_PreviewPending = false;
+            int treeCount = 0;
+            List<PrefabCountData> prefabCounts = new List<PrefabCountData>();
+            NativeKeyValueArrays<Entity, int> keyValueArrays = m_PreviewPrefabCounts.GetKeyValueArrays(Allocator.Temp);
+            for (int i = 0; i < keyValueArrays.Length; i++)
+            {
+                treeCount += keyValueArrays.Values[i];
+                if (m_PrefabSystem.TryGetPrefab(new PrefabRef(keyValueArrays.Keys[i]), out PrefabBase prefabBase))
+                {
+                    prefabCounts.Add(new PrefabCountData() { name = prefabBase.name, count = keyValueArrays.Values[i] });
+                }
+            }
+
+            keyValueArrays.Dispose();
+            prefabCounts.Sort((a, b) => a.count != b.count ? b.count.CompareTo(a.count) : string.CompareOrdinal(a.name, b.name));
+            int[] ageCounts = m_PreviewAgeCounts.ToArray();
+            if (treeCount == m_PreviewTreeCount && ageCounts.SequenceEqual(m_PreviewAgeCountData) && prefabCounts.SequenceEqual(m_PreviewPrefabCountData))
+            {
+                return;
+            }
+
+            m_PreviewTreeCount = treeCount;
+            m_PreviewAgeCountData = ageCounts;
+            m_PreviewPrefabCountData = prefabCounts.ToArray();
+            m_TreeControllerUISystem.UpdatePreview = true;
+        }
+
+        /// <summary>
+        /// Gets a value that changes when the ages, prefabs, owner filter, source prefabs, or tool mode that decide which trees would be changed change.
+        /// </summary>
+        /// <returns>Hash of the current selection.</returns>
+        private int GetPreviewKey()
+        {
+            int key = ((int)m_TreeControllerUISystem.SelectedAges * 31) + (int)m_TreeControllerUISystem.OwnerFilter;
+            key = (key * 31) + (int)m_TreeControllerUISystem.CurrentToolMode;
+            for (int i = 0; i < m_SelectedTreePrefabEntities.Length; i++)
+            {
+                key = (key * 31) + m_SelectedTreePrefabEntities[i].Index;
+            }
+
+            for (int i = 0; i < m_SourcePrefabEntities.Length; i++)
+            {
+                key = (key * 31) + m_SourcePrefabEntities[i].Index;
+            }
+
+            return key;
+        }
+
+        /// <summary>
+        /// Counts the trees and plants a whole map change could affect. Ages, prefabs, and filters are not checked so the count does not have to wait on a job.
+        /// </summary>
+        /// <returns>The number of trees and plants that could be changed.</returns>
+        private int CountWholeMapTrees()
+        {
+            return m_VegetationQuery.CalculateEntityCount();
+        }
+
+        /// <summary>
+        /// Counts the trees that would be changed by single, building or net, radius, and whole map selections. Whole map is only counted every so often.
+        /// </summary>
+        /// <param name="e">Entity that was hit by raycast.</param>
+        /// <param name="hit">Raycast information.</param>
+        /// <param name="raycastFlag">Whether the raycast hit something.</param>
+        /// <param name="isVegetationPrefabFlag">Whether the entity hit is vegetation.</param>
+        /// <param name="jobHandle">So input deps can be passed along.</param>
+        private void UpdatePreview(Entity e, RaycastHit hit, bool raycastFlag, bool isVegetationPrefabFlag, ref JobHandle jobHandle)
+        {
+            switch (m_TreeControllerUISystem.SelectionMode)
+            {
+                case Selection.Single:
+                case Selection.BuildingOrNet:
+                    if (raycastFlag)
+                    {
+                        CountTreesForPreview(e, hit, isVegetationPrefabFlag);
+                    }
+
+                    break;
+
+                case Selection.Radius:
+                    if (raycastFlag && m_TreeControllerUISystem.Radius > 0)
+                    {
+                        NativeList<float3> polygon = new NativeList<float3>(0, Allocator.TempJob);
+                        SchedulePreviewJob(Selection.Radius, hit.m_HitPosition, m_TreeControllerUISystem.Radius, polygon, ref jobHandle);
+                        polygon.Dispose(jobHandle);
+                    }
+
+                    break;
+
+                case Selection.Map:
+                    if (m_WholeMapPreviewCooldown > 0)
+                    {
+                        m_WholeMapPreviewCooldown--;
+                    }
+                    else
+                    {
+                        NativeList<float3> polygon = new NativeList<float3>(0, Allocator.TempJob);
+                        SchedulePreviewJob(Selection.Map, default, 0f, polygon, ref jobHandle);
+                        polygon.Dispose(jobHandle);
+                        m_WholeMapPreviewCooldown = WholeMapPreviewInterval;
+                    }
+
+                    break;
+            }
+        }
+
+        /// <summary>
+        /// Schedules a job that counts the trees within a selection that would be changed and circles them.
+        /// </summary>
+        /// <param name="selection">Radius, whole map, or a polygon selection.</param>
+        /// <param name="position">Center of the radius.</param>
+        /// <param name="radius">Radius of the selection.</param>
+        /// <param name="polygon">Points of the polygon selection.</param>
+        /// <param name="jobHandle">So input deps can be passed along.</param>
+        private void SchedulePreviewJob(Selection selection, float3 position, float radius, NativeList<float3> polygon, ref JobHandle jobHandle)
+        {
+            ClearPreviewCounts();
+            m_PreviewPending = true;
+            bool overridePrefab = OverridePrefab;
+            if (!OverrideState && !overridePrefab && !ChangingGrowth)
+            {
+                return;
+            }
+
+            TreeUtils.GetPolygonBounds(polygon, out float2 min, out float2 max);
+            TreePreviewJob treePreviewJob = new ()
+            {
+                m_EntityType = SystemAPI.GetEntityTypeHandle(),
+                m_TransformType = SystemAPI.GetComponentTypeHandle<Game.Objects.Transform>(isReadOnly: true),
+                m_TreeType = SystemAPI.GetComponentTypeHandle<Game.Objects.Tree>(isReadOnly: true),
+                m_PrefabRefType = SystemAPI.GetComponentTypeHandle<PrefabRef>(isReadOnly: true),
+                m_OverrideState = OverrideState || ChangingGrowth,
+                m_OverridePrefab = overridePrefab,
+                m_Selection = selection,
+                m_Position = position,
+                m_Radius = radius,
+                m_Polygon = polygon,
+                m_Min = min,
+                m_Max = max,
+                m_DrawCircles = selection != Selection.Map,
+                m_OverlayBuffer = m_OverlayRenderSystem.GetBuffer(out JobHandle outJobHandle),
+                m_Filter = GetTreeFilter(),
+                m_VegetationLookup = SystemAPI.GetComponentLookup<Vegetation>(isReadOnly: true),
+                m_PrefabCounts = m_PreviewPrefabCounts,
+                m_AgeCounts = m_PreviewAgeCounts,
+            };
+            jobHandle = JobChunkExtensions.Schedule(treePreviewJob, m_VegetationQuery, JobHandle.CombineDependencies(jobHandle, outJobHandle));
+            m_OverlayRenderSystem.AddBufferWriter(jobHandle);
+            m_PreviewJobHandle = jobHandle;
+        }
+
+        /// <summary>
+        /// Counts the tree or the subobject trees that single and building or net selections would change.
+        /// </summary>
+        /// <param name="e">Entity that was hit by raycast.</param>
+        /// <param name="hit">Raycast information.</param>
+        /// <param name="isVegetationPrefabFlag">Whether the entity hit is vegetation.</param>
+        private void CountTreesForPreview(Entity e, RaycastHit hit, bool isVegetationPrefabFlag)
+        {
+            ClearPreviewCounts();
+            m_PreviewPending = true;
+            if (isVegetationPrefabFlag)
+            {
+                CountTreeForPreview(e);
+                return;
+            }
+
+            if (!EntityManager.TryGetBuffer(e, isReadOnly: true, out DynamicBuffer<Game.Objects.SubObject> buffer))
+            {
+                return;
+            }
+
+            for (int i = 0; i < buffer.Length; i++)
+            {
+                Entity subObject = buffer[i].m_SubObject;
+                if (!EntityManager.TryGetComponent(subObject, out PrefabRef subObjectPrefabRef) || !EntityManager.HasComponent<Vegetation>(subObjectPrefabRef.m_Prefab) || !EntityManager.TryGetComponent(subObject, out Game.Objects.Transform currentTransform))
+                {
+                    continue;
+                }
+
+                if (CheckForHoveringOverTree(new Vector3(hit.m_HitPosition.x, hit.m_Position.y, hit.m_HitPosition.z), currentTransform.m_Position, 2f) || m_TreeControllerUISystem.SelectionMode == Selection.BuildingOrNet)
+                {
+                    CountTreeForPreview(subObject);
+                }
+            }
+        }
+
+        /// <summary>
+        /// Adds a tree to the preview counts if it would be changed.
+        /// </summary>
+        /// <param name="entity">Tree or plant entity.</param>
+        private void CountTreeForPreview(Entity entity)
+        {
+            bool hasTree = EntityManager.TryGetComponent(entity, out Tree tree);
+            bool overrideState = (OverrideState || ChangingGrowth) && hasTree;
+            bool overridePrefab = OverridePrefab;
+            if ((!overrideState && !overridePrefab) || !EntityManager.TryGetComponent(entity, out PrefabRef prefabRef) || !GetTreeFilter().Check(entity, prefabRef.m_Prefab))
+            {
+                return;
+            }
+
+            m_PreviewPrefabCounts.TryGetValue(prefabRef.m_Prefab, out int count);
+            m_PreviewPrefabCounts[prefabRef.m_Prefab] = count + 1;
+            if (hasTree)
+            {
+                m_PreviewAgeCounts[TreeUtils.GetAgeIndex(tree.m_State)]++;
+            }
+        }
+
+        /// <summary>
+        /// Gets the owner and source prefab filters for the current tool mode.
+        /// </summary>
+        /// <returns>Tree filter for use on the main thread or within a job.</returns>
+        private TreeFilter GetTreeFilter()
+        {
+            return new TreeFilter()
+            {
+                m_Owners = m_TreeControllerUISystem.OwnerFilter,
+                m_SourcePrefabs = m_SourcePrefabEntities,
+                m_OwnerLookup = SystemAPI.GetComponentLookup<Owner>(isReadOnly: true),
+                m_EdgeLookup = SystemAPI.GetComponentLookup<Game.Net.Edge>(isReadOnly: true),
+                m_NodeLookup = SystemAPI.GetComponentLookup<Game.Net.Node>(isReadOnly: true),
+            };
+        }
+
+        private void ClearPreviewCounts()
+        {
+            m_PreviewPrefabCounts.Clear();
+            for (int i = 0; i < m_PreviewAgeCounts.Length; i++)
+            {
+                m_PreviewAgeCounts[i] = 0;
+            }
+        }
+
+        /// <summary>
+        /// Circles the tree under the eyedropper for the tooltip and loads its prefab and age into the selection on click. Holding Ctrl adds to the selection.
+        /// </summary>
+        /// <param name="e">Entity that was hit by raycast.</param>
+        /// <param name="isTree">True if the entity is a tree or plant from the vegetation tab.</param>
+        /// <param name="jobHandle">Job handle that the circle job depends on and is combined into.</param>
+        private void UpdateEyedropper(Entity e, bool isTree, ref JobHandle jobHandle)
+        {
+            if (!isTree)
+            {
+                return;
+            }
+
+            m_HoveredTree = e;
+            m_HoveredTreeOwner = GetTreeFilter().GetTreeOwner(e);
+            TreeCircleRenderJob treeCircleRenderJob = new ()
+            {
+                m_OverlayBuffer = m_OverlayRenderSystem.GetBuffer(out JobHandle outJobHandle),
+                m_Transform = EntityManager.GetComponentData<Game.Objects.Transform>(e),
+            };
+            jobHandle = IJobExtensions.Schedule(treeCircleRenderJob, JobHandle.CombineDependencies(jobHandle, outJobHandle));
+            m_OverlayRenderSystem.AddBufferWriter(jobHandle);
+
+            // Adding to the selection is checked first since its binding includes the apply button by default.
+            if (m_AddPickedTreeAction.WasPerformedThisFrame())
+            {
+                m_TreeControllerUISystem.PickTree(e, addToSelection: true);
+            }
+            else if (m_ApplyAction.WasPressedThisFrame())
+            {
+                m_TreeControllerUISystem.PickTree(e, addToSelection: false);
+            }
+        }
+
+        /// <summary>
+        /// Completes the jobs that read the selected prefabs and their weights so the lists can be changed on the main thread.
+        /// </summary>
+        private void CompleteSelectionJobs()
+        {
+            m_HistoryJobHandle.Complete();
+            m_PreviewJobHandle.Complete();
+            m_OverlayJobHandle.Complete();
+        }
+
+        /// <summary>
+        /// Draws a marker on every tree in view colored by the overlay selected in the tool options. Markers grow with distance from the camera so they stay readable on large maps.
+        /// Trees outside the camera frustum or beyond the distance where markers stop growing are skipped.
+        /// </summary>
+        /// <param name="jobHandle">Job handle that the overlay job depends on and is combined into.</param>
+        private void DrawTreeOverlay(ref JobHandle jobHandle)
+        {
+            if (m_TreeControllerUISystem.Overlay == TreeOverlay.PrefabSet
+                && (m_PrefabSets.IsEmpty || m_PrefabSetsCustomVersion != m_TreeControllerUISystem.CustomSetsVersion || m_PrefabSetsRegisteredVersion != PrefabSetRegistry.Version))
+            {
+                // The previous overlay job may still be reading the sets.
+                m_OverlayJobHandle.Complete();
+                m_PrefabSets.Clear();
+                m_TreeControllerUISystem.GetPrefabSets(m_PrefabSets);
+                m_PrefabSetsCustomVersion = m_TreeControllerUISystem.CustomSetsVersion;
+                m_PrefabSetsRegisteredVersion = PrefabSetRegistry.Version;
+            }
+
+            UnityEngine.Camera camera = UnityEngine.Camera.main;
+            if (!m_CameraUpdateSystem.TryGetViewer(out Viewer viewer) || camera == null)
+            {
+                return;
+            }
+
+            FixedList128Bytes<float4> frustumPlanes = default;
+            foreach (UnityEngine.Plane plane in UnityEngine.GeometryUtility.CalculateFrustumPlanes(camera))
+            {
+                frustumPlanes.Add(new float4(plane.normal, plane.distance));
+            }
+
+            TreeOverlayJob treeOverlayJob = new ()
+            {
+                m_TransformType = SystemAPI.GetComponentTypeHandle<Game.Objects.Transform>(isReadOnly: true),
+                m_TreeType = SystemAPI.GetComponentTypeHandle<Game.Objects.Tree>(isReadOnly: true),
+                m_PrefabRefType = SystemAPI.GetComponentTypeHandle<PrefabRef>(isReadOnly: true),
+                m_NoTreeGrowthType = SystemAPI.GetComponentTypeHandle<NoTreeGrowth>(isReadOnly: true),
+                m_FrozenGrowthType = SystemAPI.GetComponentTypeHandle<FrozenGrowth>(isReadOnly: true),
+                m_LumberType = SystemAPI.GetComponentTypeHandle<Lumber>(isReadOnly: true),
+                m_VegetationLookup = SystemAPI.GetComponentLookup<Vegetation>(isReadOnly: true),
+                m_PrefabSets = m_PrefabSets,
+                m_SelectedPrefabs = m_SelectedTreePrefabEntities,
+                m_Overlay = m_TreeControllerUISystem.Overlay,
+                m_CameraPosition = viewer.position,
+                m_FrustumPlanes = frustumPlanes,
+                m_OverlayBuffer = m_OverlayRenderSystem.GetBuffer(out JobHandle outJobHandle),
+            };
+            jobHandle = JobChunkExtensions.Schedule(treeOverlayJob, m_VegetationQuery, JobHandle.CombineDependencies(jobHandle, outJobHandle));
+            m_OverlayRenderSystem.AddBufferWriter(jobHandle);
+            m_OverlayJobHandle = jobHandle;
+        }
+
+        /// <summary>
+        /// Sets trees in a batch back to their previous state or forward to their new state.
+        /// </summary>
+        /// <param name="batch">The batch of records.</param>
+        /// <param name="undo">True to restore the previous state in reverse order. False to restore the new state in order.</param>
+        private void ApplyTreeChanges(TreeChangeBatch batch, bool undo)
+        {
+            EntityCommandBuffer buffer = m_ToolOutputBarrier.CreateCommandBuffer();
+            NativeList<TreeChangeRecord> records = batch.Records;
+            for (int j = 0; j < records.Length; j++)
+            {
+                TreeChangeRecord record = records[undo ? records.Length - 1 - j : j];
+                if (!EntityManager.Exists(record.m_Entity) || EntityManager.HasComponent<Deleted>(record.m_Entity))
+                {
+                    continue;
+                }
+
+                Entity prefab = undo ? record.m_OldPrefab : record.m_NewPrefab;
+                if (record.m_OldPrefab != record.m_NewPrefab && EntityManager.Exists(prefab))
+                {
+                    buffer.SetComponent(record.m_Entity, new PrefabRef(prefab));
+                    buffer.RemoveComponent<Evergreen>(record.m_Entity);
+                    buffer.RemoveComponent<DeciduousData>(record.m_Entity);
+                    buffer.AddComponent<Updated>(record.m_Entity);
+                }
+
+                if (record.TreeChanged)
+                {
+                    if (undo ? record.m_HadTree : record.m_HasTree)
+                    {
+                        buffer.AddComponent(record.m_Entity, undo ? record.m_OldTree : record.m_NewTree);
+                    }
+                    else
+                    {
+                        buffer.RemoveComponent<Tree>(record.m_Entity);
+                    }
+                }
+
+                buffer.AddComponent<BatchesUpdated>(record.m_Entity);
+            }
+        }
+
+        /// <summary>
+        /// Will loop through subobjects of the entity and change tree state. In future will change prefab.
+        /// </summary>
+        /// <param name="e">Entity that was hit by raycast.</param>
+        /// <param name="hit">Raycast information.</param>
+        /// <param name="jobHandle">So input deps can be passed along.</param>
+        private void ProcessBufferForTrees(Entity e, RaycastHit hit, ref JobHandle jobHandle)
+        {
+            if (EntityManager.TryGetBuffer(e, isReadOnly: true, out DynamicBuffer<Game.Objects.SubObject> buffer))
+            {
+                TreeFilter treeFilter = GetTreeFilter();
+                for (int i = 0; i < buffer.Length; i++)
+                {
+                    Entity subObject = buffer[i].m_SubObject;
+                    bool isVegetationPrefabFlag = false;
+                    if (EntityManager.TryGetComponent(subObject, out PrefabRef prefabEntity))
+                    {
+                        if (EntityManager.HasComponent<Vegetation>(prefabEntity))
+                        {
+                            isVegetationPrefabFlag = true;
+                        }
+                    }
+
+                    if (isVegetationPrefabFlag && EntityManager.HasComponent<Game.Objects.Transform>(subObject) && treeFilter.Check(subObject, prefabEntity.m_Prefab))
+                    {
+                        Game.Objects.Transform currentTransform = EntityManager.GetComponentData<Game.Objects.Transform>(subObject);
+                        if (CheckForHoveringOverTree(new Vector3(hit.m_HitPosition.x, hit.m_Position.y, hit.m_HitPosition.z), currentTransform.m_Position, 2f) || m_TreeControllerUISystem.SelectionMode == Selection.BuildingOrNet)
+                        {
+                            if (ChangingGrowth && EntityManager.HasComponent<Tree>(subObject))
+                            {
+                                ChangeTreeGrowth(subObject);
+                            }
+
+                            if (OverrideState && EntityManager.HasComponent<Tree>(subObject))
+                            {
+                                NativeList<TreeState> selectedTreeStates = m_TreeControllerUISystem.GetSelectedAges();
+                                NativeList<float> selectedAgeWeights = m_TreeControllerUISystem.GetSelectedAgeWeights();
+                                ChangeTreeStateJob changeTreeStateJob = new ()
+                                {
+                                    m_Entity = subObject,
+                                    m_Random = new ((uint)UnityEngine.Random.Range(1, 100000)),
+                                    m_Ages = selectedTreeStates,
+                                    m_AgeWeights = selectedAgeWeights,
+                                    m_Tree = EntityManager.GetComponentData<Tree>(subObject),
+                                    m_History = m_HistoryQueue.AsParallelWriter(),
+                                    buffer = m_ToolOutputBarrier.CreateCommandBuffer(),
+                                };
+                                jobHandle = changeTreeStateJob.Schedule(jobHandle);
+                                m_ToolOutputBarrier.AddJobHandleForProducer(jobHandle);
+                                selectedTreeStates.Dispose(jobHandle);
+                                selectedAgeWeights.Dispose(jobHandle);
+                            }
+
+                            if (OverridePrefab)
+                            {
+                                NativeList<TreeState> selectedTreeStates = m_TreeControllerUISystem.GetSelectedAges();
+                                NativeList<float> selectedAgeWeights = m_TreeControllerUISystem.GetSelectedAgeWeights();
+                                ChangePrefabRefJob changePrefabRefJob = new ()
+                                {
+                                    m_Entity = subObject,
+                                    m_SelectedPrefabEntities = m_SelectedTreePrefabEntities,
+                                    m_PrefabWeights = m_SelectedTreePrefabWeights,
+                                    m_Random = new ((uint)UnityEngine.Random.Range(1, 100000)),
+                                    buffer = m_ToolOutputBarrier.CreateCommandBuffer(),
+                                    m_Ages = selectedTreeStates,
+                                    m_AgeWeights = selectedAgeWeights,
+                                    m_TreeDataLookup = SystemAPI.GetComponentLookup<TreeData>(isReadOnly: true),
+                                    m_TreeLookup = SystemAPI.GetComponentLookup<Tree>(isReadOnly: true),
+                                    m_PrefabRefLookup = SystemAPI.GetComponentLookup<PrefabRef>(isReadOnly: true),
+                                    m_History = m_HistoryQueue.AsParallelWriter(),
+                                };
+                                jobHandle = changePrefabRefJob.Schedule(jobHandle);
+                                m_ToolOutputBarrier.AddJobHandleForProducer(jobHandle);
+                                selectedTreeStates.Dispose(jobHandle);
+                                selectedAgeWeights.Dispose(jobHandle);
+                            }
+                        }
+                    }
+                }
+            }
+        }
+
+        /// <summary>
+        /// Freezes or resumes growth of a tree for the single and building or net selections.
+        /// </summary>
+        /// <param name="entity">Tree entity.</param>
+        private void ChangeTreeGrowth(Entity entity)
+        {
+            EntityCommandBuffer buffer = m_ToolOutputBarrier.CreateCommandBuffer();
+            TreeUtils.SetTreeGrowth(buffer.AsParallelWriter(), 0, entity, m_TreeControllerUISystem.CurrentToolMode == ToolMode.FreezeGrowth);
+        }
+
+        /// <summary>
+        /// Changes tree age/prefab for all trees on the map.
+        /// </summary>
+        /// <param name="selectedTreeStates">Selected ages.</param>
+        /// <param name="selectedAgeWeights">Weights of selected ages.</param>
+        /// <param name="jobHandle">So input deps can be passed along.</param>
+        private void ApplyToWholeMap(NativeList<TreeState> selectedTreeStates, NativeList<float> selectedAgeWeights, ref JobHandle jobHandle)
+        {
+            bool overridePrefab = OverridePrefab;
+            if (!OverrideState && !overridePrefab && !ChangingGrowth)
+            {
+                return;
+            }
+
+            TreeChangerWholeMap changeTreeAgeWholeMap = new ()
+            {
+                m_EntityType = __TypeHandle.__Unity_Entities_Entity_TypeHandle,
+                m_Ages = selectedTreeStates,
+                m_AgeWeights = selectedAgeWeights,
+                m_TreeType = SystemAPI.GetComponentTypeHandle<Game.Objects.Tree>(),
+                buffer = m_ToolOutputBarrier.CreateCommandBuffer().AsParallelWriter(),
+                m_PrefabRefType = GetComponentTypeHandle<PrefabRef>(),
+                m_OverrideState = OverrideState,
+                m_ChangeGrowth = ChangingGrowth,
+                m_FreezeGrowth = m_TreeControllerUISystem.CurrentToolMode == ToolMode.FreezeGrowth,
+                m_OverridePrefab = overridePrefab,
+                m_Random = new ((uint)UnityEngine.Random.Range(1, 100000)),
+                m_PrefabEntities = m_SelectedTreePrefabEntities,
+                m_PrefabWeights = m_SelectedTreePrefabWeights,
+                m_TreeDataLookup = SystemAPI.GetComponentLookup<TreeData>(isReadOnly: true),
+                m_TreeLookup = SystemAPI.GetComponentLookup<Tree>(isReadOnly: true),
+                m_Filter = GetTreeFilter(),
+                m_VegetationLookup = SystemAPI.GetComponentLookup<Vegetation>(isReadOnly: true),
+                m_History = m_HistoryQueue.AsParallelWriter(),
+            };
+            jobHandle = JobChunkExtensions.ScheduleParallel(changeTreeAgeWholeMap, m_VegetationQuery, jobHandle);
+            m_ToolOutputBarrier.AddJobHandleForProducer(jobHandle);
+        }
+
+        /// <summary>
+        /// Builds the polygon for rectangle, lasso, or district selection, draws it, and changes tree age/prefab for all trees within it when applied.
+        /// </summary>
+        /// <param name="e">Entity that was hit by raycast.</param>
+        /// <param name="hit">Raycast information.</param>
+        /// <param name="raycastFlag">Whether the raycast hit something. When it did not, the last hit position is used so that a selection released off the terrain still applies.</param>
+        /// <param name="selectedTreeStates">Selected ages.</param>
+        /// <param name="selectedAgeWeights">Weights of selected ages.</param>
+        /// <param name="jobHandle">So input deps can be passed along.</param>
+        private void ProcessAreaSelection(Entity e, RaycastHit hit, bool raycastFlag, NativeList<TreeState> selectedTreeStates, NativeList<float> selectedAgeWeights, ref JobHandle jobHandle)
+        {
+            if (raycastFlag)
+            {
+                m_LastSelectionHitPosition = hit.m_HitPosition;
+            }
+
+            float3 cursorPosition = m_LastSelectionHitPosition;
+            NativeList<float3> polygon = new NativeList<float3>(Allocator.TempJob);
+            bool closed = false;
+            bool apply = false;
+
+            switch (m_TreeControllerUISystem.SelectionMode)
+            {
+                case Selection.Rectangle:
+                    if (m_ApplyAction.WasPressedThisFrame() && raycastFlag)
+                    {
+                        m_SelectionPoints.Clear();
+                        m_SelectionPoints.Add(cursorPosition);
+                    }
+
+                    if (m_SelectionPoints.Length > 0)
+                    {
+                        float3 startPosition = m_SelectionPoints[0];
+                        polygon.Add(startPosition);
+                        polygon.Add(new float3(cursorPosition.x, cursorPosition.y, startPosition.z));
+                        polygon.Add(cursorPosition);
+                        polygon.Add(new float3(startPosition.x, startPosition.y, cursorPosition.z));
+                        closed = true;
+                        if (m_ApplyAction.WasReleasedThisFrame())
+                        {
+                            apply = true;
+                            m_SelectionPoints.Clear();
+                        }
+                    }
+
+                    break;
+
+                case Selection.Lasso:
+                    if (m_ApplyAction.WasPressedThisFrame() && raycastFlag)
+                    {
+                        if (m_SelectionPoints.Length >= 3 && math.distance(m_SelectionPoints[0].xz, cursorPosition.xz) < LassoCloseDistance)
+                        {
+                            apply = true;
+                        }
+                        else
+                        {
+                            m_SelectionPoints.Add(cursorPosition);
+                        }
+                    }
+                    else if (m_SecondaryApplyAction.WasPressedThisFrame() && m_SelectionPoints.Length > 0)
+                    {
+                        m_SelectionPoints.RemoveAt(m_SelectionPoints.Length - 1);
+                    }
+
+                    polygon.AddRange(m_SelectionPoints.AsArray());
+                    if (apply)
+                    {
+                        closed = true;
+                        m_SelectionPoints.Clear();
+                    }
+                    else if (polygon.Length > 0)
+                    {
+                        polygon.Add(cursorPosition);
+                    }
+
+                    break;
+
+                case Selection.District:
+                    if (EntityManager.HasComponent<Game.Areas.District>(e) && EntityManager.TryGetBuffer(e, isReadOnly: true, out DynamicBuffer<Game.Areas.Node> nodes))
+                    {
+                        for (int i = 0; i < nodes.Length; i++)
+                        {
+                            polygon.Add(nodes[i].m_Position);
+                        }
+
+                        closed = true;
+                        apply = m_ApplyAction.WasPressedThisFrame();
+                    }
+
+                    break;
+            }
+
+            if (polygon.Length >= 3)
+            {
+                SchedulePreviewJob(m_TreeControllerUISystem.SelectionMode, cursorPosition, 0f, polygon, ref jobHandle);
+            }
+
+            if (polygon.Length >= 2)
+            {
+                AreaSelectionRenderJob areaSelectionRenderJob = new ()
+                {
+                    m_OverlayBuffer = m_OverlayRenderSystem.GetBuffer(out JobHandle outJobHandle),
+                    m_Points = polygon,
+                    m_Closed = closed,
+                    m_MarkPoints = m_TreeControllerUISystem.SelectionMode == Selection.Lasso,
+                };
+                jobHandle = IJobExtensions.Schedule(areaSelectionRenderJob, JobHandle.CombineDependencies(jobHandle, outJobHandle));
+                m_OverlayRenderSystem.AddBufferWriter(jobHandle);
+            }
+
+            bool overridePrefab = OverridePrefab;
+            if (apply && polygon.Length >= 3 && (OverrideState || overridePrefab || ChangingGrowth))
+            {
+                TreeUtils.GetPolygonBounds(polygon, out float2 min, out float2 max);
+                TreeChangerWithinArea treeChangerWithinPolygon = new ()
+                {
+                    m_EntityType = SystemAPI.GetEntityTypeHandle(),
+                    m_Selection = m_TreeControllerUISystem.SelectionMode,
+                    m_Polygon = polygon,
+                    m_Min = min,
+                    m_Max = max,
+                    m_Ages = selectedTreeStates,
+                    m_AgeWeights = selectedAgeWeights,
+                    m_TransformType = SystemAPI.GetComponentTypeHandle<Game.Objects.Transform>(isReadOnly: true),
+                    m_TreeType = SystemAPI.GetComponentTypeHandle<Game.Objects.Tree>(),
+                    buffer = m_ToolOutputBarrier.CreateCommandBuffer().AsParallelWriter(),
+                    m_PrefabRefType = SystemAPI.GetComponentTypeHandle<PrefabRef>(),
+                    m_OverrideState = OverrideState,
+                    m_ChangeGrowth = ChangingGrowth,
+                    m_FreezeGrowth = m_TreeControllerUISystem.CurrentToolMode == ToolMode.FreezeGrowth,
+                    m_OverridePrefab = overridePrefab,
+                    m_Random = new ((uint)UnityEngine.Random.Range(1, 100000)),
+                    m_PrefabEntities = m_SelectedTreePrefabEntities,
+                    m_PrefabWeights = m_SelectedTreePrefabWeights,
+                    m_TreeDataLookup = SystemAPI.GetComponentLookup<TreeData>(isReadOnly: true),
+                    m_TreeLookup = SystemAPI.GetComponentLookup<Tree>(isReadOnly: true),
+                    m_Filter = GetTreeFilter(),
+                    m_VegetationLookup = SystemAPI.GetComponentLookup<Vegetation>(isReadOnly: true),
+                    m_History = m_HistoryQueue.AsParallelWriter(),
+                };
+                jobHandle = JobChunkExtensions.ScheduleParallel(treeChangerWithinPolygon, m_VegetationQuery, jobHandle);
+                m_ToolOutputBarrier.AddJobHandleForProducer(jobHandle);
+            }
+
+            polygon.Dispose(jobHandle);
+        }
+
+        /// <summary>
+        /// Compares position of cursor and tree with regrads to a given radius.
+        /// </summary>
+        /// <param name="cursorPosition">From the raycast hit.</param>
+        /// <param name="treePosition">Transform from the tree.</param>
+        /// <param name="radius">The radius for comparison.</param>
+        /// <returns>True if tree position is whithin radius from cursor position.</returns>
+        private bool CheckForHoveringOverTree(float3 cursorPosition, float3 treePosition, float radius)
+        {
+            float minRadius = 1f;
+            radius = Mathf.Max(radius, minRadius);
+            float2 cursorPositionXZ = new (cursorPosition.x, cursorPosition.z);
+            float2 treePositionXZ = new (treePosition.x, treePosition.z);
+            if (Unity.Mathematics.math.distance(cursorPositionXZ, treePositionXZ) < radius)
+            {
+                return true;
+            }
+
+            return false;
+        }
+
+#if BURST
+        [BurstCompile]
+#endif
+        private struct TreeChangerWithinArea : IJobChunk
+        {
+            public EntityTypeHandle m_EntityType;
+            public ComponentTypeHandle<Game.Objects.Tree> m_TreeType;
+            public ComponentTypeHandle<Game.Objects.Transform> m_TransformType;
+            public bool m_OverrideState;
+            public bool m_OverridePrefab;
+            public bool m_ChangeGrowth;
+            public bool m_FreezeGrowth;
+            public NativeList<TreeState> m_Ages;
+            public NativeList<float> m_AgeWeights;
+            public EntityCommandBuffer.ParallelWriter buffer;
+            public ComponentTypeHandle<Game.Prefabs.PrefabRef> m_PrefabRefType;
+            public NativeList<Entity> m_PrefabEntities;
+            public NativeList<float> m_PrefabWeights;
             public Unity.Mathematics.Random m_Random;
-            public float m_Radius;
+            public Selection m_Selection;
             public float3 m_Position;
+            public float m_Radius;
+            [ReadOnly]
+            public NativeList<float3> m_Polygon;
+            public float2 m_Min;
+            public float2 m_Max;
             public ComponentLookup<Tree> m_TreeLookup;
             public ComponentLookup<TreeData> m_TreeDataLookup;
             public ComponentLookup<Vegetation> m_VegetationLookup;
+            public TreeFilter m_Filter;
+            public NativeQueue<TreeChangeRecord>.ParallelWriter m_History;
 
             /// <summary>
-            /// Executes job which will change state or prefab for trees within a radius.
+            /// Executes job which will change state or prefab for trees within a radius or a polygon.
             /// </summary>
             /// <param name="chunk">ArchteypeChunk of IJobChunk.</param>
             /// <param name="unfilteredChunkIndex">Use for EntityCommandBuffer.ParralelWriter.</param>
@@ -751,105 +1770,112 @@ namespace Tree_Controller.Tools
                 NativeArray<Game.Prefabs.PrefabRef> prefabRefNativeArray = chunk.GetNativeArray(ref m_PrefabRefType);
                 for (int i = 0; i < chunk.Count; i++)
                 {
-                    if (CheckForHoveringOverTree(m_Position, transformNativeArray[i].m_Position, m_Radius))
+                    if (!CheckForTreeWithinArea(transformNativeArray[i].m_Position))
                     {
-                        Entity currentEntity = entityNativeArray[i];
-                        if (m_OverrideState && m_TreeLookup.HasComponent(currentEntity) && m_OverridePrefab == false)
+                        continue;
+                    }
+
+                    Entity currentEntity = entityNativeArray[i];
+                    if (!m_Filter.Check(currentEntity, prefabRefNativeArray[i].m_Prefab))
+                    {
+                        continue;
+                    }
+
+                    if (m_ChangeGrowth)
+                    {
+                        if (m_TreeLookup.HasComponent(currentEntity))
+                        {
+                            TreeUtils.SetTreeGrowth(buffer, unfilteredChunkIndex, currentEntity, m_FreezeGrowth);
+                        }
+
+                        continue;
+                    }
+
+                    if (m_OverrideState && m_TreeLookup.HasComponent(currentEntity) && m_OverridePrefab == false)
+                    {
+                        Game.Objects.Tree currentTreeData = treeNativeArray[i];
+                        currentTreeData.m_State = TreeUtils.GetTreeState(ref m_Random, m_Ages, m_AgeWeights, currentTreeData.m_State);
+                        buffer.SetComponent(unfilteredChunkIndex, currentEntity, currentTreeData);
+                        buffer.AddComponent<RecentlyChanged>(unfilteredChunkIndex, currentEntity);
+                        buffer.AddComponent<BatchesUpdated>(unfilteredChunkIndex, currentEntity);
+                        m_History.Enqueue(new TreeChangeRecord(currentEntity, prefabRefNativeArray[i].m_Prefab, prefabRefNativeArray[i].m_Prefab, treeNativeArray[i], currentTreeData, true, true));
+                        continue;
+                    }
+
+                    if (m_OverridePrefab == true)
+                    {
+                        PrefabRef currentPrefabRef = prefabRefNativeArray[i];
+
+                        // This checks for plants that are not in the vegetation tab.
+                        if (!m_VegetationLookup.HasComponent(currentPrefabRef.m_Prefab))
                         {
-                            Game.Objects.Tree currentTreeData = treeNativeArray[i];
-                            currentTreeData.m_State = GetTreeState(m_Ages, currentTreeData);
-                            buffer.SetComponent(unfilteredChunkIndex, currentEntity, currentTreeData);
-                            buffer.AddComponent<RecentlyChanged>(unfilteredChunkIndex, currentEntity);
-                            buffer.AddComponent<BatchesUpdated>(unfilteredChunkIndex, currentEntity);
                             continue;
                         }
 
-                        if (m_OverridePrefab == true)
+                        if (m_PrefabEntities.Length > 0)
                         {
-                            PrefabRef currentPrefabRef = prefabRefNativeArray[i];
-
-                            // This checks for plants that are not in the vegetation tab.
-                            if (!m_VegetationLookup.HasComponent(currentPrefabRef.m_Prefab))
-                            {
-                                continue;
-                            }
-
-                            if (m_PrefabEntities.Length > 0)
-                            {
-                                currentPrefabRef.m_Prefab = m_PrefabEntities[m_Random.NextInt(m_PrefabEntities.Length)];
-                            }
-                            else
-                            {
-                                continue;
-                            }
+                            currentPrefabRef.m_Prefab = TreeUtils.GetPrefabEntity(ref m_Random, m_PrefabEntities, m_PrefabWeights);
+                        }
+                        else
+                        {
+                            continue;
+                        }
 
-                            // Convert plant to tree.
-                            if (m_TreeDataLookup.HasComponent(currentPrefabRef.m_Prefab) && !m_TreeLookup.HasComponent(currentEntity))
-                            {
-                                buffer.AddComponent<Tree>(unfilteredChunkIndex, currentEntity);
-                                Tree tree = new () { m_Growth = 0, m_State = GetTreeState(m_Ages, new Tree() { m_Growth = 0, m_State = TreeState.Adult }) };
-                                buffer.SetComponent(unfilteredChunkIndex, currentEntity, tree);
-                            }
+                        bool hadTree = m_TreeLookup.HasComponent(currentEntity);
+                        Tree oldTree = hadTree ? treeNativeArray[i] : default;
+                        Tree newTree = oldTree;
+                        bool hasTree = hadTree;
 
-                            // Convert tree to Plant.
-                            else if (!m_TreeDataLookup.HasComponent(currentPrefabRef.m_Prefab) && m_TreeLookup.HasComponent(currentEntity))
-                            {
-                                buffer.RemoveComponent<Tree>(unfilteredChunkIndex, currentEntity);
-                            }
+                        // Convert plant to tree.
+                        if (m_TreeDataLookup.HasComponent(currentPrefabRef.m_Prefab) && !m_TreeLookup.HasComponent(currentEntity))
+                        {
+                            buffer.AddComponent<Tree>(unfilteredChunkIndex, currentEntity);
+                            Tree tree = new () { m_Growth = 0, m_State = TreeUtils.GetTreeState(ref m_Random, m_Ages, m_AgeWeights, TreeState.Adult) };
+                            buffer.SetComponent(unfilteredChunkIndex, currentEntity, tree);
+                            newTree = tree;
+                            hasTree = true;
+                        }
 
-                            // Override state of existing tree and prefab.
-                            else if (m_OverrideState && m_TreeDataLookup.HasComponent(currentPrefabRef.m_Prefab) && m_TreeLookup.HasComponent(currentEntity))
-                            {
-                                Game.Objects.Tree currentTreeData = treeNativeArray[i];
-                                currentTreeData.m_State = GetTreeState(m_Ages, currentTreeData);
-                                buffer.SetComponent(unfilteredChunkIndex, currentEntity, currentTreeData);
-                            }
+                        // Convert tree to Plant.
+                        else if (!m_TreeDataLookup.HasComponent(currentPrefabRef.m_Prefab) && m_TreeLookup.HasComponent(currentEntity))
+                        {
+                            buffer.RemoveComponent<Tree>(unfilteredChunkIndex, currentEntity);
+                            hasTree = false;
+                        }
 
-                            buffer.SetComponent(unfilteredChunkIndex, currentEntity, currentPrefabRef);
-                            buffer.RemoveComponent<Evergreen>(unfilteredChunkIndex, currentEntity);
-                            buffer.RemoveComponent<DeciduousData>(unfilteredChunkIndex, currentEntity);
-                            buffer.AddComponent<RecentlyChanged>(unfilteredChunkIndex, currentEntity);
-                            buffer.AddComponent<Updated>(unfilteredChunkIndex, currentEntity);
-                            buffer.AddComponent<BatchesUpdated>(unfilteredChunkIndex, currentEntity);
+                        // Override state of existing tree and prefab.
+                        else if (m_OverrideState && m_TreeDataLookup.HasComponent(currentPrefabRef.m_Prefab) && m_TreeLookup.HasComponent(currentEntity))
+                        {
+                            Game.Objects.Tree currentTreeData = treeNativeArray[i];
+                            currentTreeData.m_State = TreeUtils.GetTreeState(ref m_Random, m_Ages, m_AgeWeights, currentTreeData.m_State);
+                            buffer.SetComponent(unfilteredChunkIndex, currentEntity, currentTreeData);
+                            newTree = currentTreeData;
                         }
+
+                        buffer.SetComponent(unfilteredChunkIndex, currentEntity, currentPrefabRef);
+                        buffer.RemoveComponent<Evergreen>(unfilteredChunkIndex, currentEntity);
+                        buffer.RemoveComponent<DeciduousData>(unfilteredChunkIndex, currentEntity);
+                        buffer.AddComponent<RecentlyChanged>(unfilteredChunkIndex, currentEntity);
+                        buffer.AddComponent<Updated>(unfilteredChunkIndex, currentEntity);
+                        buffer.AddComponent<BatchesUpdated>(unfilteredChunkIndex, currentEntity);
+                        m_History.Enqueue(new TreeChangeRecord(currentEntity, prefabRefNativeArray[i].m_Prefab, currentPrefabRef.m_Prefab, oldTree, newTree, hadTree, hasTree));
                     }
                 }
             }
 
             /// <summary>
-            /// Checks the radius and position and returns true if tree is there.
+            /// Checks whether a tree position is within the radius or, for rectangle, lasso, and district selections, the polygon.
             /// </summary>
-            /// <param name="cursorPosition">Float3 from Raycast.</param>
             /// <param name="treePosition">Float3 position from Transform.</param>
-            /// <param name="radius">Radius usually passed from settings.</param>
-            /// <returns>True if tree position is within radius of position. False if not.</returns>
-            private bool CheckForHoveringOverTree(float3 cursorPosition, float3 treePosition, float radius)
-            {
-                float minRadius = 5f;
-                radius = Mathf.Max(radius, minRadius);
-                if (Unity.Mathematics.math.distance(cursorPosition, treePosition) < radius)
-                {
-                    return true;
-                }
-
-                return false;
-            }
-
-            /// <summary>
-            /// Gets a specified tree state or random tree state from Ages array.
-            /// </summary>
-            /// <param name="ages">Selected ages.</param>
-            /// <param name="tree">Tree so original TreeState can be used if no ages are selected.</param>
-            /// <returns>TreeState.</returns>
-            private TreeState GetTreeState(NativeList<TreeState> ages, Game.Objects.Tree tree)
+            /// <returns>True if tree position is within the area. False if not.</returns>
+            private bool CheckForTreeWithinArea(float3 treePosition)
             {
-                if (ages.Length > 0)
+                if (m_Selection == Selection.Radius)
                 {
-                    TreeState returnState = ages[m_Random.NextInt(ages.Length)];
-                    return returnState;
+                    return math.distance(m_Position, treePosition) < math.max(m_Radius, 5f);
                 }
 
-                return tree.m_State;
+                return TreeUtils.IsWithinPolygon(treePosition.xz, m_Polygon, m_Min, m_Max);
             }
         }
 
@@ -862,14 +1888,20 @@ namespace Tree_Controller.Tools
             public ComponentTypeHandle<Game.Objects.Tree> m_TreeType;
             public bool m_OverrideState;
             public bool m_OverridePrefab;
+            public bool m_ChangeGrowth;
+            public bool m_FreezeGrowth;
             public NativeList<TreeState> m_Ages;
+            public NativeList<float> m_AgeWeights;
             public EntityCommandBuffer.ParallelWriter buffer;
             public ComponentTypeHandle<Game.Prefabs.PrefabRef> m_PrefabRefType;
             public NativeList<Entity> m_PrefabEntities;
+            public NativeList<float> m_PrefabWeights;
             public Unity.Mathematics.Random m_Random;
             public ComponentLookup<Tree> m_TreeLookup;
             public ComponentLookup<TreeData> m_TreeDataLookup;
             public ComponentLookup<Vegetation> m_VegetationLookup;
+            public TreeFilter m_Filter;
+            public NativeQueue<TreeChangeRecord>.ParallelWriter m_History;
 
             public void Execute(in ArchetypeChunk chunk, int unfilteredChunkIndex, bool useEnabledMask, in v128 chunkEnabledMask)
             {
@@ -879,12 +1911,28 @@ namespace Tree_Controller.Tools
                 for (int i = 0; i < chunk.Count; i++)
                 {
                     Entity currentEntity = entityNativeArray[i];
+                    if (!m_Filter.Check(currentEntity, prefabRefNativeArray[i].m_Prefab))
+                    {
+                        continue;
+                    }
+
+                    if (m_ChangeGrowth)
+                    {
+                        if (m_TreeLookup.HasComponent(currentEntity))
+                        {
+                            TreeUtils.SetTreeGrowth(buffer, unfilteredChunkIndex, currentEntity, m_FreezeGrowth);
+                        }
+
+                        continue;
+                    }
+
                     if (m_OverrideState && m_TreeLookup.HasComponent(currentEntity) && m_OverridePrefab == false)
                     {
                         Game.Objects.Tree currentTreeData = treeNativeArray[i];
-                        currentTreeData.m_State = GetTreeState(m_Ages, currentTreeData);
+                        currentTreeData.m_State = TreeUtils.GetTreeState(ref m_Random, m_Ages, m_AgeWeights, currentTreeData.m_State);
                         buffer.SetComponent(unfilteredChunkIndex, currentEntity, currentTreeData);
                         buffer.AddComponent<BatchesUpdated>(unfilteredChunkIndex, currentEntity);
+                        m_History.Enqueue(new TreeChangeRecord(currentEntity, prefabRefNativeArray[i].m_Prefab, prefabRefNativeArray[i].m_Prefab, treeNativeArray[i], currentTreeData, true, true));
                         continue;
                     }
 
@@ -900,33 +1948,42 @@ namespace Tree_Controller.Tools
 
                         if (m_PrefabEntities.Length > 0)
                         {
-                            currentPrefabRef.m_Prefab = m_PrefabEntities[m_Random.NextInt(m_PrefabEntities.Length)];
+                            currentPrefabRef.m_Prefab = TreeUtils.GetPrefabEntity(ref m_Random, m_PrefabEntities, m_PrefabWeights);
                         }
                         else
                         {
                             continue;
                         }
 
+                        bool hadTree = m_TreeLookup.HasComponent(currentEntity);
+                        Tree oldTree = hadTree ? treeNativeArray[i] : default;
+                        Tree newTree = oldTree;
+                        bool hasTree = hadTree;
+
                         // Convert plant to tree.
                         if (m_TreeDataLookup.HasComponent(currentPrefabRef.m_Prefab) && !m_TreeLookup.HasComponent(currentEntity))
                         {
                             buffer.AddComponent<Tree>(unfilteredChunkIndex, currentEntity);
-                            Tree tree = new () { m_Growth = 0, m_State = GetTreeState(m_Ages, new Tree() { m_Growth = 0, m_State = TreeState.Adult }) };
+                            Tree tree = new () { m_Growth = 0, m_State = TreeUtils.GetTreeState(ref m_Random, m_Ages, m_AgeWeights, TreeState.Adult) };
                             buffer.SetComponent(unfilteredChunkIndex, currentEntity, tree);
+                            newTree = tree;
+                            hasTree = true;
                         }
 
                         // Convert tree to Plant.
                         else if (!m_TreeDataLookup.HasComponent(currentPrefabRef.m_Prefab) && m_TreeLookup.HasComponent(currentEntity))
                         {
                             buffer.RemoveComponent<Tree>(unfilteredChunkIndex, currentEntity);
+                            hasTree = false;
                         }
 
                         // Override state of existing tree and prefab.
                         else if (m_OverrideState && m_TreeDataLookup.HasComponent(currentPrefabRef.m_Prefab) && m_TreeLookup.HasComponent(currentEntity))
                         {
                             Game.Objects.Tree currentTreeData = treeNativeArray[i];
-                            currentTreeData.m_State = GetTreeState(m_Ages, currentTreeData);
+                            currentTreeData.m_State = TreeUtils.GetTreeState(ref m_Random, m_Ages, m_AgeWeights, currentTreeData.m_State);
                             buffer.SetComponent(unfilteredChunkIndex, currentEntity, currentTreeData);
+                            newTree = currentTreeData;
                         }
 
                         buffer.SetComponent(unfilteredChunkIndex, currentEntity, currentPrefabRef);
@@ -934,25 +1991,287 @@ namespace Tree_Controller.Tools
                         buffer.RemoveComponent<DeciduousData>(unfilteredChunkIndex, currentEntity);
                         buffer.AddComponent<Updated>(unfilteredChunkIndex, currentEntity);
                         buffer.AddComponent<BatchesUpdated>(unfilteredChunkIndex, currentEntity);
+                        m_History.Enqueue(new TreeChangeRecord(currentEntity, prefabRefNativeArray[i].m_Prefab, currentPrefabRef.m_Prefab, oldTree, newTree, hadTree, hasTree));
+                    }
+                }
+            }
+        }
+
+#if BURST
+        [BurstCompile]
+#endif
+        private struct TreePreviewJob : IJobChunk
+        {
+            public EntityTypeHandle m_EntityType;
+            public ComponentTypeHandle<Game.Objects.Tree> m_TreeType;
+            public ComponentTypeHandle<Game.Objects.Transform> m_TransformType;
+            public ComponentTypeHandle<Game.Prefabs.PrefabRef> m_PrefabRefType;
+            public bool m_OverrideState;
+            public bool m_OverridePrefab;
+            public Selection m_Selection;
+            public float3 m_Position;
+            public float m_Radius;
+            public NativeList<float3> m_Polygon;
+            public float2 m_Min;
+            public float2 m_Max;
+            public bool m_DrawCircles;
+            public OverlayRenderSystem.Buffer m_OverlayBuffer;
+            public ComponentLookup<Vegetation> m_VegetationLookup;
+            public TreeFilter m_Filter;
+            public NativeHashMap<Entity, int> m_PrefabCounts;
+            public NativeArray<int> m_AgeCounts;
+
+            /// <summary>
+            /// Counts trees within the selection that would be changed by prefab and age and circles them.
+            /// </summary>
+            /// <param name="chunk">ArchetypeChunk of IJobChunk.</param>
+            /// <param name="unfilteredChunkIndex">Use for EntityCommandBuffer.ParralelWriter.</param>
+            /// <param name="useEnabledMask">Part of IJobChunk. Unsure what it does.</param>
+            /// <param name="chunkEnabledMask">Part of IJobChunk. Not sure what it does.</param>
+            public void Execute(in ArchetypeChunk chunk, int unfilteredChunkIndex, bool useEnabledMask, in v128 chunkEnabledMask)
+            {
+                NativeArray<Entity> entityNativeArray = chunk.GetNativeArray(m_EntityType);
+                NativeArray<Game.Objects.Transform> transformNativeArray = chunk.GetNativeArray(ref m_TransformType);
+                NativeArray<Game.Objects.Tree> treeNativeArray = chunk.GetNativeArray(ref m_TreeType);
+                NativeArray<Game.Prefabs.PrefabRef> prefabRefNativeArray = chunk.GetNativeArray(ref m_PrefabRefType);
+                bool hasTree = chunk.Has(ref m_TreeType);
+                for (int i = 0; i < chunk.Count; i++)
+                {
+                    if (!CheckForTreeWithinSelection(transformNativeArray[i].m_Position))
+                    {
+                        continue;
+                    }
+
+                    Entity prefab = prefabRefNativeArray[i].m_Prefab;
+                    if (m_OverridePrefab)
+                    {
+                        // This checks for plants that are not in the vegetation tab.
+                        if (!m_VegetationLookup.HasComponent(prefab))
+                        {
+                            continue;
+                        }
+                    }
+                    else if (!m_OverrideState || !hasTree)
+                    {
+                        continue;
+                    }
+
+                    if (!m_Filter.Check(entityNativeArray[i], prefab))
+                    {
+                        continue;
+                    }
+
+                    m_PrefabCounts.TryGetValue(prefab, out int count);
+                    m_PrefabCounts[prefab] = count + 1;
+                    if (hasTree)
+                    {
+                        m_AgeCounts[TreeUtils.GetAgeIndex(treeNativeArray[i].m_State)]++;
+                    }
+
+                    if (m_DrawCircles)
+                    {
+                        m_OverlayBuffer.DrawCircle(new UnityEngine.Color(.88f, .26f, 0.90f), default, 0.25f, 0, new float2(0, 1), transformNativeArray[i].m_Position, 3f);
                     }
                 }
             }
 
             /// <summary>
-            /// Gets a specified tree state or random tree state from Ages array.
+            /// Checks whether a tree position is within the radius, the polygon, or the whole map.
+            /// </summary>
+            /// <param name="treePosition">Float3 position from Transform.</param>
+            /// <returns>True if tree position is within the selection. False if not.</returns>
+            private bool CheckForTreeWithinSelection(float3 treePosition)
+            {
+                if (m_Selection == Selection.Map)
+                {
+                    return true;
+                }
+
+                if (m_Selection == Selection.Radius)
+                {
+                    return math.distance(m_Position.xz, treePosition.xz) < math.max(m_Radius, 1f);
+                }
+
+                return TreeUtils.IsWithinPolygon(treePosition.xz, m_Polygon, m_Min, m_Max);
+            }
+        }
+
+#if BURST
+        [BurstCompile]
+#endif
+        private struct TreeOverlayJob : IJobChunk
+        {
+            [ReadOnly]
+            public ComponentTypeHandle<Game.Objects.Transform> m_TransformType;
+            [ReadOnly]
+            public ComponentTypeHandle<Game.Objects.Tree> m_TreeType;
+            [ReadOnly]
+            public ComponentTypeHandle<PrefabRef> m_PrefabRefType;
+            [ReadOnly]
+            public ComponentTypeHandle<NoTreeGrowth> m_NoTreeGrowthType;
+            [ReadOnly]
+            public ComponentTypeHandle<FrozenGrowth> m_FrozenGrowthType;
+            [ReadOnly]
+            public ComponentTypeHandle<Lumber> m_LumberType;
+            [ReadOnly]
+            public ComponentLookup<Vegetation> m_VegetationLookup;
+            [ReadOnly]
+            public NativeHashMap<Entity, int> m_PrefabSets;
+            [ReadOnly]
+            public NativeList<Entity> m_SelectedPrefabs;
+            public TreeOverlay m_Overlay;
+            public float3 m_CameraPosition;
+            public FixedList128Bytes<float4> m_FrustumPlanes;
+            public OverlayRenderSystem.Buffer m_OverlayBuffer;
+
+            /// <summary>
+            /// Draws a filled marker on each tree in the color of its age, prefab set, or growth. The colors match the legend in the tool options.
             /// </summary>
-            /// <param name="ages">Selected ages.</param>
-            /// <param name="tree">Tree so original TreeState can be used if no ages are selected.</param>
-            /// <returns>TreeState.</returns>
-            private TreeState GetTreeState(NativeList<TreeState> ages, Game.Objects.Tree tree)
+            /// <param name="chunk">ArchetypeChunk of IJobChunk.</param>
+            /// <param name="unfilteredChunkIndex">Part of IJobChunk. Unused.</param>
+            /// <param name="useEnabledMask">Part of IJobChunk. Unsure what it does.</param>
+            /// <param name="chunkEnabledMask">Part of IJobChunk. Not sure what it does.</param>
+            public void Execute(in ArchetypeChunk chunk, int unfilteredChunkIndex, bool useEnabledMask, in v128 chunkEnabledMask)
+            {
+                bool hasTree = chunk.Has(ref m_TreeType);
+
+                // Plants without a tree component have no age or growth.
+                if (!hasTree && m_Overlay != TreeOverlay.PrefabSet)
+                {
+                    return;
+                }
+
+                NativeArray<Game.Objects.Transform> transformNativeArray = chunk.GetNativeArray(ref m_TransformType);
+                NativeArray<Game.Objects.Tree> treeNativeArray = chunk.GetNativeArray(ref m_TreeType);
+                NativeArray<PrefabRef> prefabRefNativeArray = chunk.GetNativeArray(ref m_PrefabRefType);
+                UnityEngine.Color growthColor = GetGrowthColor(chunk);
+                for (int i = 0; i < chunk.Count; i++)
+                {
+                    Entity prefab = prefabRefNativeArray[i].m_Prefab;
+
+                    // This checks for plants that are not in the vegetation tab.
+                    if (!m_VegetationLookup.HasComponent(prefab))
+                    {
+                        continue;
+                    }
+
+                    float3 position = transformNativeArray[i].m_Position;
+                    float distance = math.distance(position, m_CameraPosition);
+                    float diameter = math.clamp(distance * OverlayMarkerScale, OverlayMinMarker, OverlayMaxMarker);
+                    if (distance > OverlayMaxDistance || !IsInFrustum(position, diameter / 2f))
+                    {
+                        continue;
+                    }
+
+                    UnityEngine.Color color = growthColor;
+                    if (m_Overlay == TreeOverlay.Age)
+                    {
+                        color = GetAgeColor(treeNativeArray[i].m_State);
+                    }
+                    else if (m_Overlay == TreeOverlay.PrefabSet)
+                    {
+                        color = GetPrefabSetColor(prefab);
+                    }
+
+                    m_OverlayBuffer.DrawCircle(color, new UnityEngine.Color(color.r, color.g, color.b, 0.5f), diameter / 8f, 0, new float2(0, 1), position, diameter);
+                }
+            }
+
+            private bool IsInFrustum(float3 position, float radius)
+            {
+                for (int i = 0; i < m_FrustumPlanes.Length; i++)
+                {
+                    float4 plane = m_FrustumPlanes[i];
+                    if (math.dot(plane.xyz, position) + plane.w < -radius)
+                    {
+                        return false;
+                    }
+                }
+
+                return true;
+            }
+
+            private UnityEngine.Color GetAgeColor(TreeState state)
+            {
+                switch (TreeUtils.GetAge(state))
+                {
+                    case Ages.Dead:
+                        return new UnityEngine.Color(.55f, .40f, .30f, 1f);
+                    case Ages.Elderly:
+                        return new UnityEngine.Color(.95f, .60f, .15f, 1f);
+                    case Ages.Adult:
+                        return new UnityEngine.Color(.10f, .45f, .20f, 1f);
+                    case Ages.Teen:
+                        return new UnityEngine.Color(.25f, .75f, .30f, 1f);
+                    default:
+                        return new UnityEngine.Color(.60f, .90f, .45f, 1f);
+                }
+            }
+
+            private UnityEngine.Color GetPrefabSetColor(Entity prefab)
+            {
+                if (m_SelectedPrefabs.Contains(prefab))
+                {
+                    return new UnityEngine.Color(.88f, .26f, .90f, 1f);
+                }
+
+                if (m_PrefabSets.TryGetValue(prefab, out int set))
+                {
+                    if (set == 0)
+                    {
+                        return new UnityEngine.Color(.35f, .80f, .30f, 1f);
+                    }
+                    else if (set == 1)
+                    {
+                        return new UnityEngine.Color(.10f, .45f, .40f, 1f);
+                    }
+                    else if (set == 2)
+                    {
+                        return new UnityEngine.Color(.95f, .80f, .25f, 1f);
+                    }
+
+                    return new UnityEngine.Color(.30f, .55f, .95f, 1f);
+                }
+
+                return new UnityEngine.Color(.60f, .60f, .60f, 1f);
+            }
+
+            private UnityEngine.Color GetGrowthColor(in ArchetypeChunk chunk)
             {
-                if (ages.Length > 0)
+                if (chunk.Has(ref m_FrozenGrowthType))
+                {
+                    return new UnityEngine.Color(.52f, .80f, .86f, 1f);
+                }
+                else if (chunk.Has(ref m_LumberType))
                 {
-                    TreeState returnState = ages[m_Random.NextInt(ages.Length)];
-                    return returnState;
+                    return new UnityEngine.Color(.75f, .50f, .25f, 1f);
                 }
+                else if (chunk.Has(ref m_NoTreeGrowthType))
+                {
+                    return new UnityEngine.Color(.90f, .30f, .25f, 1f);
+                }
+
+                return new UnityEngine.Color(.35f, .80f, .30f, 1f);
+            }
+        }
+
+#if BURST
+        [BurstCompile]
+#endif
+        private struct CollectTreeChangeRecordsJob : IJob
+        {
+            public NativeQueue<TreeChangeRecord> m_Queue;
+            public NativeList<TreeChangeRecord> m_Records;
 
-                return tree.m_State;
+            /// <summary>
+            /// Moves the records written by the change jobs into a list.
+            /// </summary>
+            public void Execute()
+            {
+                while (m_Queue.TryDequeue(out TreeChangeRecord record))
+                {
+                    m_Records.Add(record);
+                }
             }
         }
 
@@ -991,6 +2310,39 @@ namespace Tree_Controller.Tools
             }
         }
 
+#if BURST
+        [BurstCompile]
+#endif
+        private struct AreaSelectionRenderJob : IJob
+        {
+            public OverlayRenderSystem.Buffer m_OverlayBuffer;
+            [ReadOnly]
+            public NativeList<float3> m_Points;
+            public bool m_Closed;
+            public bool m_MarkPoints;
+
+            /// <summary>
+            /// Draws the outline of a rectangle, lasso, or district selection.
+            /// </summary>
+            public void Execute()
+            {
+                UnityEngine.Color color = new UnityEngine.Color(.52f, .80f, .86f, 1f);
+                int segments = m_Closed ? m_Points.Length : m_Points.Length - 1;
+                for (int i = 0; i < segments; i++)
+                {
+                    m_OverlayBuffer.DrawLine(color, new Line3.Segment(m_Points[i], m_Points[(i + 1) % m_Points.Length]), 1f);
+                }
+
+                if (m_MarkPoints)
+                {
+                    for (int i = 0; i < m_Points.Length; i++)
+                    {
+                        m_OverlayBuffer.DrawCircle(color, default, 0.25f, 0, new float2(0, 1), m_Points[i], 3f);
+                    }
+                }
+            }
+        }
+
 #if BURST
         [BurstCompile]
 #endif
@@ -998,11 +2350,15 @@ namespace Tree_Controller.Tools
         {
             public Entity m_Entity;
             public NativeList<Entity> m_SelectedPrefabEntities;
+            public NativeList<float> m_PrefabWeights;
             public EntityCommandBuffer buffer;
             public Unity.Mathematics.Random m_Random;
             public NativeList<TreeState> m_Ages;
+            public NativeList<float> m_AgeWeights;
             public ComponentLookup<TreeData> m_TreeDataLookup;
             public ComponentLookup<Tree> m_TreeLookup;
+            public ComponentLookup<PrefabRef> m_PrefabRefLookup;
+            public NativeQueue<TreeChangeRecord>.ParallelWriter m_History;
 
             /// <summary>
             /// Changes prefab ref for specified entity.
@@ -1012,44 +2368,36 @@ namespace Tree_Controller.Tools
                 PrefabRef prefabRef;
                 if (!m_SelectedPrefabEntities.IsEmpty)
                 {
-                    prefabRef = new PrefabRef(m_SelectedPrefabEntities[m_Random.NextInt(m_SelectedPrefabEntities.Length)]);
+                    prefabRef = new PrefabRef(TreeUtils.GetPrefabEntity(ref m_Random, m_SelectedPrefabEntities, m_PrefabWeights));
+                    bool hadTree = m_TreeLookup.HasComponent(m_Entity);
+                    Tree oldTree = hadTree ? m_TreeLookup[m_Entity] : default;
+                    Tree newTree = oldTree;
+                    bool hasTree = hadTree;
 
                     // convert plant to tree.
                     if (m_TreeDataLookup.HasComponent(prefabRef.m_Prefab) && !m_TreeLookup.HasComponent(m_Entity))
                     {
                         buffer.AddComponent<Tree>(m_Entity);
-                        Tree tree = new () { m_Growth = 0, m_State = GetTreeState(m_Ages) };
+                        Tree tree = new () { m_Growth = 0, m_State = TreeUtils.GetTreeState(ref m_Random, m_Ages, m_AgeWeights, TreeState.Adult) };
                         buffer.SetComponent(m_Entity, tree);
+                        newTree = tree;
+                        hasTree = true;
                     }
 
                     // convert tree to plant.
                     else if (!m_TreeDataLookup.HasComponent(prefabRef.m_Prefab) && m_TreeLookup.HasComponent(m_Entity))
                     {
                         buffer.RemoveComponent<Tree>(m_Entity);
+                        hasTree = false;
                     }
 
                     buffer.RemoveComponent<DeciduousData>(m_Entity);
                     buffer.RemoveComponent<Evergreen>(m_Entity);
                     buffer.SetComponent(m_Entity, prefabRef);
                     buffer.AddComponent<Updated>(m_Entity);
+                    m_History.Enqueue(new TreeChangeRecord(m_Entity, m_PrefabRefLookup[m_Entity].m_Prefab, prefabRef.m_Prefab, oldTree, newTree, hadTree, hasTree));
                 }
             }
-
-            /// <summary>
-            /// Gets a specified tree state or random tree state from Ages array.
-            /// </summary>
-            /// <param name="ages">Selected ages.</param>
-            /// <returns>TreeState.</returns>
-            private TreeState GetTreeState(NativeList<TreeState> ages)
-            {
-                if (ages.Length > 0)
-                {
-                    TreeState returnState = ages[m_Random.NextInt(ages.Length)];
-                    return returnState;
-                }
-
-                return TreeState.Adult;
-            }
         }
 
 #if BURST
@@ -1060,34 +2408,21 @@ namespace Tree_Controller.Tools
             public Entity m_Entity;
             public Tree m_Tree;
             public NativeList<TreeState> m_Ages;
+            public NativeList<float> m_AgeWeights;
             public EntityCommandBuffer buffer;
             public Unity.Mathematics.Random m_Random;
+            public NativeQueue<TreeChangeRecord>.ParallelWriter m_History;
 
             /// <summary>
             /// Changes TreeState for specfied tree entity.
             /// </summary>
             public void Execute()
             {
-                m_Tree.m_State = GetTreeState(m_Ages, m_Tree);
+                Tree oldTree = m_Tree;
+                m_Tree.m_State = TreeUtils.GetTreeState(ref m_Random, m_Ages, m_AgeWeights, m_Tree.m_State);
                 buffer.SetComponent(m_Entity, m_Tree);
                 buffer.AddComponent<BatchesUpdated>(m_Entity);
-            }
-
-            /// <summary>
-            /// Gets a specified tree state or random tree state from Ages array.
-            /// </summary>
-            /// <param name="ages">Selected ages.</param>
-            /// <param name="tree">Tree so original TreeState can be used if no ages are selected.</param>
-            /// <returns>TreeState.</returns>
-            private TreeState GetTreeState(NativeList<TreeState> ages, Game.Objects.Tree tree)
-            {
-                if (ages.Length > 0)
-                {
-                    TreeState returnState = ages[m_Random.NextInt(ages.Length)];
-                    return returnState;
-                }
-
-                return tree.m_State;
+                m_History.Enqueue(new TreeChangeRecord(m_Entity, Entity.Null, Entity.Null, oldTree, m_Tree, true, true));
             }
         }
     }
@@ -5,9 +5,13 @@
 namespace Tree_Controller.Tools
 {
     using System.Collections.Generic;
+    using Colossal.Entities;
+    using Game.Objects;
+    using Game.Prefabs;
     using Game.Tools;
     using Game.UI.Localization;
     using Game.UI.Tooltip;
+    using Tree_Controller.Utils;
     using Unity.Entities;
 
     /// <summary>
@@ -21,12 +25,31 @@ namespace Tree_Controller.Tools
         private readonly Dictionary<Selection, StringTooltip> m_ToolModeToolTipsDictionary = new ()
         {
              { Selection.Map, new StringTooltip() { path = "Options.TOOLTIPYYTC[WholeMapApply]", value = LocalizedString.IdWithFallback("Options.TOOLTIPYYTC[WholeMapApply]", "Right Click to Apply.") } },
+             { Selection.Rectangle, new StringTooltip() { path = "Options.TOOLTIPYYTC[RectangleApply]", value = LocalizedString.IdWithFallback("Options.TOOLTIPYYTC[RectangleApply]", "Click and drag to select a rectangle. Release to apply.") } },
+             { Selection.Lasso, new StringTooltip() { path = "Options.TOOLTIPYYTC[LassoApply]", value = LocalizedString.IdWithFallback("Options.TOOLTIPYYTC[LassoApply]", "Click to add points. Click the first point to close and apply. Right click removes the last point.") } },
+             { Selection.District, new StringTooltip() { path = "Options.TOOLTIPYYTC[DistrictApply]", value = LocalizedString.IdWithFallback("Options.TOOLTIPYYTC[DistrictApply]", "Click a district to apply.") } },
+        };
+
+        /// <summary>
+        /// A dictionary of owner tooltips for the eyedropper.
+        /// </summary>
+        private readonly Dictionary<TreeOwners, StringTooltip> m_OwnerTooltipsDictionary = new ()
+        {
+             { TreeOwners.FreeStanding, new StringTooltip() { path = "Options.TOOLTIPYYTC[EyedropperFreeStanding]", value = LocalizedString.IdWithFallback("Options.TOOLTIPYYTC[EyedropperFreeStanding]", "Free-standing") } },
+             { TreeOwners.Building, new StringTooltip() { path = "Options.TOOLTIPYYTC[EyedropperBuilding]", value = LocalizedString.IdWithFallback("Options.TOOLTIPYYTC[EyedropperBuilding]", "Part of a building") } },
+             { TreeOwners.Network, new StringTooltip() { path = "Options.TOOLTIPYYTC[EyedropperNetwork]", value = LocalizedString.IdWithFallback("Options.TOOLTIPYYTC[EyedropperNetwork]", "Part of a network") } },
         };
 
         private ToolSystem m_ToolSystem;
+        private PrefabSystem m_PrefabSystem;
         private TreeControllerTool m_TreeControllerTool;
         private TreeControllerUISystem m_TreeControllerUISystem;
         private StringTooltip m_ToolModeTooltip;
+        private StringTooltip m_EyedropperTooltip;
+        private StringTooltip m_AddToSelectionTooltip;
+        private string m_AddToSelectionBinding;
+        private StringTooltip m_PrefabTooltip;
+        private StringTooltip m_AgeTooltip;
 
         /// <summary>
         /// Initializes a new instance of the <see cref="TreeControllerTooltipSystem"/> class.
@@ -40,9 +63,14 @@ namespace Tree_Controller.Tools
         {
             base.OnCreate();
             m_ToolSystem = World.GetOrCreateSystemManaged<ToolSystem>();
+            m_PrefabSystem = World.GetOrCreateSystemManaged<PrefabSystem>();
             m_TreeControllerTool = World.GetOrCreateSystemManaged<TreeControllerTool>();
             m_TreeControllerUISystem = World.GetOrCreateSystemManaged<TreeControllerUISystem>();
             m_ToolModeTooltip = new StringTooltip();
+            m_EyedropperTooltip = new StringTooltip() { path = "Options.TOOLTIPYYTC[Eyedropper]", value = LocalizedString.IdWithFallback("Options.TOOLTIPYYTC[Eyedropper]", "Click a tree to pick its type and age.") };
+            m_AddToSelectionTooltip = new StringTooltip() { path = "Options.TOOLTIPYYTC[EyedropperAddToSelection]" };
+            m_PrefabTooltip = new StringTooltip() { path = "YYTCEyedropperPrefab" };
+            m_AgeTooltip = new StringTooltip() { path = "YYTCEyedropperAge" };
         }
 
         /// <inheritdoc/>
@@ -53,6 +81,12 @@ namespace Tree_Controller.Tools
                 return;
             }
 
+            if (m_TreeControllerUISystem.EyedropperActive)
+            {
+                AddEyedropperTooltips();
+                return;
+            }
+
             if (m_ToolModeToolTipsDictionary.ContainsKey(m_TreeControllerUISystem.SelectionMode))
             {
                 m_ToolModeTooltip = m_ToolModeToolTipsDictionary[m_TreeControllerUISystem.SelectionMode];
@@ -65,5 +99,49 @@ namespace Tree_Controller.Tools
         {
             base.OnDestroy();
         }
+
+        /// <summary>
+        /// Shows the prefab, age, and owner of the tree under the eyedropper before it is picked.
+        /// </summary>
+        private void AddEyedropperTooltips()
+        {
+            AddMouseTooltip(m_EyedropperTooltip);
+
+            // The hint uses the current binding of the add picked tree action and is hidden if the action is unbound.
+            string binding = m_TreeControllerUISystem.GetKeyBindingText(TreeControllerMod.Instance.Settings.AddPickedTreeBinding);
+            if (binding != m_AddToSelectionBinding)
+            {
+                m_AddToSelectionBinding = binding;
+                m_AddToSelectionTooltip.value = new LocalizedString("Options.TOOLTIPYYTC[EyedropperAddToSelection]", "{0} adds it to the selection.", new Dictionary<string, ILocElement>() { { "0", LocalizedString.Value(binding) } });
+            }
+
+            if (!string.IsNullOrEmpty(binding))
+            {
+                AddMouseTooltip(m_AddToSelectionTooltip);
+            }
+
+            if (!m_TreeControllerTool.TryGetHoveredTree(out Entity tree, out TreeOwners owner)
+                || !EntityManager.TryGetComponent(tree, out PrefabRef prefabRef)
+                || !m_PrefabSystem.TryGetPrefab(prefabRef.m_Prefab, out PrefabBase prefab))
+            {
+                return;
+            }
+
+            m_PrefabTooltip.value = LocalizedString.IdWithFallback($"Assets.NAME[{prefab.name}]", prefab.name);
+            AddMouseTooltip(m_PrefabTooltip);
+
+            // Plants without a tree component have no age.
+            if (EntityManager.TryGetComponent(tree, out Tree treeData))
+            {
+                string age = TreeUtils.GetAge(treeData.m_State).ToString().ToLowerInvariant();
+                m_AgeTooltip.value = LocalizedString.IdWithFallback($"YY_TREE_CONTROLLER[{age}]", age);
+                AddMouseTooltip(m_AgeTooltip);
+            }
+
+            if (m_OwnerTooltipsDictionary.ContainsKey(owner))
+            {
+                AddMouseTooltip(m_OwnerTooltipsDictionary[owner]);
+            }
+        }
     }
 }
@@ -8,11 +8,14 @@ namespace Tree_Controller.Tools
     using System;
     using System.Collections.Generic;
     using System.IO;
+    using System.Linq;
     using System.Xml.Serialization;
     using Colossal.Annotations;
+    using Colossal.Entities;
     using Colossal.Logging;
     using Colossal.PSI.Environment;
     using Colossal.UI.Binding;
+    using Game.Input;
     using Game.Objects;
     using Game.Prefabs;
     using Game.SceneFlow;
@@ -20,10 +23,10 @@ namespace Tree_Controller.Tools
     using Game.UI;
     using Tree_Controller.Settings;
     using Tree_Controller.Systems;
+    using Tree_Controller.Utils;
     using Unity.Collections;
     using Unity.Entities;
     using Unity.Jobs;
-    using UnityEngine.InputSystem;
 
     /// <summary>
     /// UI system for Object Tool while using tree prefabs.
@@ -31,14 +34,31 @@ namespace Tree_Controller.Tools
     public partial class TreeControllerUISystem : UISystemBase
     {
         private const string ModId = "Tree_Controller";
+        private const int WeightSaveDelay = 30;
 
-        private readonly Dictionary<TreeState, float> AgeWeights = new ()
+        private readonly Ages[] m_AgeOrder = new Ages[] { Ages.Child, Ages.Teen, Ages.Adult, Ages.Elderly, Ages.Dead };
+
+        // Freeze Growth and Resume Growth are left out so the shortcut only cycles through the modes it describes.
+        private readonly ToolMode[] m_CycledToolModes = new ToolMode[] { ToolMode.Plop, ToolMode.Brush, ToolMode.ChangeAge, ToolMode.ChangeType };
+
+        private readonly TreeState[] m_TreeStateOrder = new TreeState[] { 0, TreeState.Teen, TreeState.Adult, TreeState.Elderly, TreeState.Dead };
+
+        private readonly Dictionary<AgePreset, int[]> m_AgePresets = new ()
         {
-            { 0, ObjectUtils.TREE_AGE_PHASE_CHILD },
-            { TreeState.Teen,  ObjectUtils.TREE_AGE_PHASE_TEEN },
-            { TreeState.Adult, ObjectUtils.TREE_AGE_PHASE_ADULT },
-            { TreeState.Elderly, ObjectUtils.TREE_AGE_PHASE_ELDERLY },
-            { TreeState.Dead, ObjectUtils.TREE_AGE_PHASE_DEAD },
+            { AgePreset.Equal, new int[] { 20, 20, 20, 20, 20 } },
+            {
+                AgePreset.Forest, new int[]
+                {
+                    (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_CHILD * 100f),
+                    (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_TEEN * 100f),
+                    (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_ADULT * 100f),
+                    (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_ELDERLY * 100f),
+                    (int)Math.Round(ObjectUtils.TREE_AGE_PHASE_DEAD * 100f),
+                }
+            },
+            { AgePreset.YoungPlantation, new int[] { 40, 40, 20, 0, 0 } },
+            { AgePreset.OldGrowthForest, new int[] { 5, 10, 35, 45, 5 } },
+            { AgePreset.DyingGrove, new int[] { 0, 0, 10, 40, 50 } },
         };
 
         private readonly List<PrefabID> m_VanillaDeciduousPrefabIDs = new()
@@ -66,63 +86,107 @@ namespace Tree_Controller.Tools
             { new PrefabID("StaticObjectPrefab", "FlowerBushWild02") },
         };
 
-        private readonly List<PrefabID> m_DefaultCustomSet1Prefabs = new()
-        {
-            { new PrefabID("StaticObjectPrefab", "NA_LondonPlaneTree01") },
-            { new PrefabID("StaticObjectPrefab", "NA_LindenTree01") },
-            { new PrefabID("StaticObjectPrefab", "NA_HickoryTree01") },
-        };
-
-        private readonly List<PrefabID> m_DefaultCustomSet2Prefabs = new()
-        {
-            { new PrefabID("StaticObjectPrefab", "EU_AlderTree01") },
-            { new PrefabID("StaticObjectPrefab", "EU_ChestnutTree01") },
-            { new PrefabID("StaticObjectPrefab", "EU_PoplarTree01") },
-        };
-
-        private readonly List<PrefabID> m_DefaultCustomSet3Prefabs = new()
-        {
-            { new PrefabID("StaticObjectPrefab", "BirchTree01") },
-            { new PrefabID("StaticObjectPrefab", "OakTree01") },
-            { new PrefabID("StaticObjectPrefab", "AppleTree01") },
-        };
-
-        private readonly List<PrefabID> m_DefaultCustomSet4Prefabs = new()
-        {
-            { new PrefabID("StaticObjectPrefab", "BirchTree01") },
-            { new PrefabID("StaticObjectPrefab", "EU_PoplarTree01") },
-        };
-
-        private readonly List<PrefabID> m_DefaultCustomSet5Prefabs = new()
+        private readonly List<PrefabID>[] m_DefaultCustomSetsPrefabs = new List<PrefabID>[]
         {
-            { new PrefabID("StaticObjectPrefab", "EU_ChestnutTree01") },
-            { new PrefabID("StaticObjectPrefab", "NA_LondonPlaneTree01") },
-            { new PrefabID("StaticObjectPrefab", "NA_LindenTree01") },
+            new ()
+            {
+                { new PrefabID("StaticObjectPrefab", "NA_LondonPlaneTree01") },
+                { new PrefabID("StaticObjectPrefab", "NA_LindenTree01") },
+                { new PrefabID("StaticObjectPrefab", "NA_HickoryTree01") },
+            },
+            new ()
+            {
+                { new PrefabID("StaticObjectPrefab", "EU_AlderTree01") },
+                { new PrefabID("StaticObjectPrefab", "EU_ChestnutTree01") },
+                { new PrefabID("StaticObjectPrefab", "EU_PoplarTree01") },
+            },
+            new ()
+            {
+                { new PrefabID("StaticObjectPrefab", "BirchTree01") },
+                { new PrefabID("StaticObjectPrefab", "OakTree01") },
+                { new PrefabID("StaticObjectPrefab", "AppleTree01") },
+            },
+            new ()
+            {
+                { new PrefabID("StaticObjectPrefab", "BirchTree01") },
+                { new PrefabID("StaticObjectPrefab", "EU_PoplarTree01") },
+            },
+            new ()
+            {
+                { new PrefabID("StaticObjectPrefab", "EU_ChestnutTree01") },
+                { new PrefabID("StaticObjectPrefab", "NA_LondonPlaneTree01") },
+                { new PrefabID("StaticObjectPrefab", "NA_LindenTree01") },
+            },
         };
 
-
         private cohtml.Net.View m_UiView;
         private ToolSystem m_ToolSystem;
         private PrefabSystem m_PrefabSystem;
         private ObjectToolSystem m_ObjectToolSystem;
         private TreeObjectDefinitionSystem m_TreeObjectDefinitionSystem;
         private TreeControllerTool m_TreeControllerTool;
+        private TreeCensusSystem m_TreeCensusSystem;
         private ILog m_Log;
         private Dictionary<string, List<PrefabID>> m_PrefabSetsLookup;
+        private List<CustomSetRepository> m_CustomSets;
         private string m_ContentFolder;
         private EntityQuery m_VegetationQuery;
         private ValueBinding<int> m_ToolMode;
         private List<Entity> m_ThemeEntities;
         private ValueBinding<int> m_SelectionMode;
         private ValueBinding<int> m_SelectedAges;
+        private ValueBinding<int[]> m_AgeWeights;
         private ValueBinding<float> m_Radius;
         private ValueBinding<bool> m_IsVegetation;
         private ValueBinding<bool> m_IsTree;
         private ValueBinding<string> m_SelectedPrefabSet;
+        private ValueBinding<PrefabSetData[]> m_CustomSetsBinding;
+        private ValueBinding<RegisteredPrefabSetData[]> m_RegisteredSetsBinding;
+        private int m_RegisteredSetsVersion = -1;
+        private int m_CustomSetsVersion = 0;
+        private ValueBinding<PrefabWeightData[]> m_SetComposition;
+        private ValueBinding<TreeChangeBatchData[]> m_History;
+        private ValueBinding<int> m_PreviewCount;
+        private ValueBinding<int[]> m_PreviewAgeCounts;
+        private ValueBinding<PrefabCountData[]> m_PreviewPrefabCounts;
+        private ValueBinding<int> m_WholeMapConfirmation;
+        private ValueBinding<int> m_ChangeAgeOwners;
+        private ValueBinding<int> m_ChangeTypeOwners;
+        private ValueBinding<string[]> m_SourcePrefabs;
+        private ValueBinding<bool> m_ShowSetManager;
+        private ValueBinding<bool> m_ShowCensus;
+        private ValueBinding<TreeCensusData[]> m_Census;
+        private ValueBinding<string> m_ExportString;
+        private ValueBinding<int> m_ImportStatus;
+        private ValueBinding<string[]> m_ImportMissingPrefabs;
+        private ValueBinding<KeyBindingData[]> m_KeyBindings;
+        private ValueBinding<bool> m_RandomRotation;
+        private ValueBinding<bool> m_FixedRotation;
+        private ValueBinding<int> m_RotationAngle;
+        private ValueBinding<int> m_RotationJitter;
+        private ValueBinding<int> m_BrushDensity;
+        private ValueBinding<int> m_BrushSpacing;
+        private ValueBinding<int> m_Overlay;
+        private ValueBinding<bool> m_Eyedropper;
+        private ProxyAction m_CycleToolModeAction;
+        private ProxyAction m_CycleSelectionModeAction;
+        private ProxyAction m_IncreaseRadiusAction;
+        private ProxyAction m_DecreaseRadiusAction;
+        private ProxyAction m_ScrollRadiusAction;
+        private ProxyAction[] m_ToggleAgeActions;
+        private ProxyAction[] m_RecallSetActions;
+        private ProxyAction[] m_SaveSetActions;
         private bool m_UpdateSelectionSet = false;
+        private bool m_UpdateSetComposition = false;
+        private bool m_UpdateHistory = false;
+        private bool m_UpdatePreview = false;
+        private bool m_UpdateCensus = false;
         private bool m_RecentlySelectedPrefabSet = false;
         private bool m_MultiplePrefabsSelected = false;
+        private bool m_CustomSetStoreWritable = true;
         private int m_FrameCount = 0;
+        private int m_AgeWeightsSaveCountdown = 0;
+        private int m_CustomSetStoreSaveCountdown = 0;
         [CanBeNull]
         private PrefabBase m_TrySetPrefabNextFrame;
 
@@ -135,6 +199,42 @@ namespace Tree_Controller.Tools
             set => m_UpdateSelectionSet = value;
         }
 
+        /// <summary>
+        /// Gets or sets a value indicating whether the prefabs and weights in the Composition section need to be updated.
+        /// </summary>
+        public bool UpdateSetComposition
+        {
+            get => m_UpdateSetComposition;
+            set => m_UpdateSetComposition = value;
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the batches in the History section need to be updated.
+        /// </summary>
+        public bool UpdateHistory
+        {
+            get => m_UpdateHistory;
+            set => m_UpdateHistory = value;
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the counts in the Affected Trees section need to be updated.
+        /// </summary>
+        public bool UpdatePreview
+        {
+            get => m_UpdatePreview;
+            set => m_UpdatePreview = value;
+        }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether the rows in the tree census panel need to be updated.
+        /// </summary>
+        public bool UpdateCensus
+        {
+            get => m_UpdateCensus;
+            set => m_UpdateCensus = value;
+        }
+
         /// <summary>
         /// Gets or sets a value indicating the list of theme entities selected.
         /// </summary>
@@ -157,6 +257,11 @@ namespace Tree_Controller.Tools
         /// </summary>
         public ToolMode CurrentToolMode { get => (ToolMode)m_ToolMode.value; }
 
+        /// <summary>
+        /// Gets the owners of trees that the current tool mode is allowed to change.
+        /// </summary>
+        public TreeOwners OwnerFilter { get => (TreeOwners)(CurrentToolMode == ToolMode.ChangeType ? m_ChangeTypeOwners.value : m_ChangeAgeOwners.value); }
+
         /// <summary>
         /// Gets the Selection mode for tree controller tool.
         /// </summary>
@@ -172,6 +277,26 @@ namespace Tree_Controller.Tools
         /// </summary>
         public bool AtLeastOneAgeSelected { get => m_SelectedAges.value != 0; }
 
+        /// <summary>
+        /// Gets the ages selected in the Age section.
+        /// </summary>
+        public Ages SelectedAges { get => (Ages)m_SelectedAges.value; }
+
+        /// <summary>
+        /// Gets the overlay drawn while the Tree Controller tool is active.
+        /// </summary>
+        public TreeOverlay Overlay { get => (TreeOverlay)m_Overlay.value; }
+
+        /// <summary>
+        /// Gets a number that changes every time a custom set is created, changed, or removed.
+        /// </summary>
+        public int CustomSetsVersion { get => m_CustomSetsVersion; }
+
+        /// <summary>
+        /// Gets a value indicating whether the eyedropper is picking trees instead of the tool changing them.
+        /// </summary>
+        public bool EyedropperActive { get => m_Eyedropper.value; }
+
         /// <summary>
         /// Sets a value indicating what to try to set prefab to next frame.
         /// </summary>
@@ -191,6 +316,35 @@ namespace Tree_Controller.Tools
             m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ResetPrefabSets)} Resetting prefab sets.");
         }
 
+        /// <summary>
+        /// Fills a hash map with the prefab entities of the prefab sets for the prefab set overlay.
+        /// </summary>
+        /// <param name="prefabSets">Hash map of prefab entity to the index of the set: deciduous trees, evergreen trees, wild bushes, then custom or registered sets for prefabs that are not in a built-in set.</param>
+        public void GetPrefabSets(NativeHashMap<Entity, int> prefabSets)
+        {
+            List<List<PrefabID>> sets = new List<List<PrefabID>>() { m_VanillaDeciduousPrefabIDs, m_VanillaEvergreenPrefabIDs, m_VanillaWildBushPrefabs };
+            foreach (CustomSetRepository customSet in m_CustomSets)
+            {
+                sets.Add(customSet.GetPrefabIDs());
+            }
+
+            foreach (RegisteredPrefabSet registeredSet in PrefabSetRegistry.GetPrefabSets())
+            {
+                sets.Add(registeredSet.PrefabIDs);
+            }
+
+            for (int i = 0; i < sets.Count; i++)
+            {
+                foreach (PrefabID id in sets[i])
+                {
+                    if (m_PrefabSystem.TryGetPrefab(id, out PrefabBase prefab) && m_PrefabSystem.TryGetEntity(prefab, out Entity prefabEntity))
+                    {
+                        prefabSets.TryAdd(prefabEntity, Math.Min(i, 3));
+                    }
+                }
+            }
+        }
+
         /// <summary>
         /// Gets a native list of tree states from selected ages.
         /// </summary>
@@ -207,32 +361,43 @@ namespace Tree_Controller.Tools
                 return treeState;
             }
 
-            if ((seletedAges & Ages.Child) == Ages.Child)
+            for (int i = 0; i < m_AgeOrder.Length; i++)
             {
-                treeState.Add(0);
+                if ((seletedAges & m_AgeOrder[i]) == m_AgeOrder[i])
+                {
+                    treeState.Add(m_TreeStateOrder[i]);
+                }
             }
 
-            if ((seletedAges & Ages.Teen) == Ages.Teen)
-            {
-                treeState.Add(TreeState.Teen);
-            }
+            return treeState;
+        }
 
-            if ((seletedAges & Ages.Adult) == Ages.Adult)
-            {
-                treeState.Add(TreeState.Adult);
-            }
+        /// <summary>
+        /// Gets a native list of age weights that matches the order of <see cref="GetSelectedAges"/>.
+        /// </summary>
+        /// <returns>Native List of weights.</returns>
+        public NativeList<float> GetSelectedAgeWeights()
+        {
+            Ages seletedAges = (Ages)m_SelectedAges.value;
+            int[] ageWeights = GetAgeWeights();
 
-            if ((seletedAges & Ages.Elderly) == Ages.Elderly)
+            NativeList<float> weights = new NativeList<float>(Allocator.TempJob);
+
+            if (seletedAges == Ages.None)
             {
-                treeState.Add(TreeState.Elderly);
+                weights.Add(1f);
+                return weights;
             }
 
-            if ((seletedAges & Ages.Dead) == Ages.Dead)
+            for (int i = 0; i < m_AgeOrder.Length; i++)
             {
-                treeState.Add(TreeState.Dead);
+                if ((seletedAges & m_AgeOrder[i]) == m_AgeOrder[i])
+                {
+                    weights.Add(ageWeights[i]);
+                }
             }
 
-            return treeState;
+            return weights;
         }
 
         /// <summary>
@@ -243,82 +408,110 @@ namespace Tree_Controller.Tools
         public TreeState GetNextTreeState(ref Unity.Mathematics.Random random)
         {
             List<TreeState> selectedTreeStates = new List<TreeState>();
+            List<int> selectedWeights = new List<int>();
             Ages seletedAges = (Ages)m_SelectedAges.value;
             if (seletedAges == Ages.None)
             {
                 return TreeState.Adult;
             }
 
-            if ((seletedAges & Ages.Child) == Ages.Child)
+            int[] ageWeights = GetAgeWeights();
+            for (int i = 0; i < m_AgeOrder.Length; i++)
             {
-                selectedTreeStates.Add(0);
+                if ((seletedAges & m_AgeOrder[i]) == m_AgeOrder[i])
+                {
+                    selectedTreeStates.Add(m_TreeStateOrder[i]);
+                    selectedWeights.Add(ageWeights[i]);
+                }
             }
 
-            if ((seletedAges & Ages.Teen) == Ages.Teen)
+            if (selectedTreeStates.Count == 1)
             {
-                selectedTreeStates.Add(TreeState.Teen);
+                return selectedTreeStates[0];
             }
 
-            if ((seletedAges & Ages.Adult) == Ages.Adult)
+            int iterations = random.NextInt(10);
+            for (int i = 0; i < iterations; i++)
             {
-                selectedTreeStates.Add(TreeState.Adult);
+                random.NextInt();
             }
 
-            if ((seletedAges & Ages.Elderly) == Ages.Elderly)
+            int totalWeight = 0;
+            for (int i = 0; i < selectedWeights.Count; i++)
             {
-                selectedTreeStates.Add(TreeState.Elderly);
+                totalWeight += selectedWeights[i];
             }
 
-            if ((seletedAges & Ages.Dead) == Ages.Dead)
+            // If every selected age has no weight they are treated equally.
+            if (totalWeight <= 0)
             {
-                selectedTreeStates.Add(TreeState.Dead);
+                return selectedTreeStates[random.NextInt(selectedTreeStates.Count)];
             }
 
-            if (selectedTreeStates.Count == 1)
+            int randomWeight = random.NextInt(totalWeight);
+            int currentWeight = 0;
+            for (int i = 0; i < selectedTreeStates.Count; i++)
             {
-                return selectedTreeStates[0];
+                currentWeight += selectedWeights[i];
+                if (randomWeight < currentWeight)
+                {
+                    return selectedTreeStates[i];
+                }
             }
 
-            int iterations = random.NextInt(10);
-            for (int i = 0; i < iterations; i++)
+            return selectedTreeStates[selectedTreeStates.Count - 1];
+        }
+
+        /// <summary>
+        /// Loads the prefab and age of a tree picked with the eyedropper into the selection and the Age section.
+        /// </summary>
+        /// <param name="tree">The picked tree or plant.</param>
+        /// <param name="addToSelection">True to add the prefab and age to the current selection. False to replace the selection.</param>
+        public void PickTree(Entity tree, bool addToSelection)
+        {
+            if (!EntityManager.TryGetComponent(tree, out PrefabRef prefabRef) || !m_PrefabSystem.TryGetPrefab(prefabRef.m_Prefab, out PrefabBase prefab))
             {
-                random.NextInt();
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(PickTree)} could not find the prefab of {tree.Index}.{tree.Version}");
+                return;
             }
 
-            switch (TreeControllerMod.Instance.Settings.AgeSelectionTechnique)
+            // Only modes that place or change types use the selected prefabs. Loading the picked prefab in other modes would change tree types on the next apply.
+            bool loadPrefab = CurrentToolMode == ToolMode.ChangeType || CurrentToolMode == ToolMode.Plop || CurrentToolMode == ToolMode.Brush;
+            if (loadPrefab)
             {
-                case TreeControllerSettings.AgeSelectionOptions.RandomEqualWeight:
-                    return selectedTreeStates[random.NextInt(selectedTreeStates.Count)];
+                m_SelectedPrefabSet.Update(string.Empty);
+                if (!addToSelection)
+                {
+                    UnselectPrefabs();
+                    m_TreeControllerTool.ClearSelectedTreePrefabs();
+                }
 
-                case TreeControllerSettings.AgeSelectionOptions.RandomWeighted:
-                    float totalWeight = 0f;
-                    for (int i = 0; i < selectedTreeStates.Count; i++)
-                    {
-                        if (AgeWeights.ContainsKey(selectedTreeStates[i]))
-                        {
-                            totalWeight += AgeWeights[selectedTreeStates[i]];
-                        }
-                    }
+                m_TreeControllerTool.SelectTreePrefab(prefab);
+                SelectPrefab(prefab);
+                m_UpdateSelectionSet = true;
+            }
 
-                    float randomWeight = random.NextFloat(totalWeight);
-                    float currentWeight = 0f;
-                    for (int i = 0; i < selectedTreeStates.Count; i++)
-                    {
-                        if (AgeWeights.ContainsKey(selectedTreeStates[i]))
-                        {
-                            currentWeight += AgeWeights[selectedTreeStates[i]];
-                        }
+            // Plants without a tree component have no age.
+            if (EntityManager.TryGetComponent(tree, out Tree treeData))
+            {
+                Ages age = TreeUtils.GetAge(treeData.m_State);
+                Ages selectedAges = addToSelection ? ((Ages)m_SelectedAges.value & ~Ages.All) | age : age;
+                if ((int)selectedAges == 31)
+                {
+                    selectedAges |= Ages.All;
+                }
 
-                        if (randomWeight < currentWeight)
-                        {
-                            return selectedTreeStates[i];
-                        }
-                    }
+                m_SelectedAges.Update((int)selectedAges);
+            }
 
-                    return selectedTreeStates[selectedTreeStates.Count - 1];
+            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(PickTree)} picked {prefab.name} loadPrefab = {loadPrefab} selectedAges = {(Ages)m_SelectedAges.value} addToSelection = {addToSelection}");
+            if (addToSelection)
+            {
+                return;
             }
 
-            return TreeState.Adult;
+            // The tool stays in its current mode so the picked prefab and age are used by whatever the tool was doing.
+            m_Eyedropper.Update(false);
         }
 
         /// <summary>
@@ -339,6 +532,40 @@ namespace Tree_Controller.Tools
             m_UiView.ExecuteScript($"yyTreeController.tagElements = document.getElementsByTagName(\"img\"); for (yyTreeController.i = 0; yyTreeController.i < yyTreeController.tagElements.length; yyTreeController.i++) {{ if (yyTreeController.tagElements[yyTreeController.i].src.includes(\"{prefab.name}\")) {{ yyTreeController.tagElements[yyTreeController.i].parentNode.classList.add(\"selected\");  }} }} ");
         }
 
+        /// <summary>
+        /// Opens the dialog asking to confirm a whole map change.
+        /// </summary>
+        /// <param name="treeCount">The number of trees that would be changed.</param>
+        public void ShowWholeMapConfirmation(int treeCount)
+        {
+            m_WholeMapConfirmation.Update(treeCount);
+        }
+
+        /// <summary>
+        /// Closes the dialog asking to confirm a whole map change without applying it.
+        /// </summary>
+        public void CloseWholeMapConfirmation()
+        {
+            m_WholeMapConfirmation.Update(0);
+        }
+
+        /// <summary>
+        /// Gets display text such as Ctrl+T from the control paths of a key binding.
+        /// </summary>
+        /// <param name="binding">The key binding.</param>
+        /// <returns>Display text or empty if the action is unbound.</returns>
+        public string GetKeyBindingText(ProxyBinding binding)
+        {
+            if (string.IsNullOrEmpty(binding.path))
+            {
+                return string.Empty;
+            }
+
+            List<string> controls = binding.modifiers.Select(modifier => GetControlName(modifier.path)).ToList();
+            controls.Add(GetControlName(binding.path));
+            return string.Join("+", controls);
+        }
+
         /// <inheritdoc/>
         protected override void OnCreate()
         {
@@ -351,6 +578,7 @@ namespace Tree_Controller.Tools
             m_UiView = GameManager.instance.userInterface.view.View;
             m_ThemeEntities = new List<Entity>();
             m_TreeControllerTool = World.GetOrCreateSystemManaged<TreeControllerTool>();
+            m_TreeCensusSystem = World.GetOrCreateSystemManaged<TreeCensusSystem>();
             m_ContentFolder = Path.Combine(EnvPath.kUserDataPath, "ModsData", "Mods_Yenyang_Tree_Controller", "CustomSets");
             System.IO.Directory.CreateDirectory(m_ContentFolder);
             m_ToolSystem.EventToolChanged += OnToolChanged;
@@ -360,34 +588,131 @@ namespace Tree_Controller.Tools
                 { "YYTC-wild-deciduous-trees", m_VanillaDeciduousPrefabIDs },
                 { "YYTC-evergreen-trees", m_VanillaEvergreenPrefabIDs },
                 { "YYTC-wild-bushes", m_VanillaWildBushPrefabs },
-                { "YYTC-custom-set-1", m_DefaultCustomSet1Prefabs },
-                { "YYTC-custom-set-2", m_DefaultCustomSet2Prefabs },
-                { "YYTC-custom-set-3", m_DefaultCustomSet3Prefabs },
-                { "YYTC-custom-set-4", m_DefaultCustomSet4Prefabs },
-                { "YYTC-custom-set-5", m_DefaultCustomSet5Prefabs },
             };
 
-            for (int i = 1; i <= 5; i++)
+            if (!File.Exists(Path.Combine(m_ContentFolder, "CustomSets.xml")))
             {
-                TryLoadCustomPrefabSet($"YYTC-custom-set-{i}");
+                MigrateCustomPrefabSets();
+            }
+            else if (!TryLoadCustomSetStore())
+            {
+                BackUpCustomSetStore();
             }
 
             // This section handles binding couples between C# and UI.
             AddBinding(m_ToolMode = new ValueBinding<int>(ModId, "ToolMode", (int)ToolMode.Plop));
             AddBinding(m_SelectedAges = new ValueBinding<int>(ModId, "SelectedAges", (int)Ages.Adult));
+            AddBinding(m_AgeWeights = new ValueBinding<int[]>(ModId, "AgeWeights", GetAgeWeights(), new ArrayWriter<int>(new IntWriter())));
             AddBinding(m_SelectionMode = new ValueBinding<int>(ModId, "SelectionMode", (int)Selection.Radius));
             AddBinding(m_IsVegetation = new ValueBinding<bool>(ModId, "IsVegetation", false));
             AddBinding(m_IsTree = new ValueBinding<bool>(ModId, "IsTree", false));
             AddBinding(m_Radius = new ValueBinding<float>(ModId, "Radius", 100f));
             AddBinding(m_SelectedPrefabSet = new ValueBinding<string>(ModId, "PrefabSet", string.Empty));
+            AddBinding(m_CustomSetsBinding = new ValueBinding<PrefabSetData[]>(ModId, "CustomSets", GetCustomSetData(), new ArrayWriter<PrefabSetData>(new ValueWriter<PrefabSetData>())));
+            AddBinding(m_RegisteredSetsBinding = new ValueBinding<RegisteredPrefabSetData[]>(ModId, "RegisteredSets", new RegisteredPrefabSetData[0], new ArrayWriter<RegisteredPrefabSetData>(new ValueWriter<RegisteredPrefabSetData>())));
+            AddBinding(m_SetComposition = new ValueBinding<PrefabWeightData[]>(ModId, "SetComposition", new PrefabWeightData[0], new ArrayWriter<PrefabWeightData>(new ValueWriter<PrefabWeightData>())));
+            AddBinding(m_History = new ValueBinding<TreeChangeBatchData[]>(ModId, "History", new TreeChangeBatchData[0], new ArrayWriter<TreeChangeBatchData>(new ValueWriter<TreeChangeBatchData>())));
+            AddBinding(m_PreviewCount = new ValueBinding<int>(ModId, "PreviewCount", 0));
+            AddBinding(m_PreviewAgeCounts = new ValueBinding<int[]>(ModId, "PreviewAgeCounts", new int[5], new ArrayWriter<int>(new IntWriter())));
+            AddBinding(m_PreviewPrefabCounts = new ValueBinding<PrefabCountData[]>(ModId, "PreviewPrefabCounts", new PrefabCountData[0], new ArrayWriter<PrefabCountData>(new ValueWriter<PrefabCountData>())));
+            AddBinding(m_WholeMapConfirmation = new ValueBinding<int>(ModId, "WholeMapConfirmation", 0));
+            AddBinding(m_ChangeAgeOwners = new ValueBinding<int>(ModId, "ChangeAgeOwners", (int)TreeOwners.All));
+            AddBinding(m_ChangeTypeOwners = new ValueBinding<int>(ModId, "ChangeTypeOwners", (int)(TreeOwners.FreeStanding | TreeOwners.Building)));
+            AddBinding(m_SourcePrefabs = new ValueBinding<string[]>(ModId, "SourcePrefabs", new string[0], new ArrayWriter<string>(new Colossal.UI.Binding.StringWriter())));
+            AddBinding(m_ShowSetManager = new ValueBinding<bool>(ModId, "ShowSetManager", false));
+            AddBinding(m_ShowCensus = new ValueBinding<bool>(ModId, "ShowCensus", false));
+            AddBinding(m_Census = new ValueBinding<TreeCensusData[]>(ModId, "TreeCensus", new TreeCensusData[0], new ArrayWriter<TreeCensusData>(new ValueWriter<TreeCensusData>())));
+            AddBinding(m_ExportString = new ValueBinding<string>(ModId, "ExportString", string.Empty));
+            AddBinding(m_ImportStatus = new ValueBinding<int>(ModId, "ImportStatus", (int)ImportStatus.None));
+            AddBinding(m_ImportMissingPrefabs = new ValueBinding<string[]>(ModId, "ImportMissingPrefabs", new string[0], new ArrayWriter<string>(new Colossal.UI.Binding.StringWriter())));
+            AddBinding(m_RandomRotation = new ValueBinding<bool>(ModId, "RandomRotation", TreeControllerMod.Instance.Settings.RandomRotation));
+            AddBinding(m_FixedRotation = new ValueBinding<bool>(ModId, "FixedRotation", TreeControllerMod.Instance.Settings.FixedRotation));
+            AddBinding(m_RotationAngle = new ValueBinding<int>(ModId, "RotationAngle", TreeControllerMod.Instance.Settings.RotationAngle));
+            AddBinding(m_RotationJitter = new ValueBinding<int>(ModId, "RotationJitter", TreeControllerMod.Instance.Settings.RotationJitter));
+            AddBinding(m_BrushDensity = new ValueBinding<int>(ModId, "BrushDensity", TreeControllerMod.Instance.Settings.BrushDensity));
+            AddBinding(m_BrushSpacing = new ValueBinding<int>(ModId, "BrushSpacing", TreeControllerMod.Instance.Settings.BrushSpacing));
+            AddBinding(m_Overlay = new ValueBinding<int>(ModId, "Overlay", (int)TreeOverlay.None));
+            AddBinding(m_Eyedropper = new ValueBinding<bool>(ModId, "Eyedropper", false));
+            AddBinding(m_KeyBindings = new ValueBinding<KeyBindingData[]>(ModId, "KeyBindings", GetKeyBindingData(), new ArrayWriter<KeyBindingData>(new ValueWriter<KeyBindingData>())));
 
             // This section handles trigger bindings which listen for triggers from UI and then start an event.
             AddBinding(new TriggerBinding<int>(ModId, "ChangeToolMode", ChangeToolMode));
             AddBinding(new TriggerBinding<int>(ModId, "ChangeSelectedAge", ChangeSelectedAge));
+            AddBinding(new TriggerBinding<int, int>(ModId, "ChangeAgeWeight", ChangeAgeWeight));
+            AddBinding(new TriggerBinding<int>(ModId, "ApplyAgePreset", ApplyAgePreset));
             AddBinding(new TriggerBinding<int>(ModId, "ChangeSelectionMode", ChangeSelectionMode));
             AddBinding(new TriggerBinding(ModId, "radius-up-arrow", IncreaseRadius));
             AddBinding(new TriggerBinding(ModId, "radius-down-arrow", DecreaseRadius));
             AddBinding(new TriggerBinding<string>(ModId, "ChangePrefabSet", ChangePrefabSet));
+            AddBinding(new TriggerBinding(ModId, "ToggleSetManager", () => m_ShowSetManager.Update(!m_ShowSetManager.value)));
+            AddBinding(new TriggerBinding(ModId, "CreateCustomSet", CreateCustomSet));
+            AddBinding(new TriggerBinding<string>(ModId, "SaveCustomSet", SaveCustomSet));
+            AddBinding(new TriggerBinding<string, string>(ModId, "RenameCustomSet", RenameCustomSet));
+            AddBinding(new TriggerBinding<string, string>(ModId, "ChangeCustomSetIcon", ChangeCustomSetIcon));
+            AddBinding(new TriggerBinding<string>(ModId, "DuplicateCustomSet", DuplicateCustomSet));
+            AddBinding(new TriggerBinding<string, int>(ModId, "MoveCustomSet", MoveCustomSet));
+            AddBinding(new TriggerBinding<string>(ModId, "DeleteCustomSet", DeleteCustomSet));
+            AddBinding(new TriggerBinding(ModId, "ExportPrefabSet", ExportPrefabSet));
+            AddBinding(new TriggerBinding<string>(ModId, "ImportPrefabSet", ImportPrefabSet));
+            AddBinding(new TriggerBinding<string, int>(ModId, "ChangePrefabWeight", ChangePrefabWeight));
+            AddBinding(new TriggerBinding(ModId, "UndoTreeChanges", () => m_TreeControllerTool.Undo()));
+            AddBinding(new TriggerBinding(ModId, "RedoTreeChanges", () => m_TreeControllerTool.Redo()));
+            AddBinding(new TriggerBinding(ModId, "ConfirmWholeMapApply", ConfirmWholeMapApply));
+            AddBinding(new TriggerBinding(ModId, "CancelWholeMapApply", CancelWholeMapApply));
+            AddBinding(new TriggerBinding(ModId, "ToggleCensus", () => ShowCensus(!m_ShowCensus.value)));
+            AddBinding(new TriggerBinding<string, bool>(ModId, "SelectCensusPrefab", SelectCensusPrefab));
+            AddBinding(new TriggerBinding<int>(ModId, "ToggleOwnerFilter", ToggleOwnerFilter));
+            AddBinding(new TriggerBinding(ModId, "UseSelectionAsSourcePrefabs", UseSelectionAsSourcePrefabs));
+            AddBinding(new TriggerBinding(ModId, "ClearSourcePrefabs", ClearSourcePrefabs));
+            AddBinding(new TriggerBinding(ModId, "ToggleRandomRotation", ToggleRandomRotation));
+            AddBinding(new TriggerBinding(ModId, "ToggleFixedRotation", ToggleFixedRotation));
+            AddBinding(new TriggerBinding<int>(ModId, "ChangeRotationAngle", ChangeRotationAngle));
+            AddBinding(new TriggerBinding<int>(ModId, "ChangeRotationJitter", ChangeRotationJitter));
+            AddBinding(new TriggerBinding<int>(ModId, "ChangeBrushDensity", ChangeBrushDensity));
+            AddBinding(new TriggerBinding<int>(ModId, "ChangeBrushSpacing", ChangeBrushSpacing));
+            AddBinding(new TriggerBinding<int>(ModId, "ChangeOverlay", ChangeOverlay));
+            AddBinding(new TriggerBinding(ModId, "ToggleEyedropper", ToggleEyedropper));
+
+            // This section gets the input actions registered by the mod settings. They are only enabled while this system is running.
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            m_CycleToolModeAction = settings.GetAction(TreeControllerMod.CycleToolModeActionName);
+            m_CycleSelectionModeAction = settings.GetAction(TreeControllerMod.CycleSelectionModeActionName);
+            m_IncreaseRadiusAction = settings.GetAction(TreeControllerMod.IncreaseRadiusActionName);
+            m_DecreaseRadiusAction = settings.GetAction(TreeControllerMod.DecreaseRadiusActionName);
+            m_ScrollRadiusAction = settings.GetAction(TreeControllerMod.ScrollRadiusActionName);
+            m_ToggleAgeActions = new ProxyAction[]
+            {
+                settings.GetAction(TreeControllerMod.ToggleChildAgeActionName),
+                settings.GetAction(TreeControllerMod.ToggleTeenAgeActionName),
+                settings.GetAction(TreeControllerMod.ToggleAdultAgeActionName),
+                settings.GetAction(TreeControllerMod.ToggleElderlyAgeActionName),
+                settings.GetAction(TreeControllerMod.ToggleDeadAgeActionName),
+            };
+            m_RecallSetActions = new ProxyAction[]
+            {
+                settings.GetAction(TreeControllerMod.RecallSet1ActionName),
+                settings.GetAction(TreeControllerMod.RecallSet2ActionName),
+                settings.GetAction(TreeControllerMod.RecallSet3ActionName),
+                settings.GetAction(TreeControllerMod.RecallSet4ActionName),
+                settings.GetAction(TreeControllerMod.RecallSet5ActionName),
+                settings.GetAction(TreeControllerMod.RecallSet6ActionName),
+                settings.GetAction(TreeControllerMod.RecallSet7ActionName),
+                settings.GetAction(TreeControllerMod.RecallSet8ActionName),
+                settings.GetAction(TreeControllerMod.RecallSet9ActionName),
+            };
+            m_SaveSetActions = new ProxyAction[]
+            {
+                settings.GetAction(TreeControllerMod.SaveSet1ActionName),
+                settings.GetAction(TreeControllerMod.SaveSet2ActionName),
+                settings.GetAction(TreeControllerMod.SaveSet3ActionName),
+                settings.GetAction(TreeControllerMod.SaveSet4ActionName),
+                settings.GetAction(TreeControllerMod.SaveSet5ActionName),
+                settings.GetAction(TreeControllerMod.SaveSet6ActionName),
+                settings.GetAction(TreeControllerMod.SaveSet7ActionName),
+                settings.GetAction(TreeControllerMod.SaveSet8ActionName),
+                settings.GetAction(TreeControllerMod.SaveSet9ActionName),
+            };
+            settings.onSettingsApplied += (setting) => m_KeyBindings.Update(GetKeyBindingData());
 
             m_VegetationQuery = GetEntityQuery(ComponentType.ReadOnly<Vegetation>());
 
@@ -395,11 +720,81 @@ namespace Tree_Controller.Tools
             Enabled = false;
         }
 
+        /// <inheritdoc/>
+        protected override void OnStartRunning()
+        {
+            base.OnStartRunning();
+            m_KeyBindings.Update(GetKeyBindingData());
+            SetInputActionsEnabled(true);
+
+            // Prefabs from asset packs may have loaded since the registered sets were last checked.
+            m_RegisteredSetsVersion = -1;
+        }
+
+        /// <inheritdoc/>
+        protected override void OnStopRunning()
+        {
+            base.OnStopRunning();
+            SetInputActionsEnabled(false);
+        }
+
         /// <inheritdoc/>
         protected override void OnUpdate()
         {
+            HandleInputActions();
             List<PrefabBase> selectedPrefabs = m_TreeControllerTool.GetSelectedPrefabs();
 
+            // Age and prefab weights are saved once the slider has not moved for a moment instead of on every step.
+            if (m_AgeWeightsSaveCountdown > 0)
+            {
+                m_AgeWeightsSaveCountdown--;
+                if (m_AgeWeightsSaveCountdown == 0)
+                {
+                    TreeControllerMod.Instance.Settings.ApplyAndSave();
+                }
+            }
+
+            if (m_CustomSetStoreSaveCountdown > 0)
+            {
+                m_CustomSetStoreSaveCountdown--;
+                if (m_CustomSetStoreSaveCountdown == 0)
+                {
+                    TrySaveCustomSetStore();
+                }
+            }
+
+            if (m_RegisteredSetsVersion != PrefabSetRegistry.Version)
+            {
+                m_RegisteredSetsBinding.Update(GetRegisteredSetData());
+                m_RegisteredSetsVersion = PrefabSetRegistry.Version;
+            }
+
+            if (m_UpdateSetComposition)
+            {
+                m_SetComposition.Update(GetSetComposition(selectedPrefabs));
+                m_UpdateSetComposition = false;
+            }
+
+            if (m_UpdateHistory)
+            {
+                m_History.Update(m_TreeControllerTool.GetHistoryData());
+                m_UpdateHistory = false;
+            }
+
+            if (m_UpdatePreview)
+            {
+                m_PreviewCount.Update(m_TreeControllerTool.PreviewTreeCount);
+                m_PreviewAgeCounts.Update(m_TreeControllerTool.GetPreviewAgeCounts());
+                m_PreviewPrefabCounts.Update(m_TreeControllerTool.GetPreviewPrefabCounts());
+                m_UpdatePreview = false;
+            }
+
+            if (m_UpdateCensus)
+            {
+                m_Census.Update(m_TreeCensusSystem.GetCensusData());
+                m_UpdateCensus = false;
+            }
+
             if (m_TrySetPrefabNextFrame != null)
             {
                 m_ToolSystem.ActivatePrefabTool(m_TrySetPrefabNextFrame);
@@ -510,53 +905,378 @@ namespace Tree_Controller.Tools
                     m_ToolMode.Update((int)ToolMode.ChangeType);
                     ActivatePrefabChange();
                     break;
+                case ToolMode.FreezeGrowth:
+                    m_ToolMode.Update((int)ToolMode.FreezeGrowth);
+                    ActivateTreeControllerTool();
+                    break;
+                case ToolMode.ResumeGrowth:
+                    m_ToolMode.Update((int)ToolMode.ResumeGrowth);
+                    ActivateTreeControllerTool();
+                    break;
             }
         }
 
-        private void ChangeSelectedAge(int age)
+        /// <summary>
+        /// Enables or disables the input actions for the keyboard shortcuts.
+        /// </summary>
+        /// <param name="enabled">True to enable the input actions.</param>
+        private void SetInputActionsEnabled(bool enabled)
         {
-            Ages selectedAges = (Ages)m_SelectedAges.value;
-            Ages toggledAge = (Ages)age;
-            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} selectedAges = {selectedAges}");
-            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} toggled = {toggledAge}");
-            if (toggledAge != Ages.All && (selectedAges & Ages.All) == Ages.All)
-            {
-                m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} removed all.");
-                selectedAges &= ~Ages.All;
-            }
-            else if (toggledAge == Ages.All && selectedAges != Ages.None)
+            m_CycleToolModeAction.shouldBeEnabled = enabled;
+            m_CycleSelectionModeAction.shouldBeEnabled = enabled;
+            m_IncreaseRadiusAction.shouldBeEnabled = enabled;
+            m_DecreaseRadiusAction.shouldBeEnabled = enabled;
+            m_ScrollRadiusAction.shouldBeEnabled = enabled;
+            foreach (ProxyAction action in m_ToggleAgeActions.Concat(m_RecallSetActions).Concat(m_SaveSetActions))
             {
-                m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} setting to none.");
-                m_SelectedAges.Update((int)Ages.None);
-                return;
+                action.shouldBeEnabled = enabled;
             }
-            else if (toggledAge == Ages.All && selectedAges == Ages.None)
+        }
+
+        /// <summary>
+        /// Handles the keyboard shortcuts. Shortcuts for options that are not shown in the tool options panel are ignored.
+        /// </summary>
+        private void HandleInputActions()
+        {
+            if (m_CycleToolModeAction.WasPerformedThisFrame())
             {
-                selectedAges |= Ages.Child | Ages.Teen | Ages.Adult | Ages.Elderly | Ages.Elderly | Ages.Dead | Ages.All;
-                m_SelectedAges.Update((int)selectedAges);
+                int nextToolMode = (Array.IndexOf(m_CycledToolModes, CurrentToolMode) + 1) % m_CycledToolModes.Length;
+                ChangeToolMode((int)m_CycledToolModes[nextToolMode]);
                 return;
             }
 
-            if ((selectedAges & toggledAge) == toggledAge)
+            bool treeControllerToolActive = m_ToolSystem.activeTool == m_TreeControllerTool;
+            if (m_IsTree.value || (treeControllerToolActive && CurrentToolMode == ToolMode.ChangeAge))
             {
-                selectedAges &= ~toggledAge;
+                for (int i = 0; i < m_ToggleAgeActions.Length; i++)
+                {
+                    if (m_ToggleAgeActions[i].WasPerformedThisFrame())
+                    {
+                        ChangeSelectedAge((int)m_AgeOrder[i]);
+                    }
+                }
             }
-            else
+
+            if (treeControllerToolActive)
             {
-                selectedAges |= toggledAge;
+                if (m_CycleSelectionModeAction.WasPerformedThisFrame())
+                {
+                    ChangeSelectionMode((m_SelectionMode.value + 1) % Enum.GetValues(typeof(Selection)).Length);
+                }
+
+                if (SelectionMode == Selection.Radius)
+                {
+                    float scroll = m_ScrollRadiusAction.ReadValue<float>();
+                    if (m_IncreaseRadiusAction.WasPerformedThisFrame() || scroll > 0f)
+                    {
+                        IncreaseRadius();
+                    }
+                    else if (m_DecreaseRadiusAction.WasPerformedThisFrame() || scroll < 0f)
+                    {
+                        DecreaseRadius();
+                    }
+                }
             }
 
-            if ((int)selectedAges == 31)
+            // Prefab sets are only shown while brushing, changing type, or using the line tool.
+            if (!((m_ToolSystem.activeTool == m_ObjectToolSystem && m_ObjectToolSystem.actualMode == ObjectToolSystem.Mode.Brush) || (treeControllerToolActive && CurrentToolMode == ToolMode.ChangeType) || m_ToolSystem.activeTool.toolID == "Line Tool"))
             {
-                selectedAges |= Ages.All;
+                return;
             }
 
-            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} selectedAges = {selectedAges}");
+            for (int i = 0; i < m_RecallSetActions.Length; i++)
+            {
+                if (m_SaveSetActions[i].WasPerformedThisFrame())
+                {
+                    if (i < m_CustomSets.Count)
+                    {
+                        SaveCustomSet(m_CustomSets[i].ID);
+                    }
+                    else if (i == m_CustomSets.Count)
+                    {
+                        CreateCustomSet();
+                    }
+                    else
+                    {
+                        m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(HandleInputActions)} could not save custom set {i + 1} because there are only {m_CustomSets.Count} custom sets.");
+                    }
+                }
+                else if (m_RecallSetActions[i].WasPerformedThisFrame() && i < m_CustomSets.Count)
+                {
+                    ChangePrefabSet(m_CustomSets[i].ID);
+                }
+            }
+        }
+
+        /// <summary>
+        /// Gets the display text of the current key binding for each input action.
+        /// </summary>
+        /// <returns>Array of key binding data.</returns>
+        private KeyBindingData[] GetKeyBindingData()
+        {
+            List<KeyBindingData> keyBindings = new List<KeyBindingData>();
+            foreach (System.Reflection.PropertyInfo property in typeof(TreeControllerSettings).GetProperties())
+            {
+                if (property.PropertyType != typeof(ProxyBinding))
+                {
+                    continue;
+                }
+
+                ProxyBinding binding = (ProxyBinding)property.GetValue(TreeControllerMod.Instance.Settings);
+                keyBindings.Add(new KeyBindingData()
+                {
+                    action = binding.actionName,
+                    binding = GetKeyBindingText(binding),
+                });
+            }
+
+            return keyBindings.ToArray();
+        }
+
+        /// <summary>
+        /// Gets the name of a control from a path such as &lt;Keyboard&gt;/ctrl.
+        /// </summary>
+        /// <param name="path">The control path.</param>
+        /// <returns>The name of the control with the first letter capitalized.</returns>
+        private string GetControlName(string path)
+        {
+            string name = path.Substring(path.LastIndexOf('/') + 1);
+            if (name.Length == 0)
+            {
+                return path;
+            }
+
+            return char.ToUpperInvariant(name[0]) + name.Substring(1);
+        }
+
+        private void ChangeSelectedAge(int age)
+        {
+            Ages selectedAges = (Ages)m_SelectedAges.value;
+            Ages toggledAge = (Ages)age;
+            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} selectedAges = {selectedAges}");
+            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} toggled = {toggledAge}");
+            if (toggledAge != Ages.All && (selectedAges & Ages.All) == Ages.All)
+            {
+                m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} removed all.");
+                selectedAges &= ~Ages.All;
+            }
+            else if (toggledAge == Ages.All && selectedAges != Ages.None)
+            {
+                m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} setting to none.");
+                m_SelectedAges.Update((int)Ages.None);
+                return;
+            }
+            else if (toggledAge == Ages.All && selectedAges == Ages.None)
+            {
+                selectedAges |= Ages.Child | Ages.Teen | Ages.Adult | Ages.Elderly | Ages.Elderly | Ages.Dead | Ages.All;
+                m_SelectedAges.Update((int)selectedAges);
+                return;
+            }
+
+            if ((selectedAges & toggledAge) == toggledAge)
+            {
+                selectedAges &= ~toggledAge;
+            }
+            else
+            {
+                selectedAges |= toggledAge;
+            }
+
+            if ((int)selectedAges == 31)
+            {
+                selectedAges |= Ages.All;
+            }
+
+            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangeSelectedAge)} selectedAges = {selectedAges}");
+            m_SelectedAges.Update((int)selectedAges);
+        }
+
+        /// <summary>
+        /// Changes the weight of one age right away and saves it with the settings after the slider stops moving.
+        /// </summary>
+        /// <param name="age">The age from Ages enum.</param>
+        /// <param name="weight">The new weight from 0 to 100.</param>
+        private void ChangeAgeWeight(int age, int weight)
+        {
+            int index = Array.IndexOf(m_AgeOrder, (Ages)age);
+            if (index < 0)
+            {
+                return;
+            }
+
+            int[] ageWeights = GetAgeWeights();
+            ageWeights[index] = Math.Max(0, Math.Min(100, weight));
+            SetAgeWeights(ageWeights, save: false);
+            m_AgeWeightsSaveCountdown = WeightSaveDelay;
+        }
+
+        /// <summary>
+        /// Applies the weights of a built-in age distribution and selects the ages it uses.
+        /// </summary>
+        /// <param name="preset">The preset from AgePreset enum.</param>
+        private void ApplyAgePreset(int preset)
+        {
+            if (!m_AgePresets.TryGetValue((AgePreset)preset, out int[] presetWeights))
+            {
+                return;
+            }
+
+            Ages selectedAges = Ages.None;
+            for (int i = 0; i < m_AgeOrder.Length; i++)
+            {
+                if (presetWeights[i] > 0)
+                {
+                    selectedAges |= m_AgeOrder[i];
+                }
+            }
+
+            if ((int)selectedAges == 31)
+            {
+                selectedAges |= Ages.All;
+            }
+
+            SetAgeWeights((int[])presetWeights.Clone());
             m_SelectedAges.Update((int)selectedAges);
         }
 
+        private int[] GetAgeWeights()
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            return new int[] { settings.ChildWeight, settings.TeenWeight, settings.AdultWeight, settings.ElderlyWeight, settings.DeadWeight };
+        }
+
+        private void SetAgeWeights(int[] ageWeights, bool save = true)
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            settings.ChildWeight = ageWeights[0];
+            settings.TeenWeight = ageWeights[1];
+            settings.AdultWeight = ageWeights[2];
+            settings.ElderlyWeight = ageWeights[3];
+            settings.DeadWeight = ageWeights[4];
+            if (save)
+            {
+                settings.ApplyAndSave();
+                m_AgeWeightsSaveCountdown = 0;
+            }
+
+            m_AgeWeights.Update(ageWeights);
+        }
+
+        /// <summary>
+        /// Toggles random rotation, turns off fixed rotation, and saves them with the settings.
+        /// </summary>
+        private void ToggleRandomRotation()
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            settings.RandomRotation = !settings.RandomRotation;
+            settings.FixedRotation = false;
+            settings.ApplyAndSave();
+            m_RandomRotation.Update(settings.RandomRotation);
+            m_FixedRotation.Update(settings.FixedRotation);
+        }
+
+        /// <summary>
+        /// Toggles fixed rotation, turns off random rotation, and saves them with the settings.
+        /// </summary>
+        private void ToggleFixedRotation()
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            settings.FixedRotation = !settings.FixedRotation;
+            settings.RandomRotation = false;
+            settings.ApplyAndSave();
+            m_RandomRotation.Update(settings.RandomRotation);
+            m_FixedRotation.Update(settings.FixedRotation);
+        }
+
+        /// <summary>
+        /// Changes the angle used with fixed rotation and saves it with the settings.
+        /// </summary>
+        /// <param name="angle">The angle in degrees. Wrapped to 0 to 359.</param>
+        private void ChangeRotationAngle(int angle)
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            settings.RotationAngle = ((angle % 360) + 360) % 360;
+            settings.ApplyAndSave();
+            m_RotationAngle.Update(settings.RotationAngle);
+        }
+
+        /// <summary>
+        /// Changes the range of random variation of the angle and saves it with the settings.
+        /// </summary>
+        /// <param name="jitter">The range in degrees from 0 to 180.</param>
+        private void ChangeRotationJitter(int jitter)
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            settings.RotationJitter = Math.Max(0, Math.Min(180, jitter));
+            settings.ApplyAndSave();
+            m_RotationJitter.Update(settings.RotationJitter);
+        }
+
+        /// <summary>
+        /// Changes the target density for brushing and thinning and saves it with the settings.
+        /// </summary>
+        /// <param name="density">Trees and plants per hectare from 0 to 2500. 0 turns it off.</param>
+        private void ChangeBrushDensity(int density)
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            settings.BrushDensity = Math.Max(0, Math.Min(2500, density));
+            settings.ApplyAndSave();
+            m_BrushDensity.Update(settings.BrushDensity);
+        }
+
+        /// <summary>
+        /// Changes the minimum spacing for brushing and thinning and saves it with the settings.
+        /// </summary>
+        /// <param name="spacing">Distance in meters from 0 to 50. 0 turns it off.</param>
+        private void ChangeBrushSpacing(int spacing)
+        {
+            TreeControllerSettings settings = TreeControllerMod.Instance.Settings;
+            settings.BrushSpacing = Math.Max(0, Math.Min(50, spacing));
+            settings.ApplyAndSave();
+            m_BrushSpacing.Update(settings.BrushSpacing);
+        }
+
+        /// <summary>
+        /// Changes the overlay drawn while the Tree Controller tool is active. Selecting the current overlay again turns it off.
+        /// </summary>
+        /// <param name="overlay">The overlay from <see cref="TreeOverlay"/>.</param>
+        private void ChangeOverlay(int overlay)
+        {
+            m_Overlay.Update(overlay == m_Overlay.value ? (int)TreeOverlay.None : overlay);
+        }
+
+        /// <summary>
+        /// Toggles the eyedropper. Points placed for rectangle and lasso selections are cleared so picking does not add to them.
+        /// </summary>
+        private void ToggleEyedropper()
+        {
+            m_TreeControllerTool.ClearSelectionPoints();
+            m_Eyedropper.Update(!m_Eyedropper.value);
+        }
+
+        private void ToggleOwnerFilter(int owner)
+        {
+            // Change Type has its own filter so that trees in networks can be left alone by default.
+            ValueBinding<int> owners = CurrentToolMode == ToolMode.ChangeType ? m_ChangeTypeOwners : m_ChangeAgeOwners;
+            owners.Update(owners.value ^ owner);
+            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ToggleOwnerFilter)} {CurrentToolMode} owners = {(TreeOwners)owners.value}");
+        }
+
+        private void UseSelectionAsSourcePrefabs()
+        {
+            m_TreeControllerTool.SetSourcePrefabsFromSelection();
+            m_SourcePrefabs.Update(m_TreeControllerTool.GetSourcePrefabNames());
+        }
+
+        private void ClearSourcePrefabs()
+        {
+            m_TreeControllerTool.ClearSourcePrefabs();
+            m_SourcePrefabs.Update(new string[0]);
+        }
+
         private void ChangeSelectionMode(int selectionMode)
         {
+            m_TreeControllerTool.ClearSelectionPoints();
             m_SelectionMode.Update(selectionMode);
         }
 
@@ -574,7 +1294,7 @@ namespace Tree_Controller.Tools
                 m_TreeControllerTool.ClearSelectedTreePrefabs();
                 m_TreeControllerTool.SelectTreePrefab(m_ObjectToolSystem.prefab);
             }
-            else if (m_SelectedPrefabSet.value != string.Empty && m_PrefabSetsLookup.ContainsKey(m_SelectedPrefabSet.value))
+            else if (m_SelectedPrefabSet.value != string.Empty && TryGetPrefabSet(m_SelectedPrefabSet.value, out _))
             {
                 ChangePrefabSet(m_SelectedPrefabSet.value);
             }
@@ -627,7 +1347,7 @@ namespace Tree_Controller.Tools
         {
             PrefabBase originallySelectedPrefab = m_TreeControllerTool.GetPrefab();
             List<PrefabBase> selectedPrefabs = m_TreeControllerTool.GetSelectedPrefabs();
-            if (!m_PrefabSetsLookup.ContainsKey(prefabSetID))
+            if (!TryGetPrefabSet(prefabSetID, out List<PrefabID> prefabIDs))
             {
                 UnselectPrefabs();
                 m_TreeControllerTool.ClearSelectedTreePrefabs();
@@ -645,14 +1365,7 @@ namespace Tree_Controller.Tools
                 return;
             }
 
-            bool ctrlKeyPressed = Keyboard.current.leftCtrlKey.isPressed || Keyboard.current.rightCtrlKey.isPressed;
-            if (prefabSetID.Contains("custom") && selectedPrefabs.Count > 1 && ctrlKeyPressed)
-            {
-                m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ChangePrefabSet)} trying to add prefab ids to set lookup.");
-                TrySaveCustomPrefabSet(prefabSetID, selectedPrefabs);
-            }
-
-            if (m_PrefabSetsLookup[prefabSetID].Count == 0)
+            if (prefabIDs.Count == 0)
             {
                 m_SelectedPrefabSet.Update(string.Empty);
                 m_TreeControllerTool.SelectTreePrefab(originallySelectedPrefab);
@@ -664,12 +1377,18 @@ namespace Tree_Controller.Tools
             m_TreeControllerTool.ClearSelectedTreePrefabs();
             m_RecentlySelectedPrefabSet = true;
             m_SelectedPrefabSet.Update(prefabSetID);
+            TryGetCustomSet(prefabSetID, out CustomSetRepository customSet);
             int i = 0;
-            foreach (PrefabID id in m_PrefabSetsLookup[prefabSetID])
+            foreach (PrefabID id in prefabIDs)
             {
                 if (m_PrefabSystem.TryGetPrefab(id, out PrefabBase prefab))
                 {
                     m_TreeControllerTool.SelectTreePrefab(prefab);
+                    if (customSet != null)
+                    {
+                        m_TreeControllerTool.SetPrefabWeight(prefab, customSet.GetPrefabWeight(prefab.name));
+                    }
+
                     SelectPrefab(prefab);
                     i++;
                 }
@@ -690,6 +1409,29 @@ namespace Tree_Controller.Tools
             }
         }
 
+        private void ShowCensus(bool show)
+        {
+            m_ShowCensus.Update(show);
+            m_TreeCensusSystem.Enabled = show;
+        }
+
+        /// <summary>
+        /// Uses a prefab from a row of the tree census panel as the source prefab filter so that only trees of that type are changed.
+        /// </summary>
+        /// <param name="prefabName">Name of the prefab in the row.</param>
+        /// <param name="addToSelection">True to add or remove the prefab from the current source prefabs instead of replacing them.</param>
+        private void SelectCensusPrefab(string prefabName, bool addToSelection)
+        {
+            if (!m_TreeCensusSystem.TryGetCensusPrefab(prefabName, out PrefabBase prefab))
+            {
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(SelectCensusPrefab)} could not find {prefabName}");
+                return;
+            }
+
+            m_TreeControllerTool.ToggleSourcePrefab(prefab, addToSelection);
+            m_SourcePrefabs.Update(m_TreeControllerTool.GetSourcePrefabNames());
+        }
+
         private void UnselectPrefabs()
         {
             NativeList<Entity> m_VegetationPrefabEntities = m_VegetationQuery.ToEntityListAsync(Allocator.Temp, out JobHandle jobHandle);
@@ -761,6 +1503,11 @@ namespace Tree_Controller.Tools
         /// <param name="tool">The new tool.</param>
         private void OnToolChanged(ToolBaseSystem tool)
         {
+            if (tool != m_TreeControllerTool)
+            {
+                m_Eyedropper.Update(false);
+            }
+
             if (m_ToolSystem.activePrefab != null &&
                 (tool == m_TreeControllerTool || tool.toolID == "Line Tool" || (tool == m_ObjectToolSystem && (m_ObjectToolSystem.actualMode == ObjectToolSystem.Mode.Create || m_ObjectToolSystem.actualMode == ObjectToolSystem.Mode.Brush)))
                 && m_PrefabSystem.TryGetEntity(m_ToolSystem.activePrefab, out Entity prefabEntity))
@@ -813,6 +1560,8 @@ namespace Tree_Controller.Tools
                 Enabled = false;
                 m_IsTree.Update(false);
                 m_IsVegetation.Update(false);
+                m_ShowSetManager.Update(false);
+                ShowCensus(false);
             }
         }
 
@@ -874,7 +1623,387 @@ namespace Tree_Controller.Tools
             }
         }
 
-        private bool TrySaveCustomPrefabSet(string prefabSetID, List<PrefabBase> prefabBases)
+        /// <summary>
+        /// Tries to get the prefab IDs of a vanilla, registered, or custom prefab set.
+        /// </summary>
+        /// <param name="prefabSetID">ID of the prefab set.</param>
+        /// <param name="prefabIDs">The prefab IDs in the set.</param>
+        /// <returns>True if the set exists.</returns>
+        private bool TryGetPrefabSet(string prefabSetID, out List<PrefabID> prefabIDs)
+        {
+            if (m_PrefabSetsLookup.TryGetValue(prefabSetID, out prefabIDs))
+            {
+                return true;
+            }
+
+            if (PrefabSetRegistry.TryGetPrefabSet(prefabSetID, out RegisteredPrefabSet registeredSet))
+            {
+                prefabIDs = new List<PrefabID>(registeredSet.PrefabIDs);
+                return true;
+            }
+
+            if (TryGetCustomSet(prefabSetID, out CustomSetRepository customSet))
+            {
+                prefabIDs = customSet.GetPrefabIDs();
+                return true;
+            }
+
+            return false;
+        }
+
+        private bool TryGetCustomSet(string prefabSetID, out CustomSetRepository customSet)
+        {
+            customSet = m_CustomSets.FirstOrDefault(set => set.ID == prefabSetID);
+            return customSet != null;
+        }
+
+        private PrefabSetData[] GetCustomSetData()
+        {
+            PrefabSetData[] customSetData = new PrefabSetData[m_CustomSets.Count];
+            for (int i = 0; i < m_CustomSets.Count; i++)
+            {
+                customSetData[i] = new PrefabSetData()
+                {
+                    id = m_CustomSets[i].ID,
+                    name = m_CustomSets[i].Name,
+                    icon = m_CustomSets[i].Icon ?? string.Empty,
+                    count = m_CustomSets[i].PrefabNames.Length,
+                };
+            }
+
+            return customSetData;
+        }
+
+        /// <summary>
+        /// Gets the registered prefab sets that have at least one loaded prefab. Sets from asset packs that are not loaded are left out.
+        /// </summary>
+        /// <returns>Array of registered prefab sets for the UI.</returns>
+        private RegisteredPrefabSetData[] GetRegisteredSetData()
+        {
+            List<RegisteredPrefabSetData> registeredSetData = new List<RegisteredPrefabSetData>();
+            foreach (RegisteredPrefabSet registeredSet in PrefabSetRegistry.GetPrefabSets())
+            {
+                int count = registeredSet.PrefabIDs.Count(id => m_PrefabSystem.TryGetPrefab(id, out PrefabBase _));
+                if (count == 0)
+                {
+                    m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(GetRegisteredSetData)} hiding set {registeredSet.ID} because none of its prefabs are loaded.");
+                    continue;
+                }
+
+                registeredSetData.Add(new RegisteredPrefabSetData()
+                {
+                    id = registeredSet.ID,
+                    name = registeredSet.Name,
+                    description = registeredSet.Description,
+                    icon = registeredSet.Icon,
+                    count = count,
+                });
+            }
+
+            return registeredSetData.ToArray();
+        }
+
+        /// <summary>
+        /// Saves the custom sets and pushes them to the UI.
+        /// </summary>
+        private void UpdateCustomSets()
+        {
+            m_CustomSetsVersion++;
+            TrySaveCustomSetStore();
+            m_CustomSetsBinding.Update(GetCustomSetData());
+        }
+
+        /// <summary>
+        /// Creates a new custom set from the currently selected prefabs.
+        /// </summary>
+        private void CreateCustomSet()
+        {
+            List<PrefabBase> selectedPrefabs = m_TreeControllerTool.GetSelectedPrefabs();
+            if (selectedPrefabs.Count == 0)
+            {
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(CreateCustomSet)} could not create set without selected prefabs.");
+                return;
+            }
+
+            string prefabSetID = GetNewCustomSetID(out int number);
+            CustomSetRepository customSet = new (prefabSetID, GetUniqueCustomSetName($"Custom Set {number}"), string.Empty, GetPrefabIDs(selectedPrefabs));
+            customSet.PrefabWeights = GetSelectedPrefabWeights(selectedPrefabs).ToArray();
+            m_CustomSets.Add(customSet);
+            m_RecentlySelectedPrefabSet = true;
+            m_SelectedPrefabSet.Update(customSet.ID);
+            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(CreateCustomSet)} created {customSet.ID} with {selectedPrefabs.Count} prefabs.");
+            UpdateCustomSets();
+        }
+
+        /// <summary>
+        /// Replaces the prefabs in a custom set with the currently selected prefabs.
+        /// </summary>
+        /// <param name="prefabSetID">ID of the custom set.</param>
+        private void SaveCustomSet(string prefabSetID)
+        {
+            List<PrefabBase> selectedPrefabs = m_TreeControllerTool.GetSelectedPrefabs();
+            if (!TryGetCustomSet(prefabSetID, out CustomSetRepository customSet) || selectedPrefabs.Count == 0)
+            {
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(SaveCustomSet)} could not save {prefabSetID}.");
+                return;
+            }
+
+            customSet.SetPrefabs(selectedPrefabs, GetSelectedPrefabWeights(selectedPrefabs));
+            m_RecentlySelectedPrefabSet = true;
+            m_SelectedPrefabSet.Update(prefabSetID);
+            UpdateCustomSets();
+        }
+
+        private void RenameCustomSet(string prefabSetID, string name)
+        {
+            if (!TryGetCustomSet(prefabSetID, out CustomSetRepository customSet) || string.IsNullOrWhiteSpace(name))
+            {
+                return;
+            }
+
+            customSet.Name = name.Trim();
+            UpdateCustomSets();
+        }
+
+        private void ChangeCustomSetIcon(string prefabSetID, string icon)
+        {
+            if (!TryGetCustomSet(prefabSetID, out CustomSetRepository customSet))
+            {
+                return;
+            }
+
+            customSet.Icon = icon ?? string.Empty;
+            UpdateCustomSets();
+        }
+
+        /// <summary>
+        /// Inserts a copy of a custom set after the original.
+        /// </summary>
+        /// <param name="prefabSetID">ID of the custom set to copy.</param>
+        private void DuplicateCustomSet(string prefabSetID)
+        {
+            if (!TryGetCustomSet(prefabSetID, out CustomSetRepository customSet))
+            {
+                return;
+            }
+
+            CustomSetRepository duplicate = new (GetNewCustomSetID(out _), GetUniqueCustomSetName(customSet.Name), customSet.Icon, customSet.GetPrefabIDs());
+            duplicate.PrefabWeights = (int[])customSet.PrefabWeights?.Clone();
+            m_CustomSets.Insert(m_CustomSets.IndexOf(customSet) + 1, duplicate);
+            UpdateCustomSets();
+        }
+
+        /// <summary>
+        /// Moves a custom set up or down in the order.
+        /// </summary>
+        /// <param name="prefabSetID">ID of the custom set.</param>
+        /// <param name="offset">Negative to move towards the start, positive to move towards the end.</param>
+        private void MoveCustomSet(string prefabSetID, int offset)
+        {
+            if (!TryGetCustomSet(prefabSetID, out CustomSetRepository customSet))
+            {
+                return;
+            }
+
+            int index = m_CustomSets.IndexOf(customSet);
+            int newIndex = Math.Max(0, Math.Min(m_CustomSets.Count - 1, index + offset));
+            if (newIndex == index)
+            {
+                return;
+            }
+
+            m_CustomSets.RemoveAt(index);
+            m_CustomSets.Insert(newIndex, customSet);
+            UpdateCustomSets();
+        }
+
+        private void DeleteCustomSet(string prefabSetID)
+        {
+            if (!TryGetCustomSet(prefabSetID, out CustomSetRepository customSet))
+            {
+                return;
+            }
+
+            m_CustomSets.Remove(customSet);
+            if (m_SelectedPrefabSet.value == prefabSetID)
+            {
+                m_SelectedPrefabSet.Update(string.Empty);
+            }
+
+            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(DeleteCustomSet)} deleted {prefabSetID}.");
+            UpdateCustomSets();
+        }
+
+        /// <summary>
+        /// Exports the selected prefab set, or the selected prefabs if no set is selected, to the clipboard.
+        /// </summary>
+        private void ExportPrefabSet()
+        {
+            string name = "Exported Set";
+            List<PrefabID> prefabIDs;
+            List<int> prefabWeights = null;
+            if (TryGetCustomSet(m_SelectedPrefabSet.value, out CustomSetRepository customSet))
+            {
+                name = customSet.Name;
+                prefabIDs = customSet.GetPrefabIDs();
+                prefabWeights = customSet.PrefabWeights?.ToList();
+            }
+            else if (PrefabSetRegistry.TryGetPrefabSet(m_SelectedPrefabSet.value, out RegisteredPrefabSet registeredSet))
+            {
+                prefabIDs = new List<PrefabID>(registeredSet.PrefabIDs);
+                name = GameManager.instance.localizationManager.activeDictionary.TryGetValue(registeredSet.Name, out string localizedName) ? localizedName : registeredSet.Name;
+            }
+            else if (m_PrefabSetsLookup.TryGetValue(m_SelectedPrefabSet.value, out prefabIDs))
+            {
+                string localeKey = $"YY_TREE_CONTROLLER[{m_SelectedPrefabSet.value.Replace("YYTC-", string.Empty)}]";
+                if (GameManager.instance.localizationManager.activeDictionary.TryGetValue(localeKey, out string localizedName))
+                {
+                    name = localizedName;
+                }
+            }
+            else
+            {
+                List<PrefabBase> selectedPrefabs = m_TreeControllerTool.GetSelectedPrefabs();
+                prefabIDs = GetPrefabIDs(selectedPrefabs);
+                prefabWeights = GetSelectedPrefabWeights(selectedPrefabs);
+            }
+
+            if (prefabIDs.Count == 0)
+            {
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(ExportPrefabSet)} could not export empty set.");
+                return;
+            }
+
+            string exportString = new CustomSetExport(name, prefabIDs, prefabWeights).ToBase64String();
+            UnityEngine.GUIUtility.systemCopyBuffer = exportString;
+            m_ExportString.Update(exportString);
+            m_ShowSetManager.Update(true);
+            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(ExportPrefabSet)} exported {name} with {prefabIDs.Count} prefabs.");
+        }
+
+        /// <summary>
+        /// Creates a new custom set from an exported set and reports any prefabs that are not loaded.
+        /// </summary>
+        /// <param name="text">Base64 string or JSON of an exported set.</param>
+        private void ImportPrefabSet(string text)
+        {
+            if (!CustomSetExport.TryParse(text, out CustomSetExport export) || export.GetPrefabIDs().Count == 0)
+            {
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(ImportPrefabSet)} could not read exported set.");
+                m_ImportMissingPrefabs.Update(new string[0]);
+                m_ImportStatus.Update((int)ImportStatus.Invalid);
+                return;
+            }
+
+            string name = string.IsNullOrWhiteSpace(export.Name) ? "Imported Set" : export.Name.Trim();
+            CustomSetRepository customSet = new (GetNewCustomSetID(out _), GetUniqueCustomSetName(name), string.Empty, export.GetPrefabIDs());
+            customSet.PrefabWeights = export.GetPrefabWeights();
+            customSet.GetPrefabBases(out List<string> unresolvedPrefabNames);
+
+            // Unresolved prefabs are kept in the set so that it is complete once the missing assets are loaded.
+            m_CustomSets.Add(customSet);
+            UpdateCustomSets();
+
+            m_ImportMissingPrefabs.Update(unresolvedPrefabNames.ToArray());
+            m_ImportStatus.Update(unresolvedPrefabNames.Count == 0 ? (int)ImportStatus.Imported : (int)ImportStatus.ImportedWithMissingPrefabs);
+            m_Log.Info($"{nameof(TreeControllerUISystem)}.{nameof(ImportPrefabSet)} imported {customSet.Name} with {unresolvedPrefabNames.Count} unresolved prefabs.");
+        }
+
+        private string GetNewCustomSetID(out int number)
+        {
+            number = 1;
+            while (TryGetCustomSet($"YYTC-custom-set-{number}", out _))
+            {
+                number++;
+            }
+
+            return $"YYTC-custom-set-{number}";
+        }
+
+        private string GetUniqueCustomSetName(string name)
+        {
+            string uniqueName = name;
+            int number = 2;
+            while (m_CustomSets.Any(set => set.Name == uniqueName))
+            {
+                uniqueName = $"{name} ({number})";
+                number++;
+            }
+
+            return uniqueName;
+        }
+
+        private List<int> GetSelectedPrefabWeights(List<PrefabBase> selectedPrefabs)
+        {
+            List<int> prefabWeights = new List<int>();
+            foreach (PrefabBase prefab in selectedPrefabs)
+            {
+                prefabWeights.Add(m_TreeControllerTool.GetPrefabWeight(prefab));
+            }
+
+            return prefabWeights;
+        }
+
+        private PrefabWeightData[] GetSetComposition(List<PrefabBase> selectedPrefabs)
+        {
+            PrefabWeightData[] setComposition = new PrefabWeightData[selectedPrefabs.Count];
+            for (int i = 0; i < selectedPrefabs.Count; i++)
+            {
+                setComposition[i] = new PrefabWeightData()
+                {
+                    name = selectedPrefabs[i].name,
+                    thumbnail = ImageSystem.GetThumbnail(selectedPrefabs[i]),
+                    weight = m_TreeControllerTool.GetPrefabWeight(selectedPrefabs[i]),
+                };
+            }
+
+            return setComposition;
+        }
+
+        /// <summary>
+        /// Applies the whole map change that is waiting for confirmation and closes the confirmation.
+        /// </summary>
+        private void ConfirmWholeMapApply()
+        {
+            if (m_WholeMapConfirmation.value > 0)
+            {
+                m_TreeControllerTool.ConfirmWholeMapApply();
+            }
+
+            CloseWholeMapConfirmation();
+        }
+
+        /// <summary>
+        /// Discards the whole map change that is waiting for confirmation and closes the confirmation.
+        /// </summary>
+        private void CancelWholeMapApply()
+        {
+            m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(CancelWholeMapApply)} {m_WholeMapConfirmation.value} trees.");
+            CloseWholeMapConfirmation();
+        }
+
+        /// <summary>
+        /// Changes the weight of a selected prefab and stores it with the selected custom set.
+        /// </summary>
+        /// <param name="prefabName">Name of a selected prefab.</param>
+        /// <param name="weight">The new weight from 0 to 100.</param>
+        private void ChangePrefabWeight(string prefabName, int weight)
+        {
+            PrefabBase prefab = m_TreeControllerTool.GetSelectedPrefabs().FirstOrDefault(p => p.name == prefabName);
+            weight = CustomSetRepository.ClampPrefabWeight(weight);
+            if (prefab == null || !m_TreeControllerTool.SetPrefabWeight(prefab, weight))
+            {
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(ChangePrefabWeight)} could not find selected prefab {prefabName}.");
+                return;
+            }
+
+            if (TryGetCustomSet(m_SelectedPrefabSet.value, out CustomSetRepository customSet) && customSet.SetPrefabWeight(prefabName, weight))
+            {
+                m_CustomSetStoreSaveCountdown = WeightSaveDelay;
+            }
+        }
+
+        private List<PrefabID> GetPrefabIDs(List<PrefabBase> prefabBases)
         {
             List<PrefabID> prefabIDs = new List<PrefabID>();
             foreach (PrefabBase prefab in prefabBases)
@@ -882,39 +2011,122 @@ namespace Tree_Controller.Tools
                 prefabIDs.Add(prefab.GetPrefabID());
             }
 
-            return TrySaveCustomPrefabSet(prefabSetID, prefabIDs);
+            return prefabIDs;
         }
 
-        private bool TrySaveCustomPrefabSet(string prefabSetID, List<PrefabID> prefabIDs)
+        private bool TrySaveCustomSetStore()
         {
-            string fileName = Path.Combine(m_ContentFolder, $"{prefabSetID}.xml");
-            CustomSetRepository repository = new (prefabIDs);
-
-            m_PrefabSetsLookup[prefabSetID].Clear();
-            foreach (PrefabID prefab in prefabIDs)
+            string fileName = Path.Combine(m_ContentFolder, "CustomSets.xml");
+            CustomSetStore store = new (m_CustomSets);
+            m_CustomSetStoreSaveCountdown = 0;
+            if (!m_CustomSetStoreWritable)
             {
-                m_PrefabSetsLookup[prefabSetID].Add(prefab);
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(TrySaveCustomSetStore)} Did not save custom sets because the unreadable custom set store could not be backed up.");
+                return false;
             }
 
             try
             {
-                XmlSerializer serTool = new XmlSerializer(typeof(CustomSetRepository)); // Create serializer
+                XmlSerializer serTool = new XmlSerializer(typeof(CustomSetStore)); // Create serializer
                 using (System.IO.FileStream file = System.IO.File.Create(fileName)) // Create file
                 {
-                    serTool.Serialize(file, repository); // Serialize whole properties
+                    serTool.Serialize(file, store); // Serialize whole properties
                 }
 
                 return true;
             }
             catch (Exception ex)
             {
-                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(TrySaveCustomPrefabSet)} Could not save values for {prefabSetID}. Encountered exception {ex}");
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(TrySaveCustomSetStore)} Could not save custom sets. Encountered exception {ex}");
                 return false;
             }
         }
 
-        private bool TryLoadCustomPrefabSet(string prefabSetID)
+        private bool TryLoadCustomSetStore()
+        {
+            m_CustomSets = new List<CustomSetRepository>();
+            string fileName = Path.Combine(m_ContentFolder, "CustomSets.xml");
+            if (File.Exists(fileName))
+            {
+                try
+                {
+                    XmlSerializer serTool = new XmlSerializer(typeof(CustomSetStore)); // Create serializer
+                    using System.IO.FileStream readStream = new System.IO.FileStream(fileName, System.IO.FileMode.Open); // Open file
+                    CustomSetStore result = (CustomSetStore)serTool.Deserialize(readStream); // Des-serialize to new Properties
+
+                    foreach (CustomSetRepository customSet in result.CustomSets)
+                    {
+                        if (string.IsNullOrEmpty(customSet.ID) || customSet.PrefabNames == null || TryGetCustomSet(customSet.ID, out _))
+                        {
+                            continue;
+                        }
+
+                        m_CustomSets.Add(customSet);
+                    }
+
+                    m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(TryLoadCustomSetStore)} loaded {m_CustomSets.Count} custom sets.");
+                    return true;
+                }
+                catch (Exception ex)
+                {
+                    m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(TryLoadCustomSetStore)} Could not load custom sets. Encountered exception {ex}");
+                    return false;
+                }
+            }
+
+            return false;
+        }
+
+        /// <summary>
+        /// Copies an unreadable custom set store to a backup file and uses the default custom sets until the next save.
+        /// </summary>
+        private void BackUpCustomSetStore()
+        {
+            string fileName = Path.Combine(m_ContentFolder, "CustomSets.xml");
+            try
+            {
+                File.Copy(fileName, $"{fileName}.bak", true);
+                m_Log.Info($"{nameof(TreeControllerUISystem)}.{nameof(BackUpCustomSetStore)} backed up unreadable custom sets to {fileName}.bak.");
+            }
+            catch (Exception ex)
+            {
+                m_CustomSetStoreWritable = false;
+                m_Log.Warn($"{nameof(TreeControllerUISystem)}.{nameof(BackUpCustomSetStore)} Could not back up custom sets. Encountered exception {ex}");
+            }
+
+            AddDefaultCustomSets();
+        }
+
+        /// <summary>
+        /// Moves the five default custom sets and any of their legacy repositories into the custom set store.
+        /// </summary>
+        private void MigrateCustomPrefabSets()
+        {
+            AddDefaultCustomSets();
+            if (TrySaveCustomSetStore())
+            {
+                m_Log.Info($"{nameof(TreeControllerUISystem)}.{nameof(MigrateCustomPrefabSets)} migrated {m_CustomSets.Count} custom sets.");
+            }
+        }
+
+        private void AddDefaultCustomSets()
+        {
+            m_CustomSets = new List<CustomSetRepository>();
+            for (int i = 1; i <= m_DefaultCustomSetsPrefabs.Length; i++)
+            {
+                string prefabSetID = $"YYTC-custom-set-{i}";
+                if (!TryLoadCustomPrefabSet(prefabSetID, out List<PrefabID> prefabIDs))
+                {
+                    prefabIDs = m_DefaultCustomSetsPrefabs[i - 1];
+                }
+
+                m_CustomSets.Add(new CustomSetRepository(prefabSetID, $"Custom Set {i}", string.Empty, prefabIDs));
+            }
+        }
+
+        private bool TryLoadCustomPrefabSet(string prefabSetID, out List<PrefabID> prefabIDs)
         {
+            prefabIDs = null;
             string fileName = Path.Combine(m_ContentFolder, $"{prefabSetID}.xml");
             if (File.Exists(fileName))
             {
@@ -924,11 +2136,12 @@ namespace Tree_Controller.Tools
                     using System.IO.FileStream readStream = new System.IO.FileStream(fileName, System.IO.FileMode.Open); // Open file
                     CustomSetRepository result = (CustomSetRepository)serTool.Deserialize(readStream); // Des-serialize to new Properties
 
-                    if (m_PrefabSetsLookup.ContainsKey(prefabSetID) && result.GetPrefabIDs().Count > 0)
+                    if (result.GetPrefabIDs().Count == 0)
                     {
-                        m_PrefabSetsLookup[prefabSetID] = result.GetPrefabIDs();
+                        return false;
                     }
 
+                    prefabIDs = result.GetPrefabIDs();
                     m_Log.Debug($"{nameof(TreeControllerUISystem)}.{nameof(TryLoadCustomPrefabSet)} loaded repository for {prefabSetID}.");
                     return true;
                 }
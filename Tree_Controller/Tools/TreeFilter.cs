@@ -0,0 +1,92 @@
+﻿// <copyright file="TreeFilter.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Tools
+{
+    using Game.Common;
+    using Game.Net;
+    using Unity.Collections;
+    using Unity.Entities;
+
+    /// <summary>
+    /// The owner and source prefab filters of the Filter section. Can be used on the main thread and within jobs.
+    /// </summary>
+    public struct TreeFilter
+    {
+        /// <summary>
+        /// The owners of trees that are allowed to be changed.
+        /// </summary>
+        public TreeOwners m_Owners;
+
+        /// <summary>
+        /// Only trees of these prefabs are changed. Every prefab is allowed if empty.
+        /// </summary>
+        [ReadOnly]
+        public NativeList<Entity> m_SourcePrefabs;
+
+        /// <summary>
+        /// Lookup for walking up the owners of a tree.
+        /// </summary>
+        [ReadOnly]
+        public ComponentLookup<Owner> m_OwnerLookup;
+
+        /// <summary>
+        /// Lookup for network segments.
+        /// </summary>
+        [ReadOnly]
+        public ComponentLookup<Edge> m_EdgeLookup;
+
+        /// <summary>
+        /// Lookup for network intersections.
+        /// </summary>
+        [ReadOnly]
+        public ComponentLookup<Node> m_NodeLookup;
+
+        /// <summary>
+        /// Checks whether a tree passes the owner and source prefab filters.
+        /// </summary>
+        /// <param name="entity">Tree or plant entity.</param>
+        /// <param name="prefab">Current prefab of the tree or plant.</param>
+        /// <returns>True if the tree may be changed. False if not.</returns>
+        public bool Check(Entity entity, Entity prefab)
+        {
+            if (m_SourcePrefabs.Length > 0 && !m_SourcePrefabs.Contains(prefab))
+            {
+                return false;
+            }
+
+            return (GetTreeOwner(entity) & m_Owners) != 0;
+        }
+
+        /// <summary>
+        /// Gets whether a tree is free-standing, owned by a building, or owned by a network.
+        /// </summary>
+        /// <param name="entity">Tree or plant entity.</param>
+        /// <returns>The owner of the tree.</returns>
+        public TreeOwners GetTreeOwner(Entity entity)
+        {
+            if (!m_OwnerLookup.TryGetComponent(entity, out Owner owner))
+            {
+                return TreeOwners.FreeStanding;
+            }
+
+            // Trees can be owned by an upgrade or subobject, so this walks up to the top owner.
+            Entity currentOwner = owner.m_Owner;
+            while (true)
+            {
+                if (m_EdgeLookup.HasComponent(currentOwner) || m_NodeLookup.HasComponent(currentOwner))
+                {
+                    return TreeOwners.Network;
+                }
+
+                if (!m_OwnerLookup.TryGetComponent(currentOwner, out owner) || owner.m_Owner == currentOwner)
+                {
+                    return TreeOwners.Building;
+                }
+
+                currentOwner = owner.m_Owner;
+            }
+        }
+    }
+}
@@ -22,6 +22,161 @@ namespace Tree_Controller
     /// </summary>
     public class TreeControllerMod : IMod
     {
+        /// <summary>
+        /// The name of the input action for cycling through the tool modes.
+        /// </summary>
+        public const string CycleToolModeActionName = "CycleToolMode";
+
+        /// <summary>
+        /// The name of the input action for cycling through the selection modes.
+        /// </summary>
+        public const string CycleSelectionModeActionName = "CycleSelectionMode";
+
+        /// <summary>
+        /// The name of the input action for toggling child trees.
+        /// </summary>
+        public const string ToggleChildAgeActionName = "ToggleChildAge";
+
+        /// <summary>
+        /// The name of the input action for toggling teen trees.
+        /// </summary>
+        public const string ToggleTeenAgeActionName = "ToggleTeenAge";
+
+        /// <summary>
+        /// The name of the input action for toggling adult trees.
+        /// </summary>
+        public const string ToggleAdultAgeActionName = "ToggleAdultAge";
+
+        /// <summary>
+        /// The name of the input action for toggling elderly trees.
+        /// </summary>
+        public const string ToggleElderlyAgeActionName = "ToggleElderlyAge";
+
+        /// <summary>
+        /// The name of the input action for toggling dead trees.
+        /// </summary>
+        public const string ToggleDeadAgeActionName = "ToggleDeadAge";
+
+        /// <summary>
+        /// The name of the input action for increasing the radius.
+        /// </summary>
+        public const string IncreaseRadiusActionName = "IncreaseRadius";
+
+        /// <summary>
+        /// The name of the input action for decreasing the radius.
+        /// </summary>
+        public const string DecreaseRadiusActionName = "DecreaseRadius";
+
+        /// <summary>
+        /// The name of the input action for recalling custom set 1.
+        /// </summary>
+        public const string RecallSet1ActionName = "RecallSet1";
+
+        /// <summary>
+        /// The name of the input action for recalling custom set 2.
+        /// </summary>
+        public const string RecallSet2ActionName = "RecallSet2";
+
+        /// <summary>
+        /// The name of the input action for recalling custom set 3.
+        /// </summary>
+        public const string RecallSet3ActionName = "RecallSet3";
+
+        /// <summary>
+        /// The name of the input action for recalling custom set 4.
+        /// </summary>
+        public const string RecallSet4ActionName = "RecallSet4";
+
+        /// <summary>
+        /// The name of the input action for recalling custom set 5.
+        /// </summary>
+        public const string RecallSet5ActionName = "RecallSet5";
+
+        /// <summary>
+        /// The name of the input action for recalling custom set 6.
+        /// </summary>
+        public const string RecallSet6ActionName = "RecallSet6";
+
+        /// <summary>
+        /// The name of the input action for recalling custom set 7.
+        /// </summary>
+        public const string RecallSet7ActionName = "RecallSet7";
+
+        /// <summary>
+        /// The name of the input action for recalling custom set 8.
+        /// </summary>
+        public const string RecallSet8ActionName = "RecallSet8";
+
+        /// <summary>
+        /// The name of the input action for recalling custom set 9.
+        /// </summary>
+        public const string RecallSet9ActionName = "RecallSet9";
+
+        /// <summary>
+        /// The name of the input action for saving custom set 1.
+        /// </summary>
+        public const string SaveSet1ActionName = "SaveSet1";
+
+        /// <summary>
+        /// The name of the input action for saving custom set 2.
+        /// </summary>
+        public const string SaveSet2ActionName = "SaveSet2";
+
+        /// <summary>
+        /// The name of the input action for saving custom set 3.
+        /// </summary>
+        public const string SaveSet3ActionName = "SaveSet3";
+
+        /// <summary>
+        /// The name of the input action for saving custom set 4.
+        /// </summary>
+        public const string SaveSet4ActionName = "SaveSet4";
+
+        /// <summary>
+        /// The name of the input action for saving custom set 5.
+        /// </summary>
+        public const string SaveSet5ActionName = "SaveSet5";
+
+        /// <summary>
+        /// The name of the input action for saving custom set 6.
+        /// </summary>
+        public const string SaveSet6ActionName = "SaveSet6";
+
+        /// <summary>
+        /// The name of the input action for saving custom set 7.
+        /// </summary>
+        public const string SaveSet7ActionName = "SaveSet7";
+
+        /// <summary>
+        /// The name of the input action for saving custom set 8.
+        /// </summary>
+        public const string SaveSet8ActionName = "SaveSet8";
+
+        /// <summary>
+        /// The name of the input action for saving custom set 9.
+        /// </summary>
+        public const string SaveSet9ActionName = "SaveSet9";
+
+        /// <summary>
+        /// The name of the input action for adding a tree picked with the eyedropper to the selection.
+        /// </summary>
+        public const string AddPickedTreeActionName = "AddPickedTree";
+
+        /// <summary>
+        /// The name of the input action for changing the radius with the mouse wheel.
+        /// </summary>
+        public const string ScrollRadiusActionName = "ScrollRadius";
+
+        /// <summary>
+        /// The name of the input action for undoing the most recent tree change.
+        /// </summary>
+        public const string UndoActionName = "Undo";
+
+        /// <summary>
+        /// The name of the input action for redoing the most recently undone tree change.
+        /// </summary>
+        public const string RedoActionName = "Redo";
+
         /// <summary>
         /// An id used for bindings between UI and C#.
         /// </summary>
@@ -89,6 +244,7 @@ namespace Tree_Controller
 #endif
             Logger.Info($"[{nameof(TreeControllerMod)}] {nameof(OnLoad)}");
             Settings = new (this);
+            Settings.RegisterKeyBindings();
             Settings.RegisterInOptionsUI();
             AssetDatabase.global.LoadSettings(nameof(TreeControllerMod), Settings, new TreeControllerSettings(this));
             Logger.Info($"[{nameof(TreeControllerMod)}] {nameof(OnLoad)} finished loading settings.");
@@ -100,7 +256,10 @@ namespace Tree_Controller
             Logger.Info($"{nameof(TreeControllerMod)}.{nameof(OnLoad)} Injecting systems.");
             updateSystem.UpdateAt<TreeControllerTool>(SystemUpdatePhase.ToolUpdate);
             updateSystem.UpdateBefore<TreeObjectDefinitionSystem>(SystemUpdatePhase.Modification1);
+            updateSystem.UpdateBefore<BrushDensitySystem, TreeObjectDefinitionSystem>(SystemUpdatePhase.Modification1);
             updateSystem.UpdateAt<TreeControllerUISystem>(SystemUpdatePhase.UIUpdate);
+            updateSystem.UpdateAt<TreeCensusSystem>(SystemUpdatePhase.UIUpdate);
+            updateSystem.UpdateAt<FoliageColorInfoSection>(SystemUpdatePhase.UIUpdate);
             updateSystem.UpdateAt<TreeControllerTooltipSystem>(SystemUpdatePhase.UITooltip);
             updateSystem.UpdateAt<ClearTreeControllerTool>(SystemUpdatePhase.ClearTool);
             updateSystem.UpdateBefore<FindTreesAndBushesSystem>(SystemUpdatePhase.GameSimulation);
@@ -1,5 +1,9 @@
 import { ModRegistrar } from "cs2/modding";
 import { TreeControllerComponent } from "mods/TreeControllerSections/treeControllerSections";
+import { CustomSetManagerComponent } from "mods/CustomSetManager/customSetManager";
+import { WholeMapConfirmationComponent } from "mods/WholeMapConfirmation/wholeMapConfirmation";
+import { TreeCensusComponent } from "mods/TreeCensus/treeCensus";
+import { FoliageColorSectionRegistration } from "mods/FoliageColorSection/foliageColorSection";
 import { VanillaComponentResolver } from "mods/VanillaComponentResolver/VanillaComponentResolver";
 import mod from "../mod.json";
 
@@ -12,6 +16,18 @@ const register: ModRegistrar = (moduleRegistry) => {
      // This extends mouse tool options to include all tree controller sections.
      moduleRegistry.extend("game-ui/game/components/tool-options/mouse-tool-options/mouse-tool-options.tsx", 'MouseToolOptions', TreeControllerComponent);
 
+     // This appends the floating custom set manager panel to the game UI.
+     moduleRegistry.append("Game", CustomSetManagerComponent);
+
+     // This appends the dialog for confirming whole map changes to the game UI.
+     moduleRegistry.append("Game", WholeMapConfirmationComponent);
+
+     // This appends the floating tree census panel to the game UI.
+     moduleRegistry.append("Game", TreeCensusComponent);
+
+     // This adds the seasonal foliage color section to the selected object panel.
+     moduleRegistry.extend("game-ui/game/components/selected-info-panel/selected-info-sections/selected-info-sections.tsx", 'selectedInfoSectionComponents', FoliageColorSectionRegistration);
+
 
      
      // This is just to verify using UI console that all the component registriations was completed.
@@ -0,0 +1,165 @@
+import { bindValue, trigger, useValue } from "cs2/api";
+import { useLocalization } from "cs2/l10n";
+import { Button, Panel, Scrollable } from "cs2/ui";
+import { useEffect, useState } from "react";
+import mod from "../../../mod.json";
+import { VanillaComponentResolver } from "../VanillaComponentResolver/VanillaComponentResolver";
+import { CustomSets$, descriptionTooltip, PrefabSetData, ShowSetManager$ } from "../TreeControllerSections/treeControllerSections";
+import styles from "./customSetManager.module.scss";
+import sectionStyles from "../TreeControllerSections/treeController.module.scss";
+import locale from "../lang/en-US.json";
+
+enum ImportStatus
+{
+    None = 0,
+    Imported = 1,
+    ImportedWithMissingPrefabs = 2,
+    Invalid = 3,
+}
+
+// These contain the coui paths to Unified Icon Library svg assets
+const couiStandard =                         "coui://uil/Standard/";
+const diskSaveSrc =          couiStandard +  "DiskSave.svg";
+const arrowDownSrc =         couiStandard +  "ArrowDownThickStroke.svg";
+const arrowUpSrc =           couiStandard +  "ArrowUpThickStroke.svg";
+const duplicateSrc =         couiStandard +  "Duplicate.svg";
+const deleteSrc =            couiStandard +  "Trash.svg";
+
+// These establishes the binding with C# side. Without C# side game ui will crash.
+const ExportString$ =            bindValue<string>(mod.id, 'ExportString');
+const ImportStatus$ =            bindValue<number>(mod.id, 'ImportStatus');
+const ImportMissingPrefabs$ =    bindValue<string[]>(mod.id, 'ImportMissingPrefabs');
+
+// These are the icons a custom set can cycle through. An empty string shows the set's number instead.
+const setIcons = [
+    "",
+    couiStandard + "TreesDeciduous.svg",
+    couiStandard + "TreesNeedle.svg",
+    couiStandard + "Bushes.svg",
+    couiStandard + "Trees.svg",
+    couiStandard + "TreeAdult.svg",
+    couiStandard + "TreeSapling.svg",
+    couiStandard + "TreeDead.svg",
+];
+
+// This function gets the next icon in the cycle of set icons.
+function getNextSetIcon(icon: string) : string {
+    return setIcons[(setIcons.indexOf(icon) + 1) % setIcons.length];
+}
+
+// This component is a single row in the set manager for editing one custom set.
+const CustomSetRow = (props: { customSet: PrefabSetData, index: number, count: number }) =>
+{
+    const { customSet, index, count } = props;
+    const [name, setName] = useState(customSet.name);
+
+    // Keeps the text field in sync when the set is renamed from C#.
+    useEffect(() => setName(customSet.name), [customSet.name]);
+
+    const { translate } = useLocalization();
+    const iconTooltipTitle = translate("YY_TREE_CONTROLLER[set-icon]",locale["YY_TREE_CONTROLLER[set-icon]"]);
+    const iconTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[set-icon]",locale["YY_TREE_CONTROLLER_DESCRIPTION[set-icon]"]);
+    const saveTooltipTitle = translate("YY_TREE_CONTROLLER[save-set]",locale["YY_TREE_CONTROLLER[save-set]"]);
+    const saveTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[save-set]",locale["YY_TREE_CONTROLLER_DESCRIPTION[save-set]"]);
+    const moveUpTooltip = translate("YY_TREE_CONTROLLER[move-set-up]",locale["YY_TREE_CONTROLLER[move-set-up]"]);
+    const moveDownTooltip = translate("YY_TREE_CONTROLLER[move-set-down]",locale["YY_TREE_CONTROLLER[move-set-down]"]);
+    const duplicateTooltipTitle = translate("YY_TREE_CONTROLLER[duplicate-set]",locale["YY_TREE_CONTROLLER[duplicate-set]"]);
+    const duplicateTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[duplicate-set]",locale["YY_TREE_CONTROLLER_DESCRIPTION[duplicate-set]"]);
+    const deleteTooltipTitle = translate("YY_TREE_CONTROLLER[delete-set]",locale["YY_TREE_CONTROLLER[delete-set]"]);
+    const deleteTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[delete-set]",locale["YY_TREE_CONTROLLER_DESCRIPTION[delete-set]"]);
+
+    // Renames the set on C# side if the name was changed.
+    function commitName() {
+        if (name.trim() == "") {
+            setName(customSet.name);
+        } else if (name != customSet.name) {
+            trigger(mod.id, "RenameCustomSet", customSet.id, name);
+        }
+    }
+
+    return (
+        <div className={styles.yySetRow}>
+            <VanillaComponentResolver.instance.ToolButton  tooltip={descriptionTooltip(iconTooltipTitle, iconTooltipDescription)}  onSelect={() => trigger(mod.id, "ChangeCustomSetIcon", customSet.id, getNextSetIcon(customSet.icon))}  src={customSet.icon != "" ? customSet.icon : undefined}  children={customSet.icon == "" ? <div className={sectionStyles.yyNumberedButton}>{index+1}</div> : undefined}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+            <input
+                className={styles.yySetName}
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onBlur={() => commitName()}
+                onKeyDown={(e) => { if (e.key == "Enter") (e.target as HTMLInputElement).blur(); }}
+            />
+            <div className={styles.yySetCount}>{customSet.count}</div>
+            <VanillaComponentResolver.instance.ToolButton  tooltip={descriptionTooltip(saveTooltipTitle, saveTooltipDescription)}            onSelect={() => trigger(mod.id, "SaveCustomSet", customSet.id)}         src={diskSaveSrc}     focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+            <VanillaComponentResolver.instance.ToolButton  tooltip={moveUpTooltip}    disabled={index == 0}          onSelect={() => trigger(mod.id, "MoveCustomSet", customSet.id, -1)}     src={arrowUpSrc}      focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+            <VanillaComponentResolver.instance.ToolButton  tooltip={moveDownTooltip}  disabled={index == count - 1}  onSelect={() => trigger(mod.id, "MoveCustomSet", customSet.id, 1)}      src={arrowDownSrc}    focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+            <VanillaComponentResolver.instance.ToolButton  tooltip={descriptionTooltip(duplicateTooltipTitle, duplicateTooltipDescription)}  onSelect={() => trigger(mod.id, "DuplicateCustomSet", customSet.id)}    src={duplicateSrc}    focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+            <VanillaComponentResolver.instance.ToolButton  tooltip={descriptionTooltip(deleteTooltipTitle, deleteTooltipDescription)}        onSelect={() => trigger(mod.id, "DeleteCustomSet", customSet.id)}       src={deleteSrc}       focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+        </div>
+    );
+}
+
+// This is a floating panel for creating, renaming, duplicating, reordering and deleting custom sets.
+export const CustomSetManagerComponent = () =>
+{
+    const ShowSetManager = useValue(ShowSetManager$);
+    const CustomSets = useValue(CustomSets$);
+    const ExportString = useValue(ExportString$);
+    const CurrentImportStatus = useValue(ImportStatus$) as ImportStatus;
+    const ImportMissingPrefabs = useValue(ImportMissingPrefabs$);
+    const [importText, setImportText] = useState("");
+
+    const { translate } = useLocalization();
+
+    if (!ShowSetManager)
+    {
+        return null;
+    }
+
+    return (
+        <Panel
+            className={styles.yySetManager}
+            header={translate("YY_TREE_CONTROLLER[set-manager]",locale["YY_TREE_CONTROLLER[set-manager]"])}
+            onClose={() => trigger(mod.id, "ToggleSetManager")}
+            footer={
+                <Button variant="flat" onSelect={() => trigger(mod.id, "CreateCustomSet")} tooltipLabel={translate("YY_TREE_CONTROLLER_DESCRIPTION[new-set]",locale["YY_TREE_CONTROLLER_DESCRIPTION[new-set]"])}>
+                    {translate("YY_TREE_CONTROLLER[new-set]",locale["YY_TREE_CONTROLLER[new-set]"])}
+                </Button>
+            }
+        >
+            <Scrollable className={styles.yySetList} vertical={true} trackVisibility="scrollable">
+                { CustomSets.length == 0 && (
+                    <div className={styles.yyEmptyMessage}>{translate("YY_TREE_CONTROLLER[no-custom-sets]",locale["YY_TREE_CONTROLLER[no-custom-sets]"])}</div>
+                )}
+                { CustomSets.map((customSet, index) => (
+                    <CustomSetRow key={customSet.id} customSet={customSet} index={index} count={CustomSets.length}></CustomSetRow>
+                ))}
+            </Scrollable>
+            { ExportString != "" && (
+                <div className={styles.yyTransferRow}>
+                    <div className={styles.yyTransferLabel}>{translate("YY_TREE_CONTROLLER[exported-set]",locale["YY_TREE_CONTROLLER[exported-set]"])}</div>
+                    <input className={styles.yySetName} type="text" value={ExportString} readOnly={true} />
+                </div>
+            )}
+            <div className={styles.yyTransferRow}>
+                <input className={styles.yySetName} type="text" value={importText} onChange={(e) => setImportText(e.target.value)} />
+                <Button variant="flat" disabled={importText.trim() == ""} onSelect={() => { trigger(mod.id, "ImportPrefabSet", importText); setImportText(""); }} tooltipLabel={translate("YY_TREE_CONTROLLER_DESCRIPTION[import-set]",locale["YY_TREE_CONTROLLER_DESCRIPTION[import-set]"])}>
+                    {translate("YY_TREE_CONTROLLER[import-set]",locale["YY_TREE_CONTROLLER[import-set]"])}
+                </Button>
+            </div>
+            { CurrentImportStatus == ImportStatus.Imported && (
+                <div className={styles.yyEmptyMessage}>{translate("YY_TREE_CONTROLLER[import-succeeded]",locale["YY_TREE_CONTROLLER[import-succeeded]"])}</div>
+            )}
+            { CurrentImportStatus == ImportStatus.Invalid && (
+                <div className={styles.yyImportWarning}>{translate("YY_TREE_CONTROLLER[import-invalid]",locale["YY_TREE_CONTROLLER[import-invalid]"])}</div>
+            )}
+            { CurrentImportStatus == ImportStatus.ImportedWithMissingPrefabs && (
+                <div className={styles.yyImportWarning}>
+                    {translate("YY_TREE_CONTROLLER[import-missing-prefabs]",locale["YY_TREE_CONTROLLER[import-missing-prefabs]"])}
+                    { ImportMissingPrefabs.map((prefabName) => (
+                        <div key={prefabName} className={styles.yyMissingPrefab}>{prefabName}</div>
+                    ))}
+                </div>
+            )}
+        </Panel>
+    );
+}
@@ -0,0 +1,126 @@
+import { bindValue, trigger, useValue } from "cs2/api";
+import { Color } from "cs2/bindings";
+import { useLocalization } from "cs2/l10n";
+import { Button, Tooltip } from "cs2/ui";
+import mod from "../../../mod.json";
+import { VanillaComponentResolver } from "../VanillaComponentResolver/VanillaComponentResolver";
+import { descriptionTooltip } from "../TreeControllerSections/treeControllerSections";
+import styles from "./foliageColorSection.module.scss";
+import locale from "../lang/en-US.json";
+
+// This mirrors FoliageColorData in C#.
+interface FoliageColorData
+{
+    index: number;
+    season: number;
+    channel0: Color;
+    channel1: Color;
+    channel2: Color;
+}
+
+// These are the seasons in the same order as FoliageUtils.Season in C#.
+const seasons = ["Spring", "Summer", "Autumn", "Winter"];
+
+// These establishes the binding with C# side. They are only updated while a tree or plant with seasonal colors is selected.
+const FoliageColors$ =          bindValue<FoliageColorData[]>(mod.id, 'FoliageColors');
+const HasSavedFoliageColors$ =  bindValue<boolean>(mod.id, 'HasSavedFoliageColors');
+
+// This is the group of FoliageColorInfoSection in C#.
+const foliageColorSectionGroup = "Tree_Controller.FoliageColorInfoSection";
+
+// This function triggers an event to preview a new color for one channel of a color variation.
+function changeFoliageColor(index: number, channel: number, color: Color) {
+    trigger(mod.id, "ChangeFoliageColor", index, channel, color);
+}
+
+// This is a selected object panel section for editing the seasonal colors of the selected tree or plant's type.
+export const FoliageColorSectionComponent = () =>
+{
+    const FoliageColors = useValue(FoliageColors$);
+    const HasSavedFoliageColors = useValue(HasSavedFoliageColors$);
+
+    const { translate } = useLocalization();
+
+    if (FoliageColors.length == 0)
+    {
+        return null;
+    }
+
+    const channelLabels = [
+        translate("Tree_Controller.SECTION_TITLE[Channel0]",locale["Tree_Controller.SECTION_TITLE[Channel0]"]),
+        translate("Tree_Controller.SECTION_TITLE[Channel1]",locale["Tree_Controller.SECTION_TITLE[Channel1]"]),
+        translate("Tree_Controller.SECTION_TITLE[Channel2]",locale["Tree_Controller.SECTION_TITLE[Channel2]"]),
+    ];
+    const resetTooltipTitle = translate("Tree_Controller.TOOLTIP_TITLE[Reset]",locale["Tree_Controller.TOOLTIP_TITLE[Reset]"]);
+    const resetTooltipDescription = translate("Tree_Controller.TOOLTIP_DESCRIPTION[Reset]",locale["Tree_Controller.TOOLTIP_DESCRIPTION[Reset]"]);
+    const saveTooltipTitle = translate("Tree_Controller.TOOLTIP_TITLE[Save]",locale["Tree_Controller.TOOLTIP_TITLE[Save]"]);
+    const saveTooltipDescription = translate("Tree_Controller.TOOLTIP_DESCRIPTION[Save]",locale["Tree_Controller.TOOLTIP_DESCRIPTION[Save]"]);
+
+    // Some prefabs have two color variations per season so those are numbered.
+    function GetSeasonLabel(foliageColor: FoliageColorData) : string
+    {
+        const season = seasons[foliageColor.season] ?? "";
+        const seasonLabel = translate("Climate.SEASON[" + season + "]", season) ?? season;
+        const sameSeason = FoliageColors.filter((otherFoliageColor) => otherFoliageColor.season == foliageColor.season);
+        return sameSeason.length > 1 ? seasonLabel + " " + (sameSeason.indexOf(foliageColor) + 1) : seasonLabel;
+    }
+
+    return (
+        <VanillaComponentResolver.instance.InfoSection focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} disableFocus={true}>
+            <VanillaComponentResolver.instance.InfoRow
+                left={translate("Tree_Controller.SECTION_TITLE[InfoRowTitle]",locale["Tree_Controller.SECTION_TITLE[InfoRowTitle]"])}
+                right={translate("Tree_Controller.SECTION_TITLE[InfoRowSubTitle]",locale["Tree_Controller.SECTION_TITLE[InfoRowSubTitle]"])}
+                tooltip={translate("Tree_Controller.TOOLTIP_DESCRIPTION[InfoRowTooltip]",locale["Tree_Controller.TOOLTIP_DESCRIPTION[InfoRowTooltip]"])}
+                uppercase={true}
+                disableFocus={true}
+                subRow={false}
+                className={VanillaComponentResolver.instance.infoRowTheme.infoRow}
+            ></VanillaComponentResolver.instance.InfoRow>
+            { FoliageColors.map((foliageColor) => (
+                <VanillaComponentResolver.instance.InfoRow
+                    key={foliageColor.index}
+                    left={GetSeasonLabel(foliageColor)}
+                    right={
+                        <div className={styles.yyColorChannels}>
+                            { [foliageColor.channel0, foliageColor.channel1, foliageColor.channel2].map((color, channel) => (
+                                <Tooltip key={channel} tooltip={channelLabels[channel]}>
+                                    <div>
+                                        <VanillaComponentResolver.instance.ColorField className={styles.yyColorField} value={color} onChange={(e) => changeFoliageColor(foliageColor.index, channel, e)}></VanillaComponentResolver.instance.ColorField>
+                                    </div>
+                                </Tooltip>
+                            ))}
+                        </div>
+                    }
+                    uppercase={false}
+                    disableFocus={true}
+                    subRow={true}
+                    className={VanillaComponentResolver.instance.infoRowTheme.infoRow}
+                ></VanillaComponentResolver.instance.InfoRow>
+            ))}
+            <VanillaComponentResolver.instance.InfoRow
+                left={translate("Tree_Controller.SECTION_TITLE[ResetAndSave]",locale["Tree_Controller.SECTION_TITLE[ResetAndSave]"])}
+                right={
+                    <div className={styles.yyColorChannels}>
+                        <Button variant="flat" className={styles.yyColorButton} disabled={!HasSavedFoliageColors} onSelect={() => trigger(mod.id, "ResetFoliageColors")} tooltipLabel={descriptionTooltip(resetTooltipTitle, resetTooltipDescription)}>
+                            {resetTooltipTitle}
+                        </Button>
+                        <Button variant="flat" className={styles.yyColorButton} onSelect={() => trigger(mod.id, "SaveFoliageColors")} tooltipLabel={descriptionTooltip(saveTooltipTitle, saveTooltipDescription)}>
+                            {saveTooltipTitle}
+                        </Button>
+                    </div>
+                }
+                uppercase={false}
+                disableFocus={true}
+                subRow={true}
+                className={VanillaComponentResolver.instance.infoRowTheme.infoRow}
+            ></VanillaComponentResolver.instance.InfoRow>
+        </VanillaComponentResolver.instance.InfoSection>
+    );
+}
+
+// This adds the section to the selected object panel. The key must match the group of the section in C#.
+export const FoliageColorSectionRegistration = (componentList: any): any =>
+{
+    componentList[foliageColorSectionGroup] = () => <FoliageColorSectionComponent />;
+    return componentList;
+}
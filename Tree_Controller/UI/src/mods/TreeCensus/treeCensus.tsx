@@ -0,0 +1,167 @@
+import { bindValue, trigger, useValue } from "cs2/api";
+import { useLocalization } from "cs2/l10n";
+import { Panel, Scrollable, Tooltip } from "cs2/ui";
+import { useState } from "react";
+import mod from "../../../mod.json";
+import { ShowCensus$, SourcePrefabs$ } from "../TreeControllerSections/treeControllerSections";
+import styles from "./treeCensus.module.scss";
+import locale from "../lang/en-US.json";
+
+// This mirrors TreeCensusData in C#.
+interface TreeCensusData
+{
+    name: string;
+    thumbnail: string;
+    child: number;
+    teen: number;
+    adult: number;
+    elderly: number;
+    dead: number;
+    freeStanding: number;
+    owned: number;
+}
+
+// These are the columns the census can be sorted by.
+enum CensusColumn
+{
+    Name = 0,
+    Total = 1,
+    Child = 2,
+    Teen = 3,
+    Adult = 4,
+    Elderly = 5,
+    Dead = 6,
+    FreeStanding = 7,
+    Owned = 8,
+}
+
+// These contain the coui paths to Unified Icon Library svg assets
+const couiStandard =                         "coui://uil/Standard/";
+const childSrc =             couiStandard +  "TreeSapling.svg";
+const teenSrc =              couiStandard +  "TreeTeen.svg";
+const adultSrc =             couiStandard +  "TreeAdult.svg";
+const elderlySrc =           couiStandard +  "TreeElderly.svg";
+const deadSrc =              couiStandard +  "TreeDead.svg";
+const freeStandingSrc =      couiStandard +  "Trees.svg";
+const ownedSrc =             couiStandard +  "HouseandNetwork.svg";
+
+// This establishes the binding with C# side. It is only updated while the census panel is open.
+const TreeCensus$ = bindValue<TreeCensusData[]>(mod.id, 'TreeCensus');
+
+// This function gets the value of a census row for a column that is sorted by number.
+function getColumnValue(row: TreeCensusData, column: CensusColumn) : number {
+    switch (column) {
+        case CensusColumn.Child: return row.child;
+        case CensusColumn.Teen: return row.teen;
+        case CensusColumn.Adult: return row.adult;
+        case CensusColumn.Elderly: return row.elderly;
+        case CensusColumn.Dead: return row.dead;
+        case CensusColumn.FreeStanding: return row.freeStanding;
+        case CensusColumn.Owned: return row.owned;
+        default: return row.freeStanding + row.owned;
+    }
+}
+
+// This is a floating panel listing every tree and plant prefab on the map with counts by age and owner.
+export const TreeCensusComponent = () =>
+{
+    const ShowCensus = useValue(ShowCensus$);
+    const TreeCensus = useValue(TreeCensus$);
+    const SourcePrefabs = useValue(SourcePrefabs$);
+    const [filter, setFilter] = useState("");
+    const [sortColumn, setSortColumn] = useState(CensusColumn.Total);
+    const [sortDescending, setSortDescending] = useState(true);
+
+    const { translate } = useLocalization();
+
+    if (!ShowCensus)
+    {
+        return null;
+    }
+
+    const ageColumns = [
+        { column: CensusColumn.Child,           src: childSrc,          tooltip: translate("YY_TREE_CONTROLLER[child]",locale["YY_TREE_CONTROLLER[child]"]) },
+        { column: CensusColumn.Teen,            src: teenSrc,           tooltip: translate("YY_TREE_CONTROLLER[teen]",locale["YY_TREE_CONTROLLER[teen]"]) },
+        { column: CensusColumn.Adult,           src: adultSrc,          tooltip: translate("YY_TREE_CONTROLLER[adult]",locale["YY_TREE_CONTROLLER[adult]"]) },
+        { column: CensusColumn.Elderly,         src: elderlySrc,        tooltip: translate("YY_TREE_CONTROLLER[elderly]",locale["YY_TREE_CONTROLLER[elderly]"]) },
+        { column: CensusColumn.Dead,            src: deadSrc,           tooltip: translate("YY_TREE_CONTROLLER[dead]",locale["YY_TREE_CONTROLLER[dead]"]) },
+        { column: CensusColumn.FreeStanding,    src: freeStandingSrc,   tooltip: translate("YY_TREE_CONTROLLER[census-free-standing]",locale["YY_TREE_CONTROLLER[census-free-standing]"]) },
+        { column: CensusColumn.Owned,           src: ownedSrc,          tooltip: translate("YY_TREE_CONTROLLER[census-owned]",locale["YY_TREE_CONTROLLER[census-owned]"]) },
+    ];
+
+    // Clicking the sorted column again reverses the order.
+    function changeSort(column: CensusColumn) {
+        if (column == sortColumn) {
+            setSortDescending(!sortDescending);
+        } else {
+            setSortColumn(column);
+            setSortDescending(column != CensusColumn.Name);
+        }
+    }
+
+    function getDisplayName(row: TreeCensusData) : string {
+        return translate("Assets.NAME[" + row.name + "]", row.name) ?? row.name;
+    }
+
+    const filterText = filter.trim().toLowerCase();
+    const rows = TreeCensus
+        .filter((row) => filterText == "" || getDisplayName(row).toLowerCase().includes(filterText) || row.name.toLowerCase().includes(filterText))
+        .sort((a, b) => {
+            const order = sortColumn == CensusColumn.Name ? getDisplayName(a).localeCompare(getDisplayName(b)) : getColumnValue(a, sortColumn) - getColumnValue(b, sortColumn);
+            return sortDescending ? -order : order;
+        });
+
+    const selectTooltip = translate("YY_TREE_CONTROLLER_DESCRIPTION[census-select]",locale["YY_TREE_CONTROLLER_DESCRIPTION[census-select]"]);
+
+    return (
+        <Panel
+            className={styles.yyCensus}
+            header={translate("YY_TREE_CONTROLLER[tree-census]",locale["YY_TREE_CONTROLLER[tree-census]"])}
+            onClose={() => trigger(mod.id, "ToggleCensus")}
+        >
+            <input
+                className={styles.yyCensusFilter}
+                type="text"
+                value={filter}
+                placeholder={translate("YY_TREE_CONTROLLER[census-filter]",locale["YY_TREE_CONTROLLER[census-filter]"]) ?? undefined}
+                onChange={(e) => setFilter(e.target.value)}
+            />
+            <div className={styles.yyCensusRow}>
+                <div className={styles.yyCensusIcon}></div>
+                <div className={styles.yyCensusName + " " + styles.yyCensusHeader + (sortColumn == CensusColumn.Name ? " " + styles.yyCensusSorted : "")} onClick={() => changeSort(CensusColumn.Name)}>
+                    {translate("YY_TREE_CONTROLLER[census-name]",locale["YY_TREE_CONTROLLER[census-name]"])}
+                </div>
+                { ageColumns.map((ageColumn) => (
+                    <Tooltip key={ageColumn.column} tooltip={ageColumn.tooltip}>
+                        <div className={styles.yyCensusCount + " " + styles.yyCensusHeader + (sortColumn == ageColumn.column ? " " + styles.yyCensusSorted : "")} onClick={() => changeSort(ageColumn.column)}>
+                            <img className={styles.yyCensusHeaderIcon} src={ageColumn.src}></img>
+                        </div>
+                    </Tooltip>
+                ))}
+                <div className={styles.yyCensusCount + " " + styles.yyCensusHeader + (sortColumn == CensusColumn.Total ? " " + styles.yyCensusSorted : "")} onClick={() => changeSort(CensusColumn.Total)}>
+                    {translate("YY_TREE_CONTROLLER[census-total]",locale["YY_TREE_CONTROLLER[census-total]"])}
+                </div>
+            </div>
+            <Scrollable className={styles.yyCensusList} vertical={true} trackVisibility="scrollable">
+                { rows.length == 0 && (
+                    <div className={styles.yyEmptyMessage}>{translate("YY_TREE_CONTROLLER[census-empty]",locale["YY_TREE_CONTROLLER[census-empty]"])}</div>
+                )}
+                { rows.map((row) => (
+                    <Tooltip key={row.name} tooltip={selectTooltip}>
+                        <div
+                            className={styles.yyCensusRow + " " + styles.yyCensusEntry + (SourcePrefabs.includes(row.name) ? " " + styles.yyCensusSelected : "")}
+                            onClick={(e) => trigger(mod.id, "SelectCensusPrefab", row.name, e.ctrlKey || e.shiftKey)}
+                        >
+                            <img className={styles.yyCensusIcon} src={row.thumbnail}></img>
+                            <div className={styles.yyCensusName}>{getDisplayName(row)}</div>
+                            { ageColumns.map((ageColumn) => (
+                                <div key={ageColumn.column} className={styles.yyCensusCount}>{getColumnValue(row, ageColumn.column)}</div>
+                            ))}
+                            <div className={styles.yyCensusCount}>{row.freeStanding + row.owned}</div>
+                        </div>
+                    </Tooltip>
+                ))}
+            </Scrollable>
+        </Panel>
+    );
+}
@@ -4,9 +4,8 @@ import { tool } from "cs2/bindings";
 import mod from "../../../mod.json";
 import { VanillaComponentResolver } from "../VanillaComponentResolver/VanillaComponentResolver";
 import { useLocalization } from "cs2/l10n";
+import { Button, Tooltip } from "cs2/ui";
 import styles from "./treeController.module.scss";
-import { useState } from "react";
-import { Icon } from "cs2/ui";
 import locale from "../lang/en-US.json";
 
 enum Ages 
@@ -20,11 +19,30 @@ enum Ages
     All = 32,
 }
 
+enum AgePreset
+{
+    Equal = 0,
+    Forest = 1,
+    YoungPlantation = 2,
+    OldGrowthForest = 3,
+    DyingGrove = 4,
+}
+
+enum TreeOwners
+{
+    None = 0,
+    FreeStanding = 1,
+    Building = 2,
+    Network = 4,
+}
+
 enum ToolMode 
 {    Plop = 0,
     Brush = 1,
     ChangeAge = 2,
     ChangeType = 3,
+    FreezeGrowth = 4,
+    ResumeGrowth = 5,
 }
 
 enum Selection
@@ -33,6 +51,67 @@ enum Selection
     BuildingOrNet = 1,
     Radius = 2,
     Map = 3,
+    Rectangle = 4,
+    Lasso = 5,
+    District = 6,
+}
+
+enum TreeOverlay
+{
+    None = 0,
+    Age = 1,
+    PrefabSet = 2,
+    Growth = 3,
+}
+
+// This mirrors PrefabSetData in C#.
+export interface PrefabSetData 
+{
+    id: string;
+    name: string;
+    icon: string;
+    count: number;
+}
+
+// This mirrors RegisteredPrefabSetData in C#. Name and description are locale keys or plain text.
+interface RegisteredPrefabSetData 
+{
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    count: number;
+}
+
+// This mirrors PrefabWeightData in C#.
+export interface PrefabWeightData 
+{
+    name: string;
+    thumbnail: string;
+    weight: number;
+}
+
+// This mirrors PrefabCountData in C#.
+interface PrefabCountData 
+{
+    name: string;
+    count: number;
+}
+
+// This mirrors TreeChangeBatchData in C#.
+interface TreeChangeBatchData 
+{
+    toolMode: ToolMode;
+    selection: Selection;
+    trees: number;
+    undone: boolean;
+}
+
+// This mirrors KeyBindingData in C#.
+interface KeyBindingData 
+{
+    action: string;
+    binding: string;
 }
 
 // These contain the coui paths to Unified Icon Library svg assets
@@ -42,6 +121,9 @@ const prefabChangeSrc =      couiStandard +  "Replace.svg";
 const buildingOrNetSrc =     couiStandard +  "HouseandNetwork.svg";
 const radiusSrc =            couiStandard +  "Circle.svg";
 const wholeMapSrc    =       couiStandard +  "MapGrid.svg";
+const rectangleSrc =         couiStandard +  "Rectangle.svg";
+const lassoSrc =             couiStandard +  "Lasso.svg";
+const districtSrc =          "Media/Game/Icons/Districts.svg";
 const childSrc =             couiStandard +  "TreeSapling.svg";
 const teenSrc =              couiStandard +  "TreeTeen.svg";
 const adultSrc =             couiStandard +  "TreeAdult.svg";
@@ -52,18 +134,50 @@ const arrowUpSrc =           couiStandard +  "ArrowUpThickStroke.svg";
 const deciduousSrc =         couiStandard +  "TreesDeciduous.svg";
 const evergreenSrc =         couiStandard +  "TreesNeedle.svg";
 const bushesSrc =            couiStandard +  "Bushes.svg";
-const diskSaveSrc =          couiStandard +  "DiskSave.svg";
+const setManagerSrc =        couiStandard +  "Gear.svg";
+const exportSetSrc =         couiStandard +  "Share.svg";
+const censusSrc =            couiStandard +  "List.svg";
+const freeStandingSrc =      couiStandard +  "Trees.svg";
+const buildingOwnedSrc =     "Media/Game/Icons/Zones.svg";
+const networkOwnedSrc =      "Media/Game/Icons/Roads.svg";
 const clearAgesSrc =        couiStandard + "StarAll.svg";
 const brushSrc =            couiStandard + "Trees.svg";
+const randomRotationSrc =   couiStandard + "Dice.svg";
+const fixedRotationSrc =    couiStandard + "RotateAngleAbsolute.svg";
+const freezeGrowthSrc =     couiStandard + "Pause.svg";
+const resumeGrowthSrc =     couiStandard + "Play.svg";
+const eyedropperSrc =       couiStandard + "PickerPipette.svg";
 
 // These establishes the binding with C# side. Without C# side game ui will crash.
 const ToolMode$ =            bindValue<number> (mod.id, 'ToolMode');
 const SelectedAges$ =        bindValue<number> (mod.id, 'SelectedAges');
+const AgeWeights$ =          bindValue<number[]>(mod.id, 'AgeWeights');
 const SelectionMode$ =       bindValue<number> (mod.id, 'SelectionMode');
 const IsVegetation$ =        bindValue<boolean>(mod.id, 'IsVegetation');
 const IsTree$ =              bindValue<boolean>(mod.id, 'IsTree');
 const Radius$ =              bindValue<number>(mod.id, 'Radius');
 const PrefabSet$ =           bindValue<string>(mod.id, 'PrefabSet');
+export const CustomSets$ =   bindValue<PrefabSetData[]>(mod.id, 'CustomSets');
+const RegisteredSets$ =      bindValue<RegisteredPrefabSetData[]>(mod.id, 'RegisteredSets');
+export const ShowSetManager$ = bindValue<boolean>(mod.id, 'ShowSetManager');
+export const ShowCensus$ =   bindValue<boolean>(mod.id, 'ShowCensus');
+export const SetComposition$ = bindValue<PrefabWeightData[]>(mod.id, 'SetComposition');
+const History$ =             bindValue<TreeChangeBatchData[]>(mod.id, 'History');
+const PreviewCount$ =        bindValue<number>(mod.id, 'PreviewCount');
+const PreviewAgeCounts$ =    bindValue<number[]>(mod.id, 'PreviewAgeCounts');
+const PreviewPrefabCounts$ = bindValue<PrefabCountData[]>(mod.id, 'PreviewPrefabCounts');
+const ChangeAgeOwners$ =     bindValue<number>(mod.id, 'ChangeAgeOwners');
+const ChangeTypeOwners$ =    bindValue<number>(mod.id, 'ChangeTypeOwners');
+export const SourcePrefabs$ = bindValue<string[]>(mod.id, 'SourcePrefabs');
+const KeyBindings$ =         bindValue<KeyBindingData[]>(mod.id, 'KeyBindings');
+const RandomRotation$ =      bindValue<boolean>(mod.id, 'RandomRotation');
+const FixedRotation$ =       bindValue<boolean>(mod.id, 'FixedRotation');
+const RotationAngle$ =       bindValue<number>(mod.id, 'RotationAngle');
+const RotationJitter$ =      bindValue<number>(mod.id, 'RotationJitter');
+const BrushDensity$ =        bindValue<number>(mod.id, 'BrushDensity');
+const BrushSpacing$ =        bindValue<number>(mod.id, 'BrushSpacing');
+const Overlay$ =             bindValue<number>(mod.id, 'Overlay');
+const Eyedropper$ =          bindValue<boolean>(mod.id, 'Eyedropper');
 
 // These are strings that will be used for event triggers.
 const radiusDownID =             "radius-down-arrow";
@@ -71,7 +185,51 @@ const radiusUpID =               "radius-up-arrow";
 const deciduousTreesID =         "YYTC-wild-deciduous-trees";
 const evergreenTreesID =         "YYTC-evergreen-trees";
 const wildBushesID =             "YYTC-wild-bushes";
-const customSetID =              "YYTC-custom-set-";
+const toggleSetManagerID =       "ToggleSetManager";
+const exportPrefabSetID =        "ExportPrefabSet";
+const toggleCensusID =           "ToggleCensus";
+const undoTreeChangesID =        "UndoTreeChanges";
+const redoTreeChangesID =        "RedoTreeChanges";
+const useSelectionAsSourceID =   "UseSelectionAsSourcePrefabs";
+const clearSourcePrefabsID =     "ClearSourcePrefabs";
+const toggleRandomRotationID =   "ToggleRandomRotation";
+const toggleFixedRotationID =    "ToggleFixedRotation";
+const toggleEyedropperID =       "ToggleEyedropper";
+
+// These are the steps in degrees for the rotation arrow buttons.
+const rotationAngleStep = 15;
+const rotationJitterStep = 5;
+
+// These are the steps for the brush density in trees per hectare and brush spacing in meters.
+const brushDensityStep = 25;
+const brushSpacingStep = 1;
+
+// These are the names of the input actions registered in the mod settings.
+const cycleToolModeAction =      "CycleToolMode";
+const cycleSelectionModeAction = "CycleSelectionMode";
+const increaseRadiusAction =     "IncreaseRadius";
+const decreaseRadiusAction =     "DecreaseRadius";
+const toggleChildAgeAction =     "ToggleChildAge";
+const toggleTeenAgeAction =      "ToggleTeenAge";
+const toggleAdultAgeAction =     "ToggleAdultAge";
+const toggleElderlyAgeAction =   "ToggleElderlyAge";
+const toggleDeadAgeAction =      "ToggleDeadAge";
+const recallSetAction =          "RecallSet";
+const saveSetAction =            "SaveSet";
+const undoAction =               "Undo";
+const redoAction =               "Redo";
+const addPickedTreeAction =      "AddPickedTree";
+
+// These are the colors of the overlay markers. They mirror the colors in TreeOverlayJob in C#.
+const ageOverlayColors =        ["#99E673", "#40BF4D", "#1A7333", "#F29926", "#8C664D"];
+const prefabSetOverlayColors =  ["#E042E6", "#59CC4D", "#1A7366", "#F2CC40", "#4D8CF2", "#999999"];
+const growthOverlayColors =     ["#85CCDB", "#BF8040", "#E64D40", "#59CC4D"];
+
+// This is the number of types listed in the Affected Trees section before the rest are summarized.
+const maxPreviewPrefabs = 5;
+
+// These are the icons for the selection modes in the History section.
+const selectionSrcs = [adultSrc, buildingOrNetSrc, radiusSrc, wholeMapSrc, rectangleSrc, lassoSrc, districtSrc];
 
 // This functions trigger an event on C# side and C# designates the method to implement.
 function handleClick(eventName: string) 
@@ -89,22 +247,70 @@ function changeSelectedAge(age: Ages) {
     trigger(mod.id, "ChangeSelectedAge", age);
 }
 
+// This function triggers an event to change the weight of an age.
+function changeAgeWeight(age: Ages, weight: number) {
+    trigger(mod.id, "ChangeAgeWeight", age, Math.round(weight));
+}
+
+// This function triggers an event to change the weight of a selected prefab.
+function changePrefabWeight(prefabName: string, weight: number) {
+    trigger(mod.id, "ChangePrefabWeight", prefabName, Math.round(weight));
+}
+
+// This function triggers an event to apply an age distribution preset.
+function applyAgePreset(preset: AgePreset) {
+    trigger(mod.id, "ApplyAgePreset", preset);
+}
+
 // This function triggers an event to change the tree controller selection mode.
 function changeSelectionMode(selectionMode: Selection) {
     trigger(mod.id, "ChangeSelectionMode", selectionMode);
 }
 
+// This function triggers an event to include or exclude trees with an owner for the current tool mode.
+function toggleOwnerFilter(owner: TreeOwners) {
+    trigger(mod.id, "ToggleOwnerFilter", owner);
+}
+
 // This function triggers an event to change the prefab set.
 function changePrefabSet(prefabSet: string) {
     trigger(mod.id, "ChangePrefabSet", prefabSet);
 }
 
+// This function triggers an event to change the angle used with fixed rotation. C# wraps it to 0 to 359.
+function changeRotationAngle(angle: number) {
+    trigger(mod.id, "ChangeRotationAngle", Math.round(angle));
+}
+
+// This function triggers an event to change how much the angle randomly varies by. C# clamps it to 0 to 180.
+function changeRotationJitter(jitter: number) {
+    trigger(mod.id, "ChangeRotationJitter", Math.round(jitter));
+}
+
+// This function triggers an event to change the target density for brushing and thinning. C# clamps it to 0 to 2500.
+function changeBrushDensity(density: number) {
+    trigger(mod.id, "ChangeBrushDensity", Math.round(density));
+}
+
+// This function triggers an event to change the minimum spacing for brushing and thinning. C# clamps it to 0 to 50.
+function changeBrushSpacing(spacing: number) {
+    trigger(mod.id, "ChangeBrushSpacing", Math.round(spacing));
+}
+
+// This function triggers an event to change the overlay. C# turns it off when the current overlay is selected again.
+function changeOverlay(overlay: TreeOverlay) {
+    trigger(mod.id, "ChangeOverlay", overlay);
+}
+
 // This is working, but it's possible a better solution is possible.
-function descriptionTooltip(tooltipTitle: string | null, tooltipDescription: string | null) : JSX.Element {
+export function descriptionTooltip(tooltipTitle: string | null, tooltipDescription: string | null, tooltipShortcut?: string | null) : JSX.Element {
     return (
         <>
             <div className={VanillaComponentResolver.instance.descriptionTooltipTheme.title}>{tooltipTitle}</div>
             <div className={VanillaComponentResolver.instance.descriptionTooltipTheme.content}>{tooltipDescription}</div>
+            { tooltipShortcut && (
+                <div className={VanillaComponentResolver.instance.descriptionTooltipTheme.content}>{tooltipShortcut}</div>
+            )}
         </>
     );
 }
@@ -123,75 +329,78 @@ export const TreeControllerComponent: ModuleRegistryExtend = (Component : any) =
         const SelectionMode = useValue(SelectionMode$);
         const CurrentToolMode = useValue(ToolMode$);
         const SelectedAges = useValue(SelectedAges$) as Ages;
+        const AgeWeights = useValue(AgeWeights$);
         const Radius = useValue(Radius$);
         const IsVegetation = useValue(IsVegetation$);
         const IsTree = useValue(IsTree$);
         const PrefabSet = useValue(PrefabSet$);
 
-        // These set up state variables for custom sets switching from number to save disk icon.
-        const [isCustomSet1Hovered, setCustomSet1Hovered] = useState(false);
-        const [isCustomSet2Hovered, setCustomSet2Hovered] = useState(false);
-        const [isCustomSet3Hovered, setCustomSet3Hovered] = useState(false);
-        const [isCustomSet4Hovered, setCustomSet4Hovered] = useState(false);
-        const [isCustomSet5Hovered, setCustomSet5Hovered] = useState(false);
+        const CustomSets = useValue(CustomSets$);
+        const RegisteredSets = useValue(RegisteredSets$);
+        const SetComposition = useValue(SetComposition$);
+        const ShowCensus = useValue(ShowCensus$);
+        const History = useValue(History$);
+        const PreviewCount = useValue(PreviewCount$);
+        const ChangeAgeOwners = useValue(ChangeAgeOwners$) as TreeOwners;
+        const ChangeTypeOwners = useValue(ChangeTypeOwners$) as TreeOwners;
+        const SourcePrefabs = useValue(SourcePrefabs$);
+        const KeyBindings = useValue(KeyBindings$);
+        const RandomRotation = useValue(RandomRotation$);
+        const FixedRotation = useValue(FixedRotation$);
+        const RotationAngle = useValue(RotationAngle$);
+        const RotationJitter = useValue(RotationJitter$);
+        const BrushDensity = useValue(BrushDensity$);
+        const BrushSpacing = useValue(BrushSpacing$);
+        const Overlay = useValue(Overlay$) as TreeOverlay;
+        const Eyedropper = useValue(Eyedropper$);
+        const OwnerFilter = CurrentToolMode == ToolMode.ChangeType ? ChangeTypeOwners : ChangeAgeOwners;
+        const PreviewAgeCounts = useValue(PreviewAgeCounts$);
+        const PreviewPrefabCounts = useValue(PreviewPrefabCounts$);
+        const totalPrefabWeight = SetComposition.reduce((total, prefabWeight) => total + prefabWeight.weight, 0);
 
-        // These functions generate a div with either a number inside or an icon. might be amore efficient way to do this.
-        function GenerateCustomSetNumber1() : JSX.Element 
+        // This gets the chance of a prefab being chosen as a percentage of the selected prefabs. If all weights are zero the prefabs are equally likely.
+        function GetPrefabPercentage(weight: number) : number
         {
-            return (
-                <div className = {styles.yyNumberedButton} 
-                     onMouseEnter={(ev) => {if (ev.ctrlKey) setCustomSet1Hovered(true); else setCustomSet1Hovered(false)}}
-                     onMouseLeave={() => setCustomSet1Hovered(false)}>
-                    {isCustomSet1Hovered ? <Icon src={diskSaveSrc}></Icon> : 1}
-                </div>
-            );
-        }
+            if (totalPrefabWeight <= 0) 
+            {
+                return Math.round(100 / SetComposition.length);
+            }
 
-        function GenerateCustomSetNumber2() : JSX.Element 
-        {
-            return (
-                <div className = {styles.yyNumberedButton} 
-                     onMouseEnter={(ev) => {if (ev.ctrlKey) setCustomSet2Hovered(true); else setCustomSet2Hovered(false)}}
-                     onMouseLeave={() => setCustomSet2Hovered(false)}>
-                    {isCustomSet2Hovered ? <Icon src={diskSaveSrc}></Icon> : 2}
-                </div>
-            );
+            return Math.round(weight * 100 / totalPrefabWeight);
         }
 
-        function GenerateCustomSetNumber3() : JSX.Element 
+        // This generates a div with the set's number inside for custom sets without an icon.
+        function GenerateCustomSetNumber(number: number) : JSX.Element 
         {
             return (
-                <div className = {styles.yyNumberedButton} 
-                     onMouseEnter={(ev) => {if (ev.ctrlKey) setCustomSet3Hovered(true); else setCustomSet3Hovered(false)}}
-                     onMouseLeave={() => setCustomSet3Hovered(false)}>
-                    {isCustomSet3Hovered ? <Icon src={diskSaveSrc}></Icon> : 3}
+                <div className = {styles.yyNumberedButton}>
+                    {number}
                 </div>
             );
         }
 
-        function GenerateCustomSetNumber4() : JSX.Element 
-        {
-            return (
-                <div className = {styles.yyNumberedButton} 
-                     onMouseEnter={(ev) => {if (ev.ctrlKey) setCustomSet4Hovered(true); else setCustomSet4Hovered(false)}}
-                     onMouseLeave={() => setCustomSet4Hovered(false)}>
-                    {isCustomSet4Hovered ? <Icon src={diskSaveSrc}></Icon> : 4}
-                </div>
-            );
-        }
+        // These are the ages in the same order as the AgeWeights binding.
+        const weightedAges = [
+            { age: Ages.Child, src: childSrc },
+            { age: Ages.Teen, src: teenSrc },
+            { age: Ages.Adult, src: adultSrc },
+            { age: Ages.Elderly, src: elderlySrc },
+            { age: Ages.Dead, src: deadSrc },
+        ];
+        const selectedWeightedAges = weightedAges.filter((weightedAge) => (SelectedAges & weightedAge.age) == weightedAge.age);
+        const totalSelectedWeight = selectedWeightedAges.reduce((total, weightedAge) => total + (AgeWeights[weightedAges.indexOf(weightedAge)] ?? 0), 0);
 
-        function GenerateCustomSetNumber5() : JSX.Element 
+        // This gets the chance of an age being chosen as a percentage of the selected ages. If all weights are zero the ages are equally likely.
+        function GetAgePercentage(index: number) : number
         {
-            return (
-                <div className = {styles.yyNumberedButton} 
-                     onMouseEnter={(ev) => {if (ev.ctrlKey) setCustomSet5Hovered(true); else setCustomSet5Hovered(false)}}
-                     onMouseLeave={() => setCustomSet5Hovered(false)}>
-                    {isCustomSet5Hovered ? <Icon src={diskSaveSrc}></Icon> : 5}
-                </div>
-            );
+            if (totalSelectedWeight <= 0) 
+            {
+                return Math.round(100 / selectedWeightedAges.length);
+            }
+
+            return Math.round((AgeWeights[index] ?? 0) * 100 / totalSelectedWeight);
         }
-        
-        
+
         // translation handling. Translates using locale keys that are defined in C# or fallback string here.
         const { translate } = useLocalization();
 
@@ -206,16 +415,13 @@ export const TreeControllerComponent: ModuleRegistryExtend = (Component : any) =
         const evergreenTooltipDescription = translate( "YY_TREE_CONTROLLER_DESCRIPTION[evergreen-trees]",locale["YY_TREE_CONTROLLER_DESCRIPTION[evergreen-trees]"]);
         const wildBushesTooltipTitle = translate("YY_TREE_CONTROLLER[wild-bushes]",locale["YY_TREE_CONTROLLER[wild-bushes]"]);
         const wildBushesTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[wild-bushes]",locale["YY_TREE_CONTROLLER_DESCRIPTION[wild-bushes]"]);
-        const customSet1TooltipTitle = translate("YY_TREE_CONTROLLER[custom-set-1]",locale["YY_TREE_CONTROLLER[custom-set-1]"]);
-        const customSet1TooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[custom-set-1]",locale["YY_TREE_CONTROLLER_DESCRIPTION[custom-set-1]"]);
-        const customSet2TooltipTitle = translate("YY_TREE_CONTROLLER[custom-set-2]",locale["YY_TREE_CONTROLLER[custom-set-2]"]);
-        const customSet2TooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[custom-set-2]",locale["YY_TREE_CONTROLLER_DESCRIPTION[custom-set-2]"]);
-        const customSet3TooltipTitle = translate("YY_TREE_CONTROLLER[custom-set-3]",locale["YY_TREE_CONTROLLER[custom-set-3]"]);
-        const customSet3TooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[custom-set-3]",locale["YY_TREE_CONTROLLER_DESCRIPTION[custom-set-3]"]);
-        const customSet4TooltipTitle = translate("YY_TREE_CONTROLLER[custom-set-4]",locale["YY_TREE_CONTROLLER[custom-set-4]"]);
-        const customSet4TooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[custom-set-4]",locale["YY_TREE_CONTROLLER_DESCRIPTION[custom-set-4]"]);
-        const customSet5TooltipTitle = translate("YY_TREE_CONTROLLER[custom-set-5]",locale["YY_TREE_CONTROLLER[custom-set-5]"]);
-        const customSet5TooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[custom-set-5]",locale["YY_TREE_CONTROLLER_DESCRIPTION[custom-set-5]"]);
+        const customSetTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[custom-set]",locale["YY_TREE_CONTROLLER_DESCRIPTION[custom-set]"]);
+        const setManagerTooltipTitle = translate("YY_TREE_CONTROLLER[set-manager]",locale["YY_TREE_CONTROLLER[set-manager]"]);
+        const setManagerTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[set-manager]",locale["YY_TREE_CONTROLLER_DESCRIPTION[set-manager]"]);
+        const censusTooltipTitle = translate("YY_TREE_CONTROLLER[tree-census]",locale["YY_TREE_CONTROLLER[tree-census]"]);
+        const censusTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[tree-census]",locale["YY_TREE_CONTROLLER_DESCRIPTION[tree-census]"]);
+        const exportSetTooltipTitle = translate("YY_TREE_CONTROLLER[export-set]",locale["YY_TREE_CONTROLLER[export-set]"]);
+        const exportSetTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[export-set]",locale["YY_TREE_CONTROLLER_DESCRIPTION[export-set]"]);
         const clearAgeTooltipTitle = translate("YY_TREE_CONTROLLER[clear-ages]",locale["YY_TREE_CONTROLLER[clear-ages]"]);
         const clearAgeTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[clear-ages]", locale["YY_TREE_CONTROLLER_DESCRIPTION[clear-ages]"]);
         const childTooltipTitle = translate("YY_TREE_CONTROLLER[child]",locale["YY_TREE_CONTROLLER[child]"]);
@@ -228,6 +434,15 @@ export const TreeControllerComponent: ModuleRegistryExtend = (Component : any) =
         const elderlyTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[elderly]",locale["YY_TREE_CONTROLLER_DESCRIPTION[elderly]"]);
         const deadTooltipTitle = translate("YY_TREE_CONTROLLER[dead]",locale["YY_TREE_CONTROLLER[dead]"]);
         const deadTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[dead]",locale["YY_TREE_CONTROLLER_DESCRIPTION[dead]"]);
+        const prefabWeightTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[prefab-weight]",locale["YY_TREE_CONTROLLER_DESCRIPTION[prefab-weight]"]);
+        const ageWeightTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[age-weight]",locale["YY_TREE_CONTROLLER_DESCRIPTION[age-weight]"]);
+        const agePresets = [
+            { preset: AgePreset.Equal, title: translate("YY_TREE_CONTROLLER[age-preset-equal]",locale["YY_TREE_CONTROLLER[age-preset-equal]"]), description: translate("YY_TREE_CONTROLLER_DESCRIPTION[age-preset-equal]",locale["YY_TREE_CONTROLLER_DESCRIPTION[age-preset-equal]"]) },
+            { preset: AgePreset.Forest, title: translate("YY_TREE_CONTROLLER[age-preset-forest]",locale["YY_TREE_CONTROLLER[age-preset-forest]"]), description: translate("YY_TREE_CONTROLLER_DESCRIPTION[age-preset-forest]",locale["YY_TREE_CONTROLLER_DESCRIPTION[age-preset-forest]"]) },
+            { preset: AgePreset.YoungPlantation, title: translate("YY_TREE_CONTROLLER[age-preset-young-plantation]",locale["YY_TREE_CONTROLLER[age-preset-young-plantation]"]), description: translate("YY_TREE_CONTROLLER_DESCRIPTION[age-preset-young-plantation]",locale["YY_TREE_CONTROLLER_DESCRIPTION[age-preset-young-plantation]"]) },
+            { preset: AgePreset.OldGrowthForest, title: translate("YY_TREE_CONTROLLER[age-preset-old-growth-forest]",locale["YY_TREE_CONTROLLER[age-preset-old-growth-forest]"]), description: translate("YY_TREE_CONTROLLER_DESCRIPTION[age-preset-old-growth-forest]",locale["YY_TREE_CONTROLLER_DESCRIPTION[age-preset-old-growth-forest]"]) },
+            { preset: AgePreset.DyingGrove, title: translate("YY_TREE_CONTROLLER[age-preset-dying-grove]",locale["YY_TREE_CONTROLLER[age-preset-dying-grove]"]), description: translate("YY_TREE_CONTROLLER_DESCRIPTION[age-preset-dying-grove]",locale["YY_TREE_CONTROLLER_DESCRIPTION[age-preset-dying-grove]"]) },
+        ];
         const singleTreeTooltipTitle = translate("YY_TREE_CONTROLLER[single-tree]",locale["YY_TREE_CONTROLLER[single-tree]"]);
         const singleTreeTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[single-tree]",locale["YY_TREE_CONTROLLER_DESCRIPTION[single-tree]"]);
         const buildingOrNetTooltipTitle = translate("YY_TREE_CONTROLLER[building-or-net]",locale["YY_TREE_CONTROLLER[building-or-net]"]);
@@ -236,16 +451,121 @@ export const TreeControllerComponent: ModuleRegistryExtend = (Component : any) =
         const radiusTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[radius]", locale["YY_TREE_CONTROLLER_DESCRIPTION[radius]"]);
         const wholeMapTooltipTitle = translate("YY_TREE_CONTROLLER[whole-map]",locale["YY_TREE_CONTROLLER[whole-map]"]);
         const wholeMapTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[whole-map]",locale["YY_TREE_CONTROLLER_DESCRIPTION[whole-map]"]);
+        const rectangleTooltipTitle = translate("YY_TREE_CONTROLLER[rectangle]",locale["YY_TREE_CONTROLLER[rectangle]"]);
+        const rectangleTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[rectangle]",locale["YY_TREE_CONTROLLER_DESCRIPTION[rectangle]"]);
+        const lassoTooltipTitle = translate("YY_TREE_CONTROLLER[lasso]",locale["YY_TREE_CONTROLLER[lasso]"]);
+        const lassoTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[lasso]",locale["YY_TREE_CONTROLLER_DESCRIPTION[lasso]"]);
+        const districtTooltipTitle = translate("YY_TREE_CONTROLLER[district]",locale["YY_TREE_CONTROLLER[district]"]);
+        const districtTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[district]",locale["YY_TREE_CONTROLLER_DESCRIPTION[district]"]);
         const radiusUpTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[radius-up-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[radius-up-arrow]"]);
         const radiusDownTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[radius-up-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[radius-up-arrow]"]);
         const changeAgeTooltipTitle = translate("YY_TREE_CONTROLLER[change-age-tool]",locale["YY_TREE_CONTROLLER[change-age-tool]"]);
         const changeAgeTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[change-age-tool]",locale["YY_TREE_CONTROLLER_DESCRIPTION[change-age-tool]"]);
+        const freezeGrowthTooltipTitle = translate("YY_TREE_CONTROLLER[freeze-growth]",locale["YY_TREE_CONTROLLER[freeze-growth]"]);
+        const freezeGrowthTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[freeze-growth]",locale["YY_TREE_CONTROLLER_DESCRIPTION[freeze-growth]"]);
+        const resumeGrowthTooltipTitle = translate("YY_TREE_CONTROLLER[resume-growth]",locale["YY_TREE_CONTROLLER[resume-growth]"]);
+        const resumeGrowthTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[resume-growth]",locale["YY_TREE_CONTROLLER_DESCRIPTION[resume-growth]"]);
+        const eyedropperTooltipTitle = translate("YY_TREE_CONTROLLER[eyedropper]",locale["YY_TREE_CONTROLLER[eyedropper]"]);
+        const eyedropperTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[eyedropper]",locale["YY_TREE_CONTROLLER_DESCRIPTION[eyedropper]"]);
+        const ageOverlayTooltipTitle = translate("YY_TREE_CONTROLLER[age-overlay]",locale["YY_TREE_CONTROLLER[age-overlay]"]);
+        const ageOverlayTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[age-overlay]",locale["YY_TREE_CONTROLLER_DESCRIPTION[age-overlay]"]);
+        const prefabSetOverlayTooltipTitle = translate("YY_TREE_CONTROLLER[prefab-set-overlay]",locale["YY_TREE_CONTROLLER[prefab-set-overlay]"]);
+        const prefabSetOverlayTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[prefab-set-overlay]",locale["YY_TREE_CONTROLLER_DESCRIPTION[prefab-set-overlay]"]);
+        const growthOverlayTooltipTitle = translate("YY_TREE_CONTROLLER[growth-overlay]",locale["YY_TREE_CONTROLLER[growth-overlay]"]);
+        const growthOverlayTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[growth-overlay]",locale["YY_TREE_CONTROLLER_DESCRIPTION[growth-overlay]"]);
+
+        // These are the labels of the legend in the same order as the overlay colors.
+        const overlayLegends = [
+            [],
+            [childTooltipTitle, teenTooltipTitle, adultTooltipTitle, elderlyTooltipTitle, deadTooltipTitle],
+            [
+                translate("YY_TREE_CONTROLLER[overlay-selected]",locale["YY_TREE_CONTROLLER[overlay-selected]"]),
+                deciduousTooltipTitle,
+                evergreenTooltipTitle,
+                wildBushesTooltipTitle,
+                translate("YY_TREE_CONTROLLER[overlay-custom-set]",locale["YY_TREE_CONTROLLER[overlay-custom-set]"]),
+                translate("YY_TREE_CONTROLLER[overlay-other]",locale["YY_TREE_CONTROLLER[overlay-other]"]),
+            ],
+            [
+                translate("YY_TREE_CONTROLLER[growth-frozen]",locale["YY_TREE_CONTROLLER[growth-frozen]"]),
+                translate("YY_TREE_CONTROLLER[growth-lumber]",locale["YY_TREE_CONTROLLER[growth-lumber]"]),
+                translate("YY_TREE_CONTROLLER[growth-stopped]",locale["YY_TREE_CONTROLLER[growth-stopped]"]),
+                translate("YY_TREE_CONTROLLER[growth-growing]",locale["YY_TREE_CONTROLLER[growth-growing]"]),
+            ],
+        ];
+        const overlayColors = [[], ageOverlayColors, prefabSetOverlayColors, growthOverlayColors];
         const changePrefabTooltipTitle = translate("YY_TREE_CONTROLLER[change-prefab-tool]",locale["YY_TREE_CONTROLLER[change-prefab-tool]"]);
         const changePrefabTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[change-prefab-tool]",locale["YY_TREE_CONTROLLER_DESCRIPTION[change-prefab-tool]"]);
+        const undoTooltipTitle = translate("YY_TREE_CONTROLLER[undo]",locale["YY_TREE_CONTROLLER[undo]"]);
+        const undoTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[undo]",locale["YY_TREE_CONTROLLER_DESCRIPTION[undo]"]);
+        const redoTooltipTitle = translate("YY_TREE_CONTROLLER[redo]",locale["YY_TREE_CONTROLLER[redo]"]);
+        const redoTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[redo]",locale["YY_TREE_CONTROLLER_DESCRIPTION[redo]"]);
+        const historyTreesLabel = translate("YY_TREE_CONTROLLER[history-trees]",locale["YY_TREE_CONTROLLER[history-trees]"]);
+        const affectedTotalTooltipTitle = translate("YY_TREE_CONTROLLER[affected-total]",locale["YY_TREE_CONTROLLER[affected-total]"]);
+        const affectedTotalTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[affected-total]",locale["YY_TREE_CONTROLLER_DESCRIPTION[affected-total]"]);
+        const affectedMoreTypesLabel = translate("YY_TREE_CONTROLLER[affected-more-types]",locale["YY_TREE_CONTROLLER[affected-more-types]"]);
+        const freeStandingTooltipTitle = translate("YY_TREE_CONTROLLER[filter-free-standing]",locale["YY_TREE_CONTROLLER[filter-free-standing]"]);
+        const freeStandingTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[filter-free-standing]",locale["YY_TREE_CONTROLLER_DESCRIPTION[filter-free-standing]"]);
+        const buildingOwnedTooltipTitle = translate("YY_TREE_CONTROLLER[filter-building-owned]",locale["YY_TREE_CONTROLLER[filter-building-owned]"]);
+        const buildingOwnedTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[filter-building-owned]",locale["YY_TREE_CONTROLLER_DESCRIPTION[filter-building-owned]"]);
+        const networkOwnedTooltipTitle = translate("YY_TREE_CONTROLLER[filter-network-owned]",locale["YY_TREE_CONTROLLER[filter-network-owned]"]);
+        const networkOwnedTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[filter-network-owned]",locale["YY_TREE_CONTROLLER_DESCRIPTION[filter-network-owned]"]);
+        const useSelectionAsSourceTooltipTitle = translate("YY_TREE_CONTROLLER[use-selection-as-source]",locale["YY_TREE_CONTROLLER[use-selection-as-source]"]);
+        const useSelectionAsSourceTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[use-selection-as-source]",locale["YY_TREE_CONTROLLER_DESCRIPTION[use-selection-as-source]"]);
+        const clearSourcePrefabsTooltipTitle = translate("YY_TREE_CONTROLLER[clear-source-prefabs]",locale["YY_TREE_CONTROLLER[clear-source-prefabs]"]);
+        const clearSourcePrefabsTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[clear-source-prefabs]",locale["YY_TREE_CONTROLLER_DESCRIPTION[clear-source-prefabs]"]);
+        const randomRotationTooltipTitle = translate("YY_TREE_CONTROLLER[random-rotation]",locale["YY_TREE_CONTROLLER[random-rotation]"]);
+        const randomRotationTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[random-rotation]",locale["YY_TREE_CONTROLLER_DESCRIPTION[random-rotation]"]);
+        const fixedRotationTooltipTitle = translate("YY_TREE_CONTROLLER[fixed-rotation]",locale["YY_TREE_CONTROLLER[fixed-rotation]"]);
+        const fixedRotationTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[fixed-rotation]",locale["YY_TREE_CONTROLLER_DESCRIPTION[fixed-rotation]"]);
+        const rotationAngleTooltipTitle = translate("YY_TREE_CONTROLLER[rotation-angle]",locale["YY_TREE_CONTROLLER[rotation-angle]"]);
+        const rotationAngleTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[rotation-angle]",locale["YY_TREE_CONTROLLER_DESCRIPTION[rotation-angle]"]);
+        const rotationAngleUpTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[rotation-angle-up-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[rotation-angle-up-arrow]"]);
+        const rotationAngleDownTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[rotation-angle-down-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[rotation-angle-down-arrow]"]);
+        const rotationJitterTooltipTitle = translate("YY_TREE_CONTROLLER[rotation-jitter]",locale["YY_TREE_CONTROLLER[rotation-jitter]"]);
+        const rotationJitterTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[rotation-jitter]",locale["YY_TREE_CONTROLLER_DESCRIPTION[rotation-jitter]"]);
+        const rotationJitterUpTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[rotation-jitter-up-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[rotation-jitter-up-arrow]"]);
+        const rotationJitterDownTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[rotation-jitter-down-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[rotation-jitter-down-arrow]"]);
+        const brushDensityTooltipTitle = translate("YY_TREE_CONTROLLER[BrushDensity]",locale["YY_TREE_CONTROLLER[BrushDensity]"]);
+        const brushDensityTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[brush-density]",locale["YY_TREE_CONTROLLER_DESCRIPTION[brush-density]"]);
+        const brushDensityUpTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[brush-density-up-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[brush-density-up-arrow]"]);
+        const brushDensityDownTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[brush-density-down-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[brush-density-down-arrow]"]);
+        const brushSpacingTooltipTitle = translate("YY_TREE_CONTROLLER[BrushSpacing]",locale["YY_TREE_CONTROLLER[BrushSpacing]"]);
+        const brushSpacingTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[brush-spacing]",locale["YY_TREE_CONTROLLER_DESCRIPTION[brush-spacing]"]);
+        const brushSpacingUpTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[brush-spacing-up-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[brush-spacing-up-arrow]"]);
+        const brushSpacingDownTooltipDescription = translate("YY_TREE_CONTROLLER_DESCRIPTION[brush-spacing-down-arrow]",locale["YY_TREE_CONTROLLER_DESCRIPTION[brush-spacing-down-arrow]"]);
+        const brushOffLabel = translate("YY_TREE_CONTROLLER[brush-off]",locale["YY_TREE_CONTROLLER[brush-off]"]);
+        const perHectareLabel = translate("YY_TREE_CONTROLLER[per-hectare]",locale["YY_TREE_CONTROLLER[per-hectare]"]) ?? "";
+
+        // This gets the text showing the current key binding of an input action, or null if the action is unbound.
+        function GetShortcut(action: string, localeKey: "YY_TREE_CONTROLLER[shortcut]" | "YY_TREE_CONTROLLER[save-shortcut]" | "YY_TREE_CONTROLLER[add-picked-tree-shortcut]" = "YY_TREE_CONTROLLER[shortcut]") : string | null
+        {
+            const keyBinding = KeyBindings.find((keyBinding) => keyBinding.action == action)?.binding ?? "";
+            if (keyBinding == "") 
+            {
+                return null;
+            }
+
+            return (translate(localeKey, locale[localeKey]) ?? "").replace("{0}", keyBinding);
+        }
+
+        // This gets the text showing the key bindings to recall and save a custom set. Only the first nine custom sets have key bindings.
+        function GetCustomSetShortcut(number: number) : string | null
+        {
+            const shortcuts = [GetShortcut(recallSetAction + number), GetShortcut(saveSetAction + number, "YY_TREE_CONTROLLER[save-shortcut]")].filter((shortcut) => shortcut != null);
+            return shortcuts.length > 0 ? shortcuts.join(" ") : null;
+        }
+
+        // This appends the key binding of an input action to a plain tooltip.
+        function WithShortcut(tooltip: string | null, action: string) : string | null
+        {
+            const shortcut = GetShortcut(action);
+            return shortcut == null ? tooltip : (tooltip ?? "") + " " + shortcut;
+        }
 
         var result = Component();
         
-        if (((objectToolActive || treeControllerToolActive || lineToolActive) && IsVegetation) || (treeControllerToolActive && CurrentToolMode == ToolMode.ChangeAge) ) 
+        if (((objectToolActive || treeControllerToolActive || lineToolActive) && IsVegetation) || (treeControllerToolActive && (CurrentToolMode == ToolMode.ChangeAge || CurrentToolMode == ToolMode.FreezeGrowth || CurrentToolMode == ToolMode.ResumeGrowth)) ) 
         {
             result.props.children?.push
             (
@@ -260,48 +580,255 @@ export const TreeControllerComponent: ModuleRegistryExtend = (Component : any) =
                         <VanillaComponentResolver.instance.ToolButton  selected={PrefabSet == deciduousTreesID}     tooltip={descriptionTooltip(deciduousTooltipTitle,deciduousTooltipDescription)}         onSelect={() => changePrefabSet(deciduousTreesID)}    src={deciduousSrc}                                                focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
                         <VanillaComponentResolver.instance.ToolButton  selected={PrefabSet == evergreenTreesID}     tooltip={descriptionTooltip(evergreenTooltipTitle, evergreenTooltipDescription)}        onSelect={() => changePrefabSet(evergreenTreesID)}    src={evergreenSrc}                                                focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
                         <VanillaComponentResolver.instance.ToolButton  selected={PrefabSet == wildBushesID}         tooltip={descriptionTooltip(wildBushesTooltipTitle, wildBushesTooltipDescription)}      onSelect={() => changePrefabSet(wildBushesID)}        src={bushesSrc}                                                   focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={PrefabSet == customSetID+1}        tooltip={descriptionTooltip(customSet1TooltipTitle, customSet1TooltipDescription)}      onSelect={() => changePrefabSet(customSetID+1)}                             children={GenerateCustomSetNumber1()}       focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={PrefabSet == customSetID+2}        tooltip={descriptionTooltip(customSet2TooltipTitle, customSet2TooltipDescription)}      onSelect={() => changePrefabSet(customSetID+2)}                             children={GenerateCustomSetNumber2()}       focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={PrefabSet == customSetID+3}        tooltip={descriptionTooltip(customSet3TooltipTitle, customSet3TooltipDescription)}      onSelect={() => changePrefabSet(customSetID+3)}                             children={GenerateCustomSetNumber3()}       focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={PrefabSet == customSetID+4}        tooltip={descriptionTooltip(customSet4TooltipTitle, customSet4TooltipDescription)}      onSelect={() => changePrefabSet(customSetID+4)}                             children={GenerateCustomSetNumber4()}       focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={PrefabSet == customSetID+5}        tooltip={descriptionTooltip(customSet5TooltipTitle, customSet5TooltipDescription)}      onSelect={() => changePrefabSet(customSetID+5)}                             children={GenerateCustomSetNumber5()}       focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <>
+                        { RegisteredSets.map((registeredSet) => (
+                        <VanillaComponentResolver.instance.ToolButton  key={registeredSet.id}  selected={PrefabSet == registeredSet.id}  tooltip={descriptionTooltip(translate(registeredSet.name, registeredSet.name), translate(registeredSet.description, registeredSet.description))}  onSelect={() => changePrefabSet(registeredSet.id)}  src={registeredSet.icon != "" ? registeredSet.icon : brushSrc}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        ))}
+                        </>
+                        <>
+                        { CustomSets.map((customSet, index) => (
+                        <VanillaComponentResolver.instance.ToolButton  key={customSet.id}  selected={PrefabSet == customSet.id}  tooltip={descriptionTooltip(customSet.name, customSetTooltipDescription, GetCustomSetShortcut(index+1))}  onSelect={() => changePrefabSet(customSet.id)}  src={customSet.icon != "" ? customSet.icon : undefined}  children={customSet.icon == "" ? GenerateCustomSetNumber(index+1) : undefined}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        ))}
+                        </>
+                        <VanillaComponentResolver.instance.ToolButton  tooltip={descriptionTooltip(setManagerTooltipTitle, setManagerTooltipDescription)}   onSelect={() => handleClick(toggleSetManagerID)}      src={setManagerSrc}                                               focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  tooltip={descriptionTooltip(exportSetTooltipTitle, exportSetTooltipDescription)}     onSelect={() => handleClick(exportPrefabSetID)}       src={exportSetSrc}                                                focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { ((objectToolActive && CurrentToolMode == ToolMode.Brush) || (treeControllerToolActive && CurrentToolMode == ToolMode.ChangeType) || lineToolActive) && SetComposition.length > 1 && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[Composition]",locale["YY_TREE_CONTROLLER[Composition]"])}>
+                        <div className={styles.yyWeightList}>
+                            { SetComposition.map((prefabWeight) => (
+                            <div key={prefabWeight.name} className={styles.yyWeightRow}>
+                                <Tooltip tooltip={prefabWeightTooltipDescription}>
+                                    <img className={styles.yyWeightIcon} src={prefabWeight.thumbnail}></img>
+                                </Tooltip>
+                                <div className={styles.yyWeightName}>{translate("Assets.NAME[" + prefabWeight.name + "]", prefabWeight.name)}</div>
+                                <VanillaComponentResolver.instance.Slider  value={prefabWeight.weight}  start={0}  end={100}  step={1}  onChange={(value) => changePrefabWeight(prefabWeight.name, value)}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={styles.yyWeightSlider}></VanillaComponentResolver.instance.Slider>
+                                <div className={styles.yyWeightPercent}>{GetPrefabPercentage(prefabWeight.weight) + "%"}</div>
+                            </div>
+                            ))}
+                        </div>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { objectToolActive && CurrentToolMode == ToolMode.Brush && (
+                    <VanillaComponentResolver.instance.Section title={brushDensityTooltipTitle}>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={brushDensityDownTooltipDescription} onSelect={() => changeBrushDensity(BrushDensity - brushDensityStep)} src={arrowDownSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.startButton}></VanillaComponentResolver.instance.ToolButton>
+                        <Tooltip tooltip={descriptionTooltip(brushDensityTooltipTitle, brushDensityTooltipDescription)}>
+                            <div className={VanillaComponentResolver.instance.mouseToolOptionsTheme.numberField}>{ BrushDensity > 0 ? perHectareLabel.replace("{0}", BrushDensity.toString()) : brushOffLabel }</div>
+                        </Tooltip>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={brushDensityUpTooltipDescription} onSelect={() => changeBrushDensity(BrushDensity + brushDensityStep)} src={arrowUpSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.endButton}></VanillaComponentResolver.instance.ToolButton>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { objectToolActive && CurrentToolMode == ToolMode.Brush && (
+                    <VanillaComponentResolver.instance.Section title={brushSpacingTooltipTitle}>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={brushSpacingDownTooltipDescription} onSelect={() => changeBrushSpacing(BrushSpacing - brushSpacingStep)} src={arrowDownSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.startButton}></VanillaComponentResolver.instance.ToolButton>
+                        <Tooltip tooltip={descriptionTooltip(brushSpacingTooltipTitle, brushSpacingTooltipDescription)}>
+                            <div className={VanillaComponentResolver.instance.mouseToolOptionsTheme.numberField}>{ BrushSpacing > 0 ? BrushSpacing + " m" : brushOffLabel }</div>
+                        </Tooltip>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={brushSpacingUpTooltipDescription} onSelect={() => changeBrushSpacing(BrushSpacing + brushSpacingStep)} src={arrowUpSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.endButton}></VanillaComponentResolver.instance.ToolButton>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { (objectToolActive || lineToolActive) && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[Rotation]",locale["YY_TREE_CONTROLLER[Rotation]"])}>
+                        <VanillaComponentResolver.instance.ToolButton  selected={RandomRotation}  tooltip={descriptionTooltip(randomRotationTooltipTitle, randomRotationTooltipDescription)}  onSelect={() => handleClick(toggleRandomRotationID)}  src={randomRotationSrc}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={FixedRotation}   tooltip={descriptionTooltip(fixedRotationTooltipTitle, fixedRotationTooltipDescription)}    onSelect={() => handleClick(toggleFixedRotationID)}   src={fixedRotationSrc}   focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { (objectToolActive || lineToolActive) && FixedRotation && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[rotation-angle]",locale["YY_TREE_CONTROLLER[rotation-angle]"])}>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={rotationAngleDownTooltipDescription} onSelect={() => changeRotationAngle(RotationAngle - rotationAngleStep)} src={arrowDownSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.startButton}></VanillaComponentResolver.instance.ToolButton>
+                        <Tooltip tooltip={descriptionTooltip(rotationAngleTooltipTitle, rotationAngleTooltipDescription)}>
+                            <input
+                                key={RotationAngle}
+                                className={VanillaComponentResolver.instance.mouseToolOptionsTheme.numberField + " " + styles.yyRotationInput}
+                                type="text"
+                                defaultValue={RotationAngle + "°"}
+                                onFocus={(e) => e.target.value = RotationAngle.toString()}
+                                onBlur={(e) => { const angle = parseInt(e.target.value); if (isNaN(angle)) { e.target.value = RotationAngle + "°"; } else { changeRotationAngle(angle); } }}
+                                onKeyDown={(e) => { if (e.key == "Enter") { e.currentTarget.blur(); } }}
+                            />
+                        </Tooltip>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={rotationAngleUpTooltipDescription} onSelect={() => changeRotationAngle(RotationAngle + rotationAngleStep)} src={arrowUpSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.endButton}></VanillaComponentResolver.instance.ToolButton>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { (objectToolActive || lineToolActive) && FixedRotation && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[rotation-jitter]",locale["YY_TREE_CONTROLLER[rotation-jitter]"])}>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={rotationJitterDownTooltipDescription} onSelect={() => changeRotationJitter(RotationJitter - rotationJitterStep)} src={arrowDownSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.startButton}></VanillaComponentResolver.instance.ToolButton>
+                        <Tooltip tooltip={descriptionTooltip(rotationJitterTooltipTitle, rotationJitterTooltipDescription)}>
+                            <div className={VanillaComponentResolver.instance.mouseToolOptionsTheme.numberField}>{ "±" + RotationJitter + "°"}</div>
+                        </Tooltip>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={rotationJitterUpTooltipDescription} onSelect={() => changeRotationJitter(RotationJitter + rotationJitterStep)} src={arrowUpSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.endButton}></VanillaComponentResolver.instance.ToolButton>
                     </VanillaComponentResolver.instance.Section>
                     )}
                     { (IsTree || (treeControllerToolActive && CurrentToolMode == ToolMode.ChangeAge)) && (
                     <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[Age]",locale["YY_TREE_CONTROLLER[Age]"])}>
                         <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.All) == Ages.All}         tooltip={descriptionTooltip(clearAgeTooltipTitle, clearAgeTooltipDescription)}      onSelect={() => changeSelectedAge(Ages.All)}        src={clearAgesSrc}       focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Child) == Ages.Child}     tooltip={descriptionTooltip(childTooltipTitle, childTooltipDescription)}            onSelect={() => changeSelectedAge(Ages.Child)}      src={childSrc}           focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Teen) == Ages.Teen}       tooltip={descriptionTooltip(teenTooltipTitle, teenTooltipDescription)}              onSelect={() => changeSelectedAge(Ages.Teen)}       src={teenSrc}            focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Adult) == Ages.Adult}     tooltip={descriptionTooltip(adultTooltipTitle, adultTooltipDescription)}            onSelect={() => changeSelectedAge(Ages.Adult)}      src={adultSrc}           focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Elderly) == Ages.Elderly} tooltip={descriptionTooltip(elderlyTooltipTitle, elderlyTooltipDescription)}        onSelect={() => changeSelectedAge(Ages.Elderly)}    src={elderlySrc}         focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Dead) == Ages.Dead}       tooltip={descriptionTooltip(deadTooltipTitle, deadTooltipDescription)}              onSelect={() => changeSelectedAge(Ages.Dead)}       src={deadSrc}            focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Child) == Ages.Child}     tooltip={descriptionTooltip(childTooltipTitle, childTooltipDescription, GetShortcut(toggleChildAgeAction))}            onSelect={() => changeSelectedAge(Ages.Child)}      src={childSrc}           focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Teen) == Ages.Teen}       tooltip={descriptionTooltip(teenTooltipTitle, teenTooltipDescription, GetShortcut(toggleTeenAgeAction))}              onSelect={() => changeSelectedAge(Ages.Teen)}       src={teenSrc}            focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Adult) == Ages.Adult}     tooltip={descriptionTooltip(adultTooltipTitle, adultTooltipDescription, GetShortcut(toggleAdultAgeAction))}            onSelect={() => changeSelectedAge(Ages.Adult)}      src={adultSrc}           focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Elderly) == Ages.Elderly} tooltip={descriptionTooltip(elderlyTooltipTitle, elderlyTooltipDescription, GetShortcut(toggleElderlyAgeAction))}        onSelect={() => changeSelectedAge(Ages.Elderly)}    src={elderlySrc}         focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={(SelectedAges & Ages.Dead) == Ages.Dead}       tooltip={descriptionTooltip(deadTooltipTitle, deadTooltipDescription, GetShortcut(toggleDeadAgeAction))}              onSelect={() => changeSelectedAge(Ages.Dead)}       src={deadSrc}            focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { (IsTree || (treeControllerToolActive && CurrentToolMode == ToolMode.ChangeAge)) && selectedWeightedAges.length > 1 && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[AgeDistribution]",locale["YY_TREE_CONTROLLER[AgeDistribution]"])}>
+                        <div className={styles.yyWeightList}>
+                            { selectedWeightedAges.map((weightedAge) => (
+                            <div key={weightedAge.age} className={styles.yyWeightRow}>
+                                <Tooltip tooltip={ageWeightTooltipDescription}>
+                                    <img className={styles.yyWeightIcon} src={weightedAge.src}></img>
+                                </Tooltip>
+                                <VanillaComponentResolver.instance.Slider  value={AgeWeights[weightedAges.indexOf(weightedAge)] ?? 0}  start={0}  end={100}  step={1}  onChange={(value) => changeAgeWeight(weightedAge.age, value)}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}  className={styles.yyWeightSlider}></VanillaComponentResolver.instance.Slider>
+                                <div className={styles.yyWeightPercent}>{GetAgePercentage(weightedAges.indexOf(weightedAge)) + "%"}</div>
+                            </div>
+                            ))}
+                            <div className={styles.yyAgePresets}>
+                                { agePresets.map((agePreset) => (
+                                <Button key={agePreset.preset} variant="flat" className={styles.yyAgePresetButton} onSelect={() => applyAgePreset(agePreset.preset)} tooltipLabel={descriptionTooltip(agePreset.title, agePreset.description)}>
+                                    {agePreset.title}
+                                </Button>
+                                ))}
+                            </div>
+                        </div>
                     </VanillaComponentResolver.instance.Section>
                     )}
                     { treeControllerToolActive && (
                     <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[Selection]",locale["YY_TREE_CONTROLLER[Selection]"])}>
-                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.Single}         tooltip={descriptionTooltip(singleTreeTooltipTitle, singleTreeTooltipDescription)}          onSelect={() => changeSelectionMode(Selection.Single)}             src={adultSrc}            focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.BuildingOrNet}  tooltip={descriptionTooltip(buildingOrNetTooltipTitle, buildingOrNetTooltipDescription)}    onSelect={() => changeSelectionMode(Selection.BuildingOrNet)}      src={buildingOrNetSrc}    focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.Radius}         tooltip={descriptionTooltip(radiusTooltipTitle, radiusTooltipDescription)}                  onSelect={() => changeSelectionMode(Selection.Radius)}             src={radiusSrc}           focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.Map}            tooltip={descriptionTooltip(wholeMapTooltipTitle, wholeMapTooltipDescription)}              onSelect={() => changeSelectionMode(Selection.Map)}                src={wholeMapSrc}         focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.Single}         tooltip={descriptionTooltip(singleTreeTooltipTitle, singleTreeTooltipDescription, GetShortcut(cycleSelectionModeAction))}          onSelect={() => changeSelectionMode(Selection.Single)}             src={adultSrc}            focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.BuildingOrNet}  tooltip={descriptionTooltip(buildingOrNetTooltipTitle, buildingOrNetTooltipDescription, GetShortcut(cycleSelectionModeAction))}    onSelect={() => changeSelectionMode(Selection.BuildingOrNet)}      src={buildingOrNetSrc}    focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.Radius}         tooltip={descriptionTooltip(radiusTooltipTitle, radiusTooltipDescription, GetShortcut(cycleSelectionModeAction))}                  onSelect={() => changeSelectionMode(Selection.Radius)}             src={radiusSrc}           focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.Map}            tooltip={descriptionTooltip(wholeMapTooltipTitle, wholeMapTooltipDescription, GetShortcut(cycleSelectionModeAction))}              onSelect={() => changeSelectionMode(Selection.Map)}                src={wholeMapSrc}         focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.Rectangle}      tooltip={descriptionTooltip(rectangleTooltipTitle, rectangleTooltipDescription, GetShortcut(cycleSelectionModeAction))}            onSelect={() => changeSelectionMode(Selection.Rectangle)}          src={rectangleSrc}        focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.Lasso}          tooltip={descriptionTooltip(lassoTooltipTitle, lassoTooltipDescription, GetShortcut(cycleSelectionModeAction))}                    onSelect={() => changeSelectionMode(Selection.Lasso)}              src={lassoSrc}            focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton  selected={SelectionMode == Selection.District}       tooltip={descriptionTooltip(districtTooltipTitle, districtTooltipDescription, GetShortcut(cycleSelectionModeAction))}              onSelect={() => changeSelectionMode(Selection.District)}           src={districtSrc}         focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
                     </VanillaComponentResolver.instance.Section>
                     )}
                     { treeControllerToolActive && SelectionMode == Selection.Radius && (
                     <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[Radius]",locale["YY_TREE_CONTROLLER[Radius]"])}>
-                        <VanillaComponentResolver.instance.ToolButton tooltip={radiusDownTooltipDescription} onSelect={() => handleClick(radiusDownID)} src={arrowDownSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.startButton}></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={WithShortcut(radiusDownTooltipDescription, decreaseRadiusAction)} onSelect={() => handleClick(radiusDownID)} src={arrowDownSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.startButton}></VanillaComponentResolver.instance.ToolButton>
                         <div className={VanillaComponentResolver.instance.mouseToolOptionsTheme.numberField}>{ Radius + " m"}</div>
-                        <VanillaComponentResolver.instance.ToolButton tooltip={radiusUpTooltipDescription} onSelect={() => handleClick(radiusUpID)} src={arrowUpSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.endButton} ></VanillaComponentResolver.instance.ToolButton>
+                        <VanillaComponentResolver.instance.ToolButton tooltip={WithShortcut(radiusUpTooltipDescription, increaseRadiusAction)} onSelect={() => handleClick(radiusUpID)} src={arrowUpSrc} focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED} className={VanillaComponentResolver.instance.mouseToolOptionsTheme.endButton} ></VanillaComponentResolver.instance.ToolButton>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { treeControllerToolActive && CurrentToolMode != ToolMode.Plop && CurrentToolMode != ToolMode.Brush && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[Filter]",locale["YY_TREE_CONTROLLER[Filter]"])}>
+                        <div className={styles.yyWeightList}>
+                            <div className={styles.yyWeightRow}>
+                                <VanillaComponentResolver.instance.ToolButton  selected={(OwnerFilter & TreeOwners.FreeStanding) == TreeOwners.FreeStanding}  tooltip={descriptionTooltip(freeStandingTooltipTitle, freeStandingTooltipDescription)}     onSelect={() => toggleOwnerFilter(TreeOwners.FreeStanding)}  src={freeStandingSrc}   focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                                <VanillaComponentResolver.instance.ToolButton  selected={(OwnerFilter & TreeOwners.Building) == TreeOwners.Building}          tooltip={descriptionTooltip(buildingOwnedTooltipTitle, buildingOwnedTooltipDescription)}   onSelect={() => toggleOwnerFilter(TreeOwners.Building)}      src={buildingOwnedSrc}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                                <VanillaComponentResolver.instance.ToolButton  selected={(OwnerFilter & TreeOwners.Network) == TreeOwners.Network}            tooltip={descriptionTooltip(networkOwnedTooltipTitle, networkOwnedTooltipDescription)}     onSelect={() => toggleOwnerFilter(TreeOwners.Network)}       src={networkOwnedSrc}   focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            </div>
+                            { SourcePrefabs.length == 0 && (
+                            <div className={styles.yyHistoryEmpty}>{translate("YY_TREE_CONTROLLER[all-source-prefabs]",locale["YY_TREE_CONTROLLER[all-source-prefabs]"])}</div>
+                            )}
+                            { SourcePrefabs.map((prefabName) => (
+                            <div key={prefabName} className={styles.yyWeightRow}>
+                                <div className={styles.yyWeightName}>{translate("Assets.NAME[" + prefabName + "]", prefabName)}</div>
+                            </div>
+                            ))}
+                            <div className={styles.yyAgePresets}>
+                                <Button variant="flat" className={styles.yyAgePresetButton} disabled={CurrentToolMode != ToolMode.ChangeType || SetComposition.length == 0} onSelect={() => handleClick(useSelectionAsSourceID)} tooltipLabel={descriptionTooltip(useSelectionAsSourceTooltipTitle, useSelectionAsSourceTooltipDescription)}>
+                                    {useSelectionAsSourceTooltipTitle}
+                                </Button>
+                                <Button variant="flat" className={styles.yyAgePresetButton} disabled={SourcePrefabs.length == 0} onSelect={() => handleClick(clearSourcePrefabsID)} tooltipLabel={descriptionTooltip(clearSourcePrefabsTooltipTitle, clearSourcePrefabsTooltipDescription)}>
+                                    {clearSourcePrefabsTooltipTitle}
+                                </Button>
+                            </div>
+                        </div>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { treeControllerToolActive && CurrentToolMode != ToolMode.Plop && CurrentToolMode != ToolMode.Brush && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[AffectedTrees]",locale["YY_TREE_CONTROLLER[AffectedTrees]"])}>
+                        <div className={styles.yyWeightList}>
+                            <Tooltip tooltip={descriptionTooltip(affectedTotalTooltipTitle, affectedTotalTooltipDescription)}>
+                                <div className={styles.yyWeightRow}>
+                                    <div className={styles.yyWeightName}>{affectedTotalTooltipTitle}</div>
+                                    <div className={styles.yyWeightPercent}>{PreviewCount}</div>
+                                </div>
+                            </Tooltip>
+                            { PreviewCount > 0 && (
+                            <div className={styles.yyPreviewAges}>
+                                { weightedAges.filter((weightedAge, index) => (PreviewAgeCounts[index] ?? 0) > 0).map((weightedAge) => (
+                                <div key={weightedAge.age} className={styles.yyPreviewAge}>
+                                    <img className={styles.yyWeightIcon} src={weightedAge.src}></img>
+                                    <div>{PreviewAgeCounts[weightedAges.indexOf(weightedAge)]}</div>
+                                </div>
+                                ))}
+                            </div>
+                            )}
+                            { PreviewPrefabCounts.slice(0, maxPreviewPrefabs).map((prefabCount) => (
+                            <div key={prefabCount.name} className={styles.yyWeightRow}>
+                                <div className={styles.yyWeightName}>{translate("Assets.NAME[" + prefabCount.name + "]", prefabCount.name)}</div>
+                                <div className={styles.yyWeightPercent}>{prefabCount.count}</div>
+                            </div>
+                            ))}
+                            { PreviewPrefabCounts.length > maxPreviewPrefabs && (
+                            <div className={styles.yyHistoryEmpty}>{"+" + (PreviewPrefabCounts.length - maxPreviewPrefabs) + " " + affectedMoreTypesLabel}</div>
+                            )}
+                        </div>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { treeControllerToolActive && (CurrentToolMode == ToolMode.ChangeAge || CurrentToolMode == ToolMode.ChangeType) && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[History]",locale["YY_TREE_CONTROLLER[History]"])}>
+                        <div className={styles.yyWeightList}>
+                            { History.length == 0 && (
+                            <div className={styles.yyHistoryEmpty}>{translate("YY_TREE_CONTROLLER[no-history]",locale["YY_TREE_CONTROLLER[no-history]"])}</div>
+                            )}
+                            { History.map((batch, index) => (
+                            <div key={index} className={batch.undone ? styles.yyWeightRow + " " + styles.yyHistoryUndone : styles.yyWeightRow}>
+                                <img className={styles.yyWeightIcon} src={batch.toolMode == ToolMode.ChangeType ? prefabChangeSrc : ageChangSrc}></img>
+                                <img className={styles.yyWeightIcon} src={selectionSrcs[batch.selection]}></img>
+                                <div className={styles.yyWeightName}>{batch.trees + " " + historyTreesLabel}</div>
+                            </div>
+                            ))}
+                            <div className={styles.yyAgePresets}>
+                                <Button variant="flat" className={styles.yyAgePresetButton} disabled={!History.some((batch) => !batch.undone)} onSelect={() => handleClick(undoTreeChangesID)} tooltipLabel={descriptionTooltip(undoTooltipTitle, undoTooltipDescription, GetShortcut(undoAction))}>
+                                    {undoTooltipTitle}
+                                </Button>
+                                <Button variant="flat" className={styles.yyAgePresetButton} disabled={!History.some((batch) => batch.undone)} onSelect={() => handleClick(redoTreeChangesID)} tooltipLabel={descriptionTooltip(redoTooltipTitle, redoTooltipDescription, GetShortcut(redoAction))}>
+                                    {redoTooltipTitle}
+                                </Button>
+                            </div>
+                        </div>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { treeControllerToolActive && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[overlay]",locale["YY_TREE_CONTROLLER[overlay]"])}>
+                            <VanillaComponentResolver.instance.ToolButton  selected={Overlay == TreeOverlay.Age}        tooltip={descriptionTooltip(ageOverlayTooltipTitle, ageOverlayTooltipDescription)}              onSelect={() => changeOverlay(TreeOverlay.Age)}         src={elderlySrc}       focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            <VanillaComponentResolver.instance.ToolButton  selected={Overlay == TreeOverlay.PrefabSet}  tooltip={descriptionTooltip(prefabSetOverlayTooltipTitle, prefabSetOverlayTooltipDescription)}  onSelect={() => changeOverlay(TreeOverlay.PrefabSet)}   src={deciduousSrc}     focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            <VanillaComponentResolver.instance.ToolButton  selected={Overlay == TreeOverlay.Growth}     tooltip={descriptionTooltip(growthOverlayTooltipTitle, growthOverlayTooltipDescription)}        onSelect={() => changeOverlay(TreeOverlay.Growth)}      src={freezeGrowthSrc}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { treeControllerToolActive && Overlay != TreeOverlay.None && (
+                    <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[legend]",locale["YY_TREE_CONTROLLER[legend]"])}>
+                        <div className={styles.yyWeightList}>
+                            { overlayLegends[Overlay].map((label, index) => (
+                            <div key={index} className={styles.yyWeightRow}>
+                                <div className={styles.yyOverlaySwatch} style={{ backgroundColor: overlayColors[Overlay][index] }}></div>
+                                <div className={styles.yyWeightName}>{label}</div>
+                            </div>
+                            ))}
+                        </div>
+                    </VanillaComponentResolver.instance.Section>
+                    )}
+                    { treeControllerToolActive && (
+                    <VanillaComponentResolver.instance.Section title={eyedropperTooltipTitle}>
+                            <VanillaComponentResolver.instance.ToolButton  selected={Eyedropper}                                tooltip={descriptionTooltip(eyedropperTooltipTitle, eyedropperTooltipDescription, GetShortcut(addPickedTreeAction, "YY_TREE_CONTROLLER[add-picked-tree-shortcut]"))}      onSelect={() => handleClick(toggleEyedropperID)}        src={eyedropperSrc}    focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
                     </VanillaComponentResolver.instance.Section>
                     )}
                     { (treeControllerToolActive || objectToolActive) && (
                     <VanillaComponentResolver.instance.Section title={translate("YY_TREE_CONTROLLER[change]",locale["YY_TREE_CONTROLLER[change]"])}>
-                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.ChangeAge}     tooltip={descriptionTooltip(changeAgeTooltipTitle, changeAgeTooltipDescription)}        onSelect={() => changeToolMode(ToolMode.ChangeAge)}     src={ageChangSrc}      focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.ChangeType}    tooltip={descriptionTooltip(changePrefabTooltipTitle, changePrefabTooltipDescription)}  onSelect={() => changeToolMode(ToolMode.ChangeType)}    src={prefabChangeSrc}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.ChangeAge}     tooltip={descriptionTooltip(changeAgeTooltipTitle, changeAgeTooltipDescription, GetShortcut(cycleToolModeAction))}        onSelect={() => changeToolMode(ToolMode.ChangeAge)}     src={ageChangSrc}      focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.ChangeType}    tooltip={descriptionTooltip(changePrefabTooltipTitle, changePrefabTooltipDescription, GetShortcut(cycleToolModeAction))}  onSelect={() => changeToolMode(ToolMode.ChangeType)}    src={prefabChangeSrc}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.FreezeGrowth}  tooltip={descriptionTooltip(freezeGrowthTooltipTitle, freezeGrowthTooltipDescription, GetShortcut(cycleToolModeAction))} onSelect={() => changeToolMode(ToolMode.FreezeGrowth)}  src={freezeGrowthSrc}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.ResumeGrowth}  tooltip={descriptionTooltip(resumeGrowthTooltipTitle, resumeGrowthTooltipDescription, GetShortcut(cycleToolModeAction))} onSelect={() => changeToolMode(ToolMode.ResumeGrowth)}  src={resumeGrowthSrc}  focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            <VanillaComponentResolver.instance.ToolButton  selected={ShowCensus}                                tooltip={descriptionTooltip(censusTooltipTitle, censusTooltipDescription)}              onSelect={() => handleClick(toggleCensusID)}            src={censusSrc}        focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
                     </VanillaComponentResolver.instance.Section>
                     )}
                     { treeControllerToolActive && (
                     <VanillaComponentResolver.instance.Section title={translate("Toolbar.TOOL_MODE_TITLE", "Tool Mode")}>
-                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.Plop}    tooltip={descriptionTooltip(createTooltipTitle, createTooltipDescription)}        onSelect={() => changeToolMode(ToolMode.Plop)}     src={adultSrc}      focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
-                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.Brush}    tooltip={descriptionTooltip(brushTooltipTitle, brushTooltipDescription)}         onSelect={() => changeToolMode(ToolMode.Brush)}    src={brushSrc}      focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.Plop}    tooltip={descriptionTooltip(createTooltipTitle, createTooltipDescription, GetShortcut(cycleToolModeAction))}        onSelect={() => changeToolMode(ToolMode.Plop)}     src={adultSrc}      focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
+                            <VanillaComponentResolver.instance.ToolButton  selected={CurrentToolMode == ToolMode.Brush}    tooltip={descriptionTooltip(brushTooltipTitle, brushTooltipDescription, GetShortcut(cycleToolModeAction))}         onSelect={() => changeToolMode(ToolMode.Brush)}    src={brushSrc}      focusKey={VanillaComponentResolver.instance.FOCUS_DISABLED}     className={VanillaComponentResolver.instance.toolButtonTheme.button}></VanillaComponentResolver.instance.ToolButton>
                     </VanillaComponentResolver.instance.Section>                
                     )}
                 </>
@@ -49,6 +49,45 @@ type PropsColorField = {
     onMouseLeave?: (e: any) => void;
 }
 
+type PropsSlider = {
+    focusKey?: FocusKey;
+    disabled?: boolean;
+    value: number;
+    start: number;
+    end: number;
+    step?: number;
+    gamepadStep?: number;
+    className?: string;
+    theme?: any;
+    noFill?: boolean;
+    valueTransformer?: (value: number) => number;
+    onChange?: (value: number) => void;
+    onDragStart?: () => void;
+    onDragEnd?: () => void;
+    onMouseOver?: (e: any) => void;
+    onMouseLeave?: (e: any) => void;
+}
+
+type PropsInfoSection = {
+    focusKey?: UniqueFocusKey | null
+    tooltip?: ReactNode | null
+    disableFocus?: boolean
+    className?: string
+    children: ReactNode
+}
+
+type PropsInfoRow = {
+    icon?: string
+    left?: ReactNode
+    right?: ReactNode
+    tooltip?: ReactNode | null
+    link?: ReactNode
+    uppercase?: boolean
+    subRow?: boolean
+    disableFocus?: boolean
+    className?: string
+}
+
 // This is an array of the different components and sass themes that are appropriate for your UI. You need to figure out which ones you need from the registry.
 const registryIndex = {
     Section: ["game-ui/game/components/tool-options/mouse-tool-options/mouse-tool-options.tsx", "Section"],
@@ -61,6 +100,10 @@ const registryIndex = {
     assetGridTheme: ["game-ui/game/components/asset-menu/asset-grid/asset-grid.module.scss", "classes"],  
     descriptionTooltipTheme: ["game-ui/common/tooltip/description-tooltip/description-tooltip.module.scss", "classes"],
     ColorField: ["game-ui/common/input/color-picker/color-field/color-field.tsx", 'ColorField'],
+    Slider: ["game-ui/common/input/slider/slider.tsx", "Slider"],
+    InfoSection: ["game-ui/game/components/selected-info-panel/shared-components/info-section/info-section.tsx", "InfoSection"],
+    InfoRow: ["game-ui/game/components/selected-info-panel/shared-components/info-row/info-row.tsx", "InfoRow"],
+    infoRowTheme: ["game-ui/game/components/selected-info-panel/shared-components/info-row/info-row.module.scss", "classes"],
 }
 
 export class VanillaComponentResolver {
@@ -87,11 +130,15 @@ export class VanillaComponentResolver {
     public get Section(): (props: PropsSection) => JSX.Element { return this.cachedData["Section"] ?? this.updateCache("Section") }
     public get ToolButton(): (props: PropsToolButton) => JSX.Element { return this.cachedData["ToolButton"] ?? this.updateCache("ToolButton") }
     public get ColorField(): (props: PropsColorField) => JSX.Element { return this.cachedData["ColorField"] ?? this.updateCache("ColorField") }
+    public get Slider(): (props: PropsSlider) => JSX.Element { return this.cachedData["Slider"] ?? this.updateCache("Slider") }
+    public get InfoSection(): (props: PropsInfoSection) => JSX.Element { return this.cachedData["InfoSection"] ?? this.updateCache("InfoSection") }
+    public get InfoRow(): (props: PropsInfoRow) => JSX.Element { return this.cachedData["InfoRow"] ?? this.updateCache("InfoRow") }
 
     public get toolButtonTheme(): Theme | any { return this.cachedData["toolButtonTheme"] ?? this.updateCache("toolButtonTheme") }
     public get mouseToolOptionsTheme(): Theme | any { return this.cachedData["mouseToolOptionsTheme"] ?? this.updateCache("mouseToolOptionsTheme") }
     public get assetGridTheme(): Theme | any { return this.cachedData["assetGridTheme"] ?? this.updateCache("assetGridTheme") }
     public get descriptionTooltipTheme(): Theme | any { return this.cachedData["descriptionTooltipTheme"] ?? this.updateCache("descriptionTooltipTheme") }
+    public get infoRowTheme(): Theme | any { return this.cachedData["infoRowTheme"] ?? this.updateCache("infoRowTheme") }
 
 
     public get FOCUS_DISABLED(): UniqueFocusKey { return this.cachedData["FOCUS_DISABLED"] ?? this.updateCache("FOCUS_DISABLED") }
@@ -0,0 +1,34 @@
+import { bindValue, trigger, useValue } from "cs2/api";
+import { useLocalization } from "cs2/l10n";
+import { ConfirmationDialog } from "cs2/ui";
+import mod from "../../../mod.json";
+import locale from "../lang/en-US.json";
+
+// This establishes the binding with C# side. It is the number of trees a whole map change would affect or 0 when there is nothing to confirm.
+const WholeMapConfirmation$ = bindValue<number>(mod.id, 'WholeMapConfirmation');
+
+// This is a dialog asking to confirm a whole map change above the threshold in the mod settings.
+export const WholeMapConfirmationComponent = () =>
+{
+    const WholeMapConfirmation = useValue(WholeMapConfirmation$);
+
+    const { translate } = useLocalization();
+
+    if (WholeMapConfirmation <= 0)
+    {
+        return null;
+    }
+
+    const message = (translate("YY_TREE_CONTROLLER_DESCRIPTION[whole-map-confirmation]",locale["YY_TREE_CONTROLLER_DESCRIPTION[whole-map-confirmation]"]) ?? "").replace("{0}", WholeMapConfirmation.toString());
+
+    return (
+        <ConfirmationDialog
+            title={translate("YY_TREE_CONTROLLER[whole-map-confirmation]",locale["YY_TREE_CONTROLLER[whole-map-confirmation]"])}
+            message={message}
+            confirm={translate("YY_TREE_CONTROLLER[whole-map-confirm]",locale["YY_TREE_CONTROLLER[whole-map-confirm]"])}
+            cancel={translate("YY_TREE_CONTROLLER[whole-map-cancel]",locale["YY_TREE_CONTROLLER[whole-map-cancel]"])}
+            onConfirm={() => trigger(mod.id, "ConfirmWholeMapApply")}
+            onCancel={() => trigger(mod.id, "CancelWholeMapApply")}
+        />
+    );
+}
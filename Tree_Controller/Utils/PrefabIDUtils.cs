@@ -0,0 +1,59 @@
+﻿// <copyright file="PrefabIDUtils.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Utils
+{
+    using Game.Prefabs;
+
+    /// <summary>
+    /// Utility methods for reading and writing prefab IDs as type:name.
+    /// </summary>
+    public static class PrefabIDUtils
+    {
+        /// <summary>
+        /// The prefab type used for prefab IDs written without a type.
+        /// </summary>
+        public const string DefaultPrefabType = "StaticObjectPrefab";
+
+        private const char TypeSeparator = ':';
+
+        /// <summary>
+        /// Writes a prefab ID as type:name, or as only the name for a StaticObjectPrefab so it matches prefab IDs stored before types were kept.
+        /// </summary>
+        /// <param name="prefabID">The prefab ID.</param>
+        /// <returns>The prefab ID written as type:name or name.</returns>
+        public static string ToText(PrefabID prefabID)
+        {
+            string text = prefabID.ToString();
+            return text.StartsWith(DefaultPrefabType + TypeSeparator) ? prefabID.GetName() : text;
+        }
+
+        /// <summary>
+        /// Tries to read a prefab ID written as type:name or as a name of a StaticObjectPrefab.
+        /// </summary>
+        /// <param name="text">The prefab ID written as type:name or name.</param>
+        /// <param name="prefabID">The prefab ID.</param>
+        /// <returns>True if the text was not empty.</returns>
+        public static bool TryParse(string text, out PrefabID prefabID)
+        {
+            prefabID = default;
+            if (string.IsNullOrWhiteSpace(text))
+            {
+                return false;
+            }
+
+            int separator = text.IndexOf(TypeSeparator);
+            if (separator < 0)
+            {
+                prefabID = new PrefabID(DefaultPrefabType, text);
+            }
+            else
+            {
+                prefabID = new PrefabID(text.Substring(0, separator), text.Substring(separator + 1));
+            }
+
+            return true;
+        }
+    }
+}
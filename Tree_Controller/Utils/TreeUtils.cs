@@ -0,0 +1,199 @@
+﻿// <copyright file="TreeUtils.cs" company="Yenyangs Mods. MIT License">
+// Copyright (c) Yenyangs Mods. MIT License. All rights reserved.
+// </copyright>
+
+namespace Tree_Controller.Utils
+{
+    using Game.Objects;
+    using Tree_Controller.Tools;
+    using Unity.Collections;
+    using Unity.Entities;
+    using Unity.Mathematics;
+
+    /// <summary>
+    /// Utility methods for classifying and picking ages and prefabs of trees, changing their growth, and checking selection areas. These are static and Burst compatible so jobs and systems can share them.
+    /// </summary>
+    public static class TreeUtils
+    {
+        /// <summary>
+        /// Gets the index of the age of a tree state from child to dead. Stumps count as dead.
+        /// </summary>
+        /// <param name="state">The state of the tree.</param>
+        /// <returns>0 for child, 1 for teen, 2 for adult, 3 for elderly, or 4 for dead.</returns>
+        public static int GetAgeIndex(TreeState state)
+        {
+            if ((state & (TreeState.Dead | TreeState.Stump)) != 0)
+            {
+                return 4;
+            }
+            else if ((state & TreeState.Elderly) != 0)
+            {
+                return 3;
+            }
+            else if ((state & TreeState.Adult) != 0)
+            {
+                return 2;
+            }
+            else if ((state & TreeState.Teen) != 0)
+            {
+                return 1;
+            }
+
+            return 0;
+        }
+
+        /// <summary>
+        /// Gets the age in the Age section that matches a tree state.
+        /// </summary>
+        /// <param name="state">The state of the tree.</param>
+        /// <returns>A single age from the Ages enum.</returns>
+        public static Ages GetAge(TreeState state)
+        {
+            return (Ages)(1 << GetAgeIndex(state));
+        }
+
+        /// <summary>
+        /// Gets a weighted random index. Negative weights count as 0 and if every weight is 0 the indices are treated equally.
+        /// </summary>
+        /// <param name="random">A source of randomness.</param>
+        /// <param name="weights">Weights aligned with the indices.</param>
+        /// <param name="count">The number of indices to pick from. Must be greater than 0.</param>
+        /// <returns>An index from 0 to count - 1.</returns>
+        public static int GetWeightedIndex(ref Random random, NativeList<float> weights, int count)
+        {
+            float totalWeight = 0f;
+            for (int i = 0; i < weights.Length; i++)
+            {
+                totalWeight += math.max(0f, weights[i]);
+            }
+
+            if (totalWeight <= 0f || weights.Length != count)
+            {
+                return random.NextInt(count);
+            }
+
+            float randomWeight = random.NextFloat(totalWeight);
+            for (int i = 0; i < count; i++)
+            {
+                randomWeight -= math.max(0f, weights[i]);
+                if (randomWeight < 0f)
+                {
+                    return i;
+                }
+            }
+
+            return count - 1;
+        }
+
+        /// <summary>
+        /// Gets a weighted random tree state from the selected ages.
+        /// </summary>
+        /// <param name="random">A source of randomness.</param>
+        /// <param name="ages">Selected ages.</param>
+        /// <param name="weights">Weights of selected ages.</param>
+        /// <param name="fallback">Tree state used if no ages are selected.</param>
+        /// <returns>TreeState.</returns>
+        public static TreeState GetTreeState(ref Random random, NativeList<TreeState> ages, NativeList<float> weights, TreeState fallback)
+        {
+            if (ages.Length == 0)
+            {
+                return fallback;
+            }
+
+            return ages[GetWeightedIndex(ref random, weights, ages.Length)];
+        }
+
+        /// <summary>
+        /// Gets a weighted random prefab entity from the selected prefab entities.
+        /// </summary>
+        /// <param name="random">A source of randomness.</param>
+        /// <param name="prefabEntities">Selected prefab entities.</param>
+        /// <param name="weights">Weights of selected prefab entities.</param>
+        /// <returns>Prefab entity or Entity.Null if none are selected.</returns>
+        public static Entity GetPrefabEntity(ref Random random, NativeList<Entity> prefabEntities, NativeList<float> weights)
+        {
+            if (prefabEntities.Length == 0)
+            {
+                return Entity.Null;
+            }
+
+            return prefabEntities[GetWeightedIndex(ref random, weights, prefabEntities.Length)];
+        }
+
+        /// <summary>
+        /// Freezes or resumes growth of a tree. Frozen trees keep NoTreeGrowth when the mod settings let trees grow. Resumed trees do not get NoTreeGrowth while the mod settings stop trees from growing.
+        /// </summary>
+        /// <param name="buffer">Command buffer used to change the components.</param>
+        /// <param name="sortKey">Sort key for the parallel command buffer.</param>
+        /// <param name="entity">Tree entity.</param>
+        /// <param name="freeze">True to freeze growth. False to resume growth.</param>
+        public static void SetTreeGrowth(EntityCommandBuffer.ParallelWriter buffer, int sortKey, Entity entity, bool freeze)
+        {
+            if (freeze)
+            {
+                buffer.AddComponent<NoTreeGrowth>(sortKey, entity);
+                buffer.AddComponent<FrozenGrowth>(sortKey, entity);
+                buffer.RemoveComponent<ResumedGrowth>(sortKey, entity);
+            }
+            else
+            {
+                buffer.RemoveComponent<NoTreeGrowth>(sortKey, entity);
+                buffer.RemoveComponent<FrozenGrowth>(sortKey, entity);
+                buffer.AddComponent<ResumedGrowth>(sortKey, entity);
+            }
+        }
+
+        /// <summary>
+        /// Gets the bounds of a polygon on the XZ plane.
+        /// </summary>
+        /// <param name="polygon">Points of the polygon.</param>
+        /// <param name="min">Minimum XZ of the polygon or zero if it has no points.</param>
+        /// <param name="max">Maximum XZ of the polygon or zero if it has no points.</param>
+        public static void GetPolygonBounds(NativeList<float3> polygon, out float2 min, out float2 max)
+        {
+            min = float2.zero;
+            max = float2.zero;
+            if (polygon.Length == 0)
+            {
+                return;
+            }
+
+            min = polygon[0].xz;
+            max = polygon[0].xz;
+            for (int i = 1; i < polygon.Length; i++)
+            {
+                min = math.min(min, polygon[i].xz);
+                max = math.max(max, polygon[i].xz);
+            }
+        }
+
+        /// <summary>
+        /// Checks whether a position is inside a polygon using the crossing number test on the XZ plane.
+        /// </summary>
+        /// <param name="position">XZ position to check.</param>
+        /// <param name="polygon">Points of the polygon.</param>
+        /// <param name="min">Minimum XZ of the polygon from <see cref="GetPolygonBounds"/>.</param>
+        /// <param name="max">Maximum XZ of the polygon from <see cref="GetPolygonBounds"/>.</param>
+        /// <returns>True if the position is within the polygon. False if not or if the polygon has fewer than 3 points.</returns>
+        public static bool IsWithinPolygon(float2 position, NativeList<float3> polygon, float2 min, float2 max)
+        {
+            if (polygon.Length < 3 || math.any(position < min) || math.any(position > max))
+            {
+                return false;
+            }
+
+            bool inside = false;
+            for (int i = 0, j = polygon.Length - 1; i < polygon.Length; j = i++)
+            {
+                float2 a = polygon[i].xz;
+                float2 b = polygon[j].xz;
+                if ((a.y > position.y) != (b.y > position.y) && position.x < ((b.x - a.x) * (position.y - a.y) / (b.y - a.y)) + a.x)
+                {
+                    inside = !inside;
+                }
+            }
+
+            return inside;
+        }
+    }
+}